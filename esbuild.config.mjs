@@ -1,4 +1,5 @@
 import esbuild from 'esbuild';
+import fs from 'fs';
 import process from 'process';
 import builtins from 'builtin-modules';
 
@@ -10,6 +11,50 @@ if you want to view the source, please visit the github repository
 
 const prod = process.argv[2] === 'production';
 
+// Transformers.js picks onnxruntime-node whenever process.release.name is
+// 'node', which Electron reports too. The native addon cannot be bundled, so
+// both imports get onnxruntime-web's Node build, which runs on WebAssembly and
+// reads its .wasm files with fs.
+const onnxRuntime = 'onnxruntime-web/dist/ort-web.node.js';
+
+// Only the single-threaded builds: TransformersRuntime sets numThreads to 1
+const onnxWasmFiles = ['ort-wasm.wasm', 'ort-wasm-simd.wasm'];
+
+/**
+ * Transformers.js derives default cache and model folders from
+ * import.meta.url, which is empty in a CJS bundle and makes fileURLToPath
+ * throw on load. Any directory will do: TransformersRuntime overrides both.
+ */
+const transformersImportMeta = {
+    name: 'transformers-import-meta',
+    setup(build) {
+        build.onLoad({ filter: /@xenova[\\/]transformers[\\/]src[\\/]env\.js$/ }, async args => {
+            const source = await fs.promises.readFile(args.path, 'utf8');
+            const dirname = 'url.fileURLToPath(import.meta.url)';
+            if (!source.includes(dirname)) {
+                throw new Error(`${args.path} no longer uses ${dirname}; update transformersImportMeta`);
+            }
+            return { contents: source.replace(dirname, 'process.cwd()'), loader: 'js' };
+        });
+    }
+};
+
+/**
+ * Ship the onnxruntime .wasm files in the plugin folder so local models
+ * never download them (see resolveWasmPath)
+ */
+const copyOnnxWasm = {
+    name: 'copy-onnx-wasm',
+    setup(build) {
+        build.onEnd(async () => {
+            await fs.promises.mkdir('wasm', { recursive: true });
+            await Promise.all(onnxWasmFiles.map(file =>
+                fs.promises.copyFile(`node_modules/onnxruntime-web/dist/${file}`, `wasm/${file}`)
+            ));
+        });
+    }
+};
+
 const context = await esbuild.context({
     banner: { js: banner },
     entryPoints: ['src/main.ts'],
@@ -28,6 +73,8 @@ const context = await esbuild.context({
         '@lezer/common',
         '@lezer/highlight',
         '@lezer/lr',
+        // Native addon; cannot be bundled
+        'better-sqlite3',
         ...builtins
     ],
     format: 'cjs',
@@ -45,8 +92,11 @@ const context = await esbuild.context({
     jsxImportSource: 'preact',
     alias: {
         'react': 'preact/compat',
-        'react-dom': 'preact/compat'
+        'react-dom': 'preact/compat',
+        'onnxruntime-node': onnxRuntime,
+        'onnxruntime-web': onnxRuntime
     },
+    plugins: [transformersImportMeta, copyOnnxWasm],
     // Code splitting configuration for heavy optional modules
     // Note: Manual chunking via dynamic imports in code for:
     // - @xenova/transformers (only load when local embeddings needed)
@@ -0,0 +1,21 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+    '^obsidian$': '<rootDir>/src/__mocks__/obsidian.ts',
+    // Ships only an ESM "module" entry
+    '^hnswlib-wasm$': '<rootDir>/node_modules/hnswlib-wasm/dist/hnswlib.js'
+  },
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', {
+      tsconfig: {
+        module: 'commonjs'
+      }
+    }],
+    '/node_modules/hnswlib-wasm/.+\\.js$': '<rootDir>/jest.esm-transform.js'
+  },
+  transformIgnorePatterns: ['/node_modules/(?!hnswlib-wasm/)']
+};
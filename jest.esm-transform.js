@@ -0,0 +1,32 @@
+/**
+ * Jest transform for ESM-only dependencies: converts them to CommonJS with
+ * esbuild, as the plugin build does (import.meta becomes an empty object)
+ */
+const { createHash } = require('crypto');
+const { readFileSync } = require('fs');
+const { transformSync, version } = require('esbuild');
+
+const transformerSource = readFileSync(__filename, 'utf8');
+
+module.exports = {
+  process(sourceText, sourcePath) {
+    const { code } = transformSync(sourceText, {
+      format: 'cjs',
+      loader: 'js',
+      target: 'es2020',
+      supported: { 'dynamic-import': false },  // Lazy chunks become require()
+      sourcefile: sourcePath,
+      logLevel: 'silent'
+    });
+    return { code };
+  },
+
+  getCacheKey(sourceText, sourcePath) {
+    return createHash('sha256')
+      .update(transformerSource)
+      .update(version)
+      .update(sourcePath)
+      .update(sourceText)
+      .digest('hex');
+  }
+};
@@ -0,0 +1,111 @@
+/**
+ * Obsidian API mock for Jest
+ * The obsidian package ships type declarations only, so tests map the module
+ * here. Covers what core modules touch at runtime; UI classes are left out.
+ */
+
+export class App {}
+
+export class Component {
+    load(): void {}
+    unload(): void {}
+}
+
+export class Notice {
+    constructor(public message: string, public timeout?: number) {}
+    hide(): void {}
+}
+
+export const Platform = {
+    isDesktop: true,
+    isDesktopApp: true,
+    isMobile: false,
+    isMobileApp: false
+};
+
+export class TAbstractFile {
+    path = '';
+    name = '';
+}
+
+export class TFile extends TAbstractFile {
+    basename = '';
+    extension = 'md';
+    stat = { ctime: 0, mtime: 0, size: 0 };
+}
+
+export function normalizePath(path: string): string {
+    return path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
+
+/**
+ * Tests run offline; providers under test are mocks or replays
+ */
+export async function requestUrl(request: { url: string } | string): Promise<never> {
+    const url = typeof request === 'string' ? request : request.url;
+    throw new Error(`requestUrl is not available in tests (${url})`);
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+    return Buffer.from(buffer).toString('base64');
+}
+
+export function parseFrontMatterTags(frontmatter: Record<string, unknown> | null): string[] | null {
+    const tags = frontmatter?.tags ?? frontmatter?.tag;
+    if (!tags) {
+        return null;
+    }
+    const list = Array.isArray(tags) ? tags : String(tags).split(/[,\s]+/);
+    return list.filter(Boolean).map(tag => (String(tag).startsWith('#') ? String(tag) : `#${tag}`));
+}
+
+export function getAllTags(cache: { tags?: Array<{ tag: string }>; frontmatter?: Record<string, unknown> } | null): string[] | null {
+    if (!cache) {
+        return null;
+    }
+    return [...(parseFrontMatterTags(cache.frontmatter ?? null) ?? []), ...(cache.tags ?? []).map(tag => tag.tag)];
+}
+
+/**
+ * Flat YAML only (scalars, inline and block lists), which covers the
+ * frontmatter used in tests
+ */
+export function parseYaml(yaml: string): Record<string, unknown> | null {
+    const result: Record<string, unknown> = {};
+    let listKey: string | undefined;
+
+    for (const line of yaml.split('\n')) {
+        const item = line.match(/^\s+-\s+(.*)$/);
+        if (item && listKey) {
+            (result[listKey] as unknown[]).push(parseYamlScalar(item[1]));
+            continue;
+        }
+
+        const entry = line.match(/^([\w-]+):\s*(.*)$/);
+        if (!entry) {
+            continue;
+        }
+
+        const [, key, value] = entry;
+        listKey = value ? undefined : key;
+        if (!value) {
+            result[key] = [];
+        } else if (value.startsWith('[') && value.endsWith(']')) {
+            result[key] = value.slice(1, -1).split(',').map(part => parseYamlScalar(part.trim())).filter(part => part !== '');
+        } else {
+            result[key] = parseYamlScalar(value);
+        }
+    }
+
+    return Object.keys(result).length > 0 ? result : null;
+}
+
+function parseYamlScalar(value: string): unknown {
+    if (/^(['"]).*\1$/.test(value)) {
+        return value.slice(1, -1);
+    }
+    if (value === 'true' || value === 'false') {
+        return value === 'true';
+    }
+    return value !== '' && !isNaN(Number(value)) ? Number(value) : value;
+}
@@ -60,7 +60,9 @@ Provide thoughtful, thorough analysis that helps users understand complex academ
             enabled: true,
             topK: 10,
             scoreThreshold: 0.65,
-            searchStrategy: 'hybrid'
+            searchStrategy: 'hybrid',
+            linkExpansion: { maxHops: 1, decay: 0.5 },
+            queryPlanning: { rewrite: true, paraphrases: 2, hypotheticalAnswer: true }
         },
         isBackend: true,
         canDelete: false
@@ -190,7 +192,8 @@ Focus on practical systems that reduce friction and enhance discovery.`,
             enabled: true,
             topK: 15,
             scoreThreshold: 0.6,
-            searchStrategy: 'hybrid'
+            searchStrategy: 'hybrid',
+            linkExpansion: { maxHops: 2, decay: 0.5 }
         },
         isBackend: true,
         canDelete: false
@@ -237,7 +240,9 @@ Focus on information that helps people take action or stay informed.`,
             enabled: true,
             topK: 3,
             scoreThreshold: 0.8,
-            searchStrategy: 'keyword'
+            searchStrategy: 'keyword',
+            queryPlanning: { rewrite: true },
+            includeConversationHistory: true
         },
         isBackend: true,
         canDelete: false
@@ -286,7 +291,9 @@ Focus on practical systems that keep projects moving forward.`,
             enabled: true,
             topK: 7,
             scoreThreshold: 0.7,
-            searchStrategy: 'hybrid'
+            searchStrategy: 'hybrid',
+            queryPlanning: { rewrite: true },
+            includeConversationHistory: true
         },
         isBackend: true,
         canDelete: false
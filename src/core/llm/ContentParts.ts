@@ -0,0 +1,103 @@
+/**
+ * Content Parts
+ * Helpers for multimodal messages (text, image and document parts)
+ */
+
+import {
+    CompletionRequest,
+    ContentPart,
+    Message,
+    ProviderError,
+    ProviderErrorCode,
+    ProviderMetadata,
+} from '../../types/Provider';
+
+export const IMAGE_MEDIA_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+};
+
+export const DOCUMENT_MEDIA_TYPES: Record<string, 'application/pdf'> = {
+    pdf: 'application/pdf',
+};
+
+/**
+ * Build a message from parts, filling `content` with the joined text so
+ * text-only consumers (token counting, logs, search) keep working
+ */
+export function createMultimodalMessage(role: Message['role'], parts: ContentPart[]): Message {
+    return {
+        role,
+        content: partsToText(parts),
+        parts
+    };
+}
+
+/**
+ * The parts to send for a message; plain messages become a single text part
+ */
+export function getMessageParts(message: Message): ContentPart[] {
+    if (message.parts && message.parts.length > 0) {
+        return message.parts;
+    }
+    return message.content ? [{ type: 'text', text: message.content }] : [];
+}
+
+/**
+ * Text rendering of parts, with placeholders for non-text content
+ */
+export function partsToText(parts: ContentPart[]): string {
+    return parts
+        .map(part => {
+            switch (part.type) {
+                case 'text':
+                    return part.text;
+                case 'image':
+                    return `[image${part.source ? `: ${part.source}` : ''}]`;
+                case 'document':
+                    return `[document${part.source ? `: ${part.source}` : ''}]`;
+            }
+        })
+        .join('\n');
+}
+
+export function hasNonTextParts(message: Message): boolean {
+    return (message.parts ?? []).some(part => part.type !== 'text');
+}
+
+/**
+ * Throw a clear error if the request carries content the provider cannot
+ * accept, rather than letting the API reject it (or silently drop it)
+ */
+export function assertContentSupported(request: CompletionRequest, metadata: ProviderMetadata): void {
+    const parts = request.messages.flatMap(message => message.parts ?? []);
+
+    const images = parts.filter(part => part.type === 'image');
+    if (images.length > 0 && !metadata.supportsImages) {
+        throw new ProviderError(
+            `${metadata.name} does not accept image input (${describeSources(images)}). Choose a vision-capable provider for this agent.`,
+            metadata.id,
+            ProviderErrorCode.UNSUPPORTED_CONTENT
+        );
+    }
+
+    const documents = parts.filter(part => part.type === 'document');
+    if (documents.length > 0 && !metadata.supportsDocuments) {
+        throw new ProviderError(
+            `${metadata.name} does not accept PDF input (${describeSources(documents)}). Choose a provider with document support for this agent.`,
+            metadata.id,
+            ProviderErrorCode.UNSUPPORTED_CONTENT
+        );
+    }
+}
+
+function describeSources(parts: ContentPart[]): string {
+    const sources = parts
+        .map(part => (part.type === 'text' ? undefined : part.source))
+        .filter((source): source is string => !!source);
+
+    return sources.length > 0 ? sources.join(', ') : `${parts.length} attachment${parts.length === 1 ? '' : 's'}`;
+}
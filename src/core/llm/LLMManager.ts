@@ -0,0 +1,632 @@
+/**
+ * LLM Manager
+ * Provider registry, default resolution and automatic failover
+ */
+
+import { App } from 'obsidian';
+import { MessageMetadata } from '../../types/Conversation';
+import {
+    CompletionRequest,
+    CompletionResponse,
+    LLMProvider,
+    ProviderError,
+    ProviderErrorCode,
+    ProviderHealth,
+} from '../../types/Provider';
+import { ProviderConfig } from '../../types/Settings';
+import { StructuredOutputError } from '../../utils/errors';
+import { getLogger } from '../../utils/logger';
+import { UsageLedger } from '../usage/UsageLedger';
+import { assertContentSupported } from './ContentParts';
+import { RequestScheduler } from './RequestScheduler';
+import { buildRepairPrompt, parseStructuredOutput } from './StructuredOutput';
+import { ContextBudgeter, ContextBudgetReport } from './tokens/ContextBudgeter';
+import { TokenCounter } from './tokens/TokenCounter';
+import { AnthropicProvider } from './providers/AnthropicProvider';
+import { LocalProvider } from './providers/LocalProvider';
+import { OpenAIProvider } from './providers/OpenAIProvider';
+
+const logger = getLogger('LLMManager');
+
+/**
+ * Error codes that trigger failover to the next provider in the chain
+ */
+const FAILOVER_CODES: ProviderErrorCode[] = [
+    ProviderErrorCode.RATE_LIMIT,
+    ProviderErrorCode.NETWORK_ERROR,
+    ProviderErrorCode.TIMEOUT,
+];
+
+/**
+ * How long a provider that failed stays out of the failover chain
+ */
+const UNHEALTHY_COOLDOWN_MS = 60000;
+
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 3;
+
+/**
+ * Follow-up requests made to fix structured output that fails validation
+ */
+const DEFAULT_STRUCTURED_REPAIR_ATTEMPTS = 2;
+
+export interface LLMManagerOptions {
+    defaultProviderId?: string;
+    fallbackProviderIds?: string[];
+    maxConcurrentRequests?: number;  // Per-provider default
+}
+
+/**
+ * Provider selection hints carried by both agent config shapes
+ */
+export interface ProviderSelection {
+    providerId?: string;
+    llmProviderId?: string;
+    modelName?: string;
+}
+
+export interface ManagedCompletion {
+    response: CompletionResponse;
+    providerId: string;
+    metadata: MessageMetadata;
+    contextBudget?: ContextBudgetReport;  // Estimated fit of the request as sent
+}
+
+export interface StructuredCompletion<T> extends ManagedCompletion {
+    data: T;
+}
+
+export class LLMManager {
+    private providers: Map<string, LLMProvider> = new Map();
+    private health: Map<string, ProviderHealth> = new Map();
+    private scheduler: RequestScheduler;
+    private tokenCounter = new TokenCounter();
+    private budgeter = new ContextBudgeter(this.tokenCounter);
+    private usageLedger?: UsageLedger;
+    private registeredConfigs: Map<string, string> = new Map();  // Settings each provider was built from
+
+    constructor(
+        private configs: ProviderConfig[],
+        private app: App,
+        private options: LLMManagerOptions = {}
+    ) {
+        this.scheduler = new RequestScheduler({
+            maxConcurrentRequests: options.maxConcurrentRequests ?? DEFAULT_MAX_CONCURRENT_REQUESTS
+        });
+    }
+
+    /**
+     * Instantiate and initialize all enabled providers from settings
+     */
+    async initialize(): Promise<void> {
+        logger.info('Initializing LLM Manager...');
+
+        for (const config of this.configs) {
+            if (!config.enabled) {
+                continue;
+            }
+
+            try {
+                await this.registerProvider(config);
+            } catch (error) {
+                logger.error(`Failed to initialize provider '${config.id}':`, error);
+            }
+        }
+
+        logger.info(`Initialized ${this.providers.size} providers`);
+    }
+
+    /**
+     * Create, initialize and register a provider from its config
+     */
+    async registerProvider(config: ProviderConfig): Promise<LLMProvider> {
+        const provider = LLMManager.createProvider(config);
+
+        // Provider-specific fields (organization, version, dialect, ...) pass through
+        await provider.initialize({ ...config, app: this.app });
+
+        this.providers.set(config.id, provider);
+        this.registeredConfigs.set(config.id, snapshotConfig(config));
+        this.health.set(config.id, { status: 'unknown', lastChecked: 0 });
+
+        if (config.maxConcurrentRequests !== undefined || config.requestsPerMinute !== undefined) {
+            this.scheduler.setProviderLimits(config.id, {
+                maxConcurrentRequests: config.maxConcurrentRequests,
+                requestsPerMinute: config.requestsPerMinute
+            });
+        }
+        logger.info(`Registered provider: ${config.name} (${config.id})`);
+
+        return provider;
+    }
+
+    /**
+     * Apply edited provider settings: new and changed providers are
+     * (re)initialized, removed and disabled ones unregistered. Providers
+     * added with addProvider() are left alone.
+     */
+    async updateProviders(configs: ProviderConfig[]): Promise<void> {
+        this.configs = configs;
+        const enabled = new Map(configs.filter(config => config.enabled).map(config => [config.id, config]));
+
+        for (const id of [...this.registeredConfigs.keys()]) {
+            if (!enabled.has(id)) {
+                this.unregisterProvider(id);
+                logger.info(`Unregistered provider: ${id}`);
+            }
+        }
+
+        for (const config of enabled.values()) {
+            if (this.registeredConfigs.get(config.id) === snapshotConfig(config)) {
+                continue;
+            }
+            try {
+                await this.registerProvider(config);
+            } catch (error) {
+                this.unregisterProvider(config.id);
+                logger.error(`Failed to initialize provider '${config.id}':`, error);
+            }
+        }
+    }
+
+    /**
+     * Register an already-initialized provider instance, e.g. a MockProvider
+     * or RecordReplayProvider in tests
+     */
+    addProvider(provider: LLMProvider): void {
+        this.providers.set(provider.id, provider);
+        this.health.set(provider.id, { status: 'unknown', lastChecked: 0 });
+        logger.info(`Registered provider: ${provider.name} (${provider.id})`);
+    }
+
+    /**
+     * Remove a provider from the registry
+     */
+    unregisterProvider(id: string): boolean {
+        this.health.delete(id);
+        this.registeredConfigs.delete(id);
+        return this.providers.delete(id);
+    }
+
+    /**
+     * Instantiate the provider implementation for a config's type
+     */
+    static createProvider(config: ProviderConfig): LLMProvider {
+        switch (config.type) {
+            case 'openai':
+                return new OpenAIProvider(config.id, config.name);
+            case 'anthropic':
+                return new AnthropicProvider(config.id, config.name);
+            case 'local':
+                return new LocalProvider(config.id, config.name);
+            default:
+                throw new ProviderError(
+                    `Unsupported provider type: ${(config as ProviderConfig).type}`,
+                    config.id,
+                    ProviderErrorCode.INVALID_REQUEST
+                );
+        }
+    }
+
+    getProvider(id: string): LLMProvider | undefined {
+        return this.providers.get(id);
+    }
+
+    getAllProviders(): LLMProvider[] {
+        return Array.from(this.providers.values());
+    }
+
+    getProviderHealth(id: string): ProviderHealth | undefined {
+        return this.health.get(id);
+    }
+
+    getScheduler(): RequestScheduler {
+        return this.scheduler;
+    }
+
+    getTokenCounter(): TokenCounter {
+        return this.tokenCounter;
+    }
+
+    getBudgeter(): ContextBudgeter {
+        return this.budgeter;
+    }
+
+    /**
+     * Attach the ledger that records token usage and enforces spend budgets
+     */
+    setUsageLedger(ledger: UsageLedger | undefined): void {
+        this.usageLedger = ledger;
+    }
+
+    getUsageLedger(): UsageLedger | undefined {
+        return this.usageLedger;
+    }
+
+    /**
+     * Estimate whether a request fits the context window of the provider
+     * that would serve it
+     */
+    evaluateContextBudget(request: CompletionRequest, selection?: ProviderSelection): Promise<ContextBudgetReport> {
+        const provider = this.resolveProvider(selection);
+        return this.evaluateForProvider(provider, { ...request, model: request.model ?? selection?.modelName });
+    }
+
+    updateOptions(options: LLMManagerOptions): void {
+        this.options = { ...this.options, ...options };
+
+        if (options.maxConcurrentRequests !== undefined) {
+            this.scheduler.setDefaultLimits({ maxConcurrentRequests: options.maxConcurrentRequests });
+        }
+    }
+
+    /**
+     * Reject queued requests; call on plugin unload
+     */
+    shutdown(): void {
+        this.scheduler.clear();
+    }
+
+    /**
+     * Run a health check against every registered provider
+     */
+    async checkHealth(): Promise<Map<string, ProviderHealth>> {
+        await Promise.all(
+            Array.from(this.providers.entries()).map(async ([id, provider]) => {
+                this.health.set(id, await provider.healthCheck());
+            })
+        );
+
+        return new Map(this.health);
+    }
+
+    /**
+     * Resolve the provider for an agent:
+     * agent override → configured default → first healthy provider
+     */
+    resolveProvider(selection?: ProviderSelection): LLMProvider {
+        const agentProviderId = selection?.providerId ?? selection?.llmProviderId;
+
+        // Backend agents use the 'default' placeholder to mean "no override"
+        if (agentProviderId && agentProviderId !== 'default') {
+            const provider = this.providers.get(agentProviderId);
+            if (provider) {
+                return provider;
+            }
+            logger.warn(`Agent provider '${agentProviderId}' not available, falling back to default`);
+        }
+
+        if (this.options.defaultProviderId) {
+            const provider = this.providers.get(this.options.defaultProviderId);
+            if (provider) {
+                return provider;
+            }
+            logger.warn(`Default provider '${this.options.defaultProviderId}' not available`);
+        }
+
+        const healthy = this.getAllProviders().find(p => this.isAvailable(p.id));
+        if (healthy) {
+            return healthy;
+        }
+
+        throw new ProviderError(
+            'No LLM provider is configured or available',
+            'none',
+            ProviderErrorCode.UNKNOWN
+        );
+    }
+
+    /**
+     * Ordered list of providers to try: the resolved provider, then the
+     * configured fallback chain (or every other provider if none is set)
+     */
+    getFailoverChain(selection?: ProviderSelection): LLMProvider[] {
+        const primary = this.resolveProvider(selection);
+        const fallbackIds = this.options.fallbackProviderIds ?? Array.from(this.providers.keys());
+
+        const chain: LLMProvider[] = [primary];
+        for (const id of fallbackIds) {
+            const provider = this.providers.get(id);
+            if (provider && !chain.includes(provider) && this.isAvailable(id)) {
+                chain.push(provider);
+            }
+        }
+
+        return chain;
+    }
+
+    /**
+     * Generate a completion, failing over on retryable provider errors
+     */
+    async complete(request: CompletionRequest, selection?: ProviderSelection): Promise<ManagedCompletion> {
+        this.usageLedger?.assertWithinBudget();
+
+        const chain = this.getFailoverChain(selection);
+        const start = Date.now();
+        let lastError: Error | undefined;
+
+        for (let attempt = 0; attempt < chain.length; attempt++) {
+            const provider = chain[attempt];
+
+            try {
+                assertContentSupported(request, provider.getMetadata());
+                const contextBudget = await this.checkContextFit(provider, this.requestForAttempt(request, selection, attempt));
+
+                const response = await this.scheduler.schedule(
+                    provider.id,
+                    () => provider.complete(this.requestForAttempt(request, selection, attempt)),
+                    { priority: request.priority, signal: request.signal }
+                );
+                this.markHealthy(provider.id);
+                this.recordUsage(provider.id, response, request);
+                return {
+                    response,
+                    providerId: provider.id,
+                    metadata: this.buildMetadata(provider.id, response, request, start, attempt),
+                    contextBudget
+                };
+            } catch (error) {
+                lastError = error instanceof Error ? error : new Error(String(error));
+
+                if (!this.shouldFailover(lastError) || attempt === chain.length - 1) {
+                    throw lastError;
+                }
+
+                this.markUnhealthy(provider.id, lastError);
+                logger.warn(`Provider '${provider.id}' failed (${lastError.message}), failing over to '${chain[attempt + 1].id}'`);
+            }
+        }
+
+        throw lastError ?? new ProviderError('No provider attempted', 'none', ProviderErrorCode.UNKNOWN);
+    }
+
+    /**
+     * Generate a completion whose content must be JSON matching
+     * request.structuredOutput. Invalid output is sent back to the model
+     * with the validation errors, up to maxRepairAttempts times.
+     */
+    async completeStructured<T = unknown>(
+        request: CompletionRequest,
+        selection?: ProviderSelection,
+        maxRepairAttempts: number = DEFAULT_STRUCTURED_REPAIR_ATTEMPTS
+    ): Promise<StructuredCompletion<T>> {
+        const spec = request.structuredOutput;
+        if (!spec) {
+            throw new ProviderError(
+                'completeStructured requires request.structuredOutput',
+                'none',
+                ProviderErrorCode.INVALID_REQUEST
+            );
+        }
+
+        const messages = [...request.messages];
+        let errors: string[] = [];
+        let content = '';
+
+        for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+            const result = await this.complete({ ...request, messages }, selection);
+            content = result.response.content;
+
+            const parsed = parseStructuredOutput(content, spec);
+            if (parsed.errors.length === 0) {
+                result.response.data = parsed.data;
+                return { ...result, data: parsed.data as T };
+            }
+
+            errors = parsed.errors;
+            logger.warn(`Structured output '${spec.name}' invalid (attempt ${attempt + 1}): ${errors.join('; ')}`);
+
+            messages.push(
+                { role: 'assistant', content },
+                { role: 'user', content: buildRepairPrompt(errors) }
+            );
+        }
+
+        throw new StructuredOutputError(
+            `Response did not match the schema after ${maxRepairAttempts + 1} attempts: ${errors.join('; ')}`,
+            spec.name,
+            errors,
+            content
+        );
+    }
+
+    /**
+     * Generate a streaming completion. Failover only happens while no chunk
+     * has been delivered yet, so callers never see output from two providers.
+     */
+    async streamComplete(
+        request: CompletionRequest,
+        onChunk: (chunk: string) => void,
+        onComplete: (result: ManagedCompletion) => void,
+        onError: (error: Error) => void,
+        selection?: ProviderSelection
+    ): Promise<void> {
+        let chain: LLMProvider[];
+        try {
+            this.usageLedger?.assertWithinBudget();
+            chain = this.getFailoverChain(selection);
+        } catch (error) {
+            onError(error instanceof Error ? error : new Error(String(error)));
+            return;
+        }
+
+        const start = Date.now();
+
+        for (let attempt = 0; attempt < chain.length; attempt++) {
+            const provider = chain[attempt];
+            let receivedChunk = false;
+            let failure: Error | undefined;
+
+            try {
+                assertContentSupported(request, provider.getMetadata());
+                const contextBudget = await this.checkContextFit(provider, this.requestForAttempt(request, selection, attempt));
+
+                await this.scheduler.schedule(provider.id, async () => {
+                    failure = undefined;
+                    await provider.streamComplete(
+                        this.requestForAttempt(request, selection, attempt),
+                        chunk => {
+                            receivedChunk = true;
+                            onChunk(chunk);
+                        },
+                        response => {
+                            this.markHealthy(provider.id);
+                            this.recordUsage(provider.id, response, request);
+                            onComplete({
+                                response,
+                                providerId: provider.id,
+                                metadata: this.buildMetadata(provider.id, response, request, start, attempt),
+                                contextBudget
+                            });
+                        },
+                        error => {
+                            failure = error;
+                        }
+                    );
+
+                    // Surface rate limits to the scheduler so it can pause the provider
+                    const streamError: Error | undefined = failure;
+                    if (this.isRateLimit(streamError) && !receivedChunk) {
+                        throw streamError;
+                    }
+                }, { priority: request.priority, signal: request.signal });
+            } catch (error) {
+                failure = error instanceof Error ? error : new Error(String(error));
+            }
+
+            if (!failure) {
+                return;
+            }
+
+            // Cancelled while still queued: end cleanly, as a cancelled stream would
+            if (failure instanceof ProviderError && failure.code === ProviderErrorCode.CANCELLED && !receivedChunk) {
+                onComplete({
+                    response: { content: '', finishReason: 'cancelled', model: '' },
+                    providerId: provider.id,
+                    metadata: { providerId: provider.id, responseTimeMs: Date.now() - start, retryCount: attempt }
+                });
+                return;
+            }
+
+            if (receivedChunk || !this.shouldFailover(failure) || attempt === chain.length - 1) {
+                onError(failure);
+                return;
+            }
+
+            this.markUnhealthy(provider.id, failure);
+            logger.warn(`Provider '${provider.id}' failed (${failure.message}), failing over to '${chain[attempt + 1].id}'`);
+        }
+    }
+
+    private async evaluateForProvider(provider: LLMProvider, request: CompletionRequest): Promise<ContextBudgetReport> {
+        const metadata = provider.getMetadata();
+        const model = request.model
+            ?? this.configs.find(c => c.id === provider.id)?.model
+            ?? metadata.defaultModels[0]
+            ?? '';
+
+        return this.budgeter.evaluate({
+            model,
+            maxContextTokens: metadata.maxContextTokens,
+            contextWindow: await provider.getContextWindow?.(model),
+            systemPrompt: request.systemPrompt,
+            history: request.messages,
+            tools: request.tools,
+            reservedOutputTokens: request.maxTokens ?? 0
+        });
+    }
+
+    /**
+     * Report whether a request is likely to fit before sending it. Token
+     * counts are heuristic estimates, so an over-budget request is only
+     * logged; the provider decides whether it fits.
+     */
+    private async checkContextFit(provider: LLMProvider, request: CompletionRequest): Promise<ContextBudgetReport> {
+        const report = await this.evaluateForProvider(provider, request);
+        if (!report.fits) {
+            logger.warn(
+                `Request needs ~${report.promptTokens + report.reservedOutputTokens} tokens but the context window is ` +
+                `${report.maxContextTokens} (estimated); sending to '${provider.id}' anyway`
+            );
+        }
+        return report;
+    }
+
+    private recordUsage(providerId: string, response: CompletionResponse, request: CompletionRequest): void {
+        if (!this.usageLedger || !response.usage) {
+            return;
+        }
+
+        try {
+            this.usageLedger.record({
+                providerId,
+                model: response.model,
+                usage: response.usage,
+                agentId: request.attribution?.agentId,
+                conversationId: request.attribution?.conversationId,
+                priority: request.priority
+            });
+        } catch (error) {
+            logger.error('Failed to record usage:', error);
+        }
+    }
+
+    private isRateLimit(error: Error | undefined): error is ProviderError {
+        return error instanceof ProviderError && error.code === ProviderErrorCode.RATE_LIMIT;
+    }
+
+    private shouldFailover(error: Error): boolean {
+        return error instanceof ProviderError && error.retryable && FAILOVER_CODES.includes(error.code);
+    }
+
+    /**
+     * Only the primary provider gets the agent's model override; fallbacks
+     * use their own configured model since model names are provider-specific
+     */
+    private requestForAttempt(
+        request: CompletionRequest,
+        selection: ProviderSelection | undefined,
+        attempt: number
+    ): CompletionRequest {
+        if (attempt === 0) {
+            return { ...request, model: request.model ?? selection?.modelName };
+        }
+
+        return { ...request, model: undefined };
+    }
+
+    private buildMetadata(
+        providerId: string,
+        response: CompletionResponse,
+        request: CompletionRequest,
+        start: number,
+        attempt: number
+    ): MessageMetadata {
+        return {
+            model: response.model,
+            providerId,
+            temperature: request.temperature,
+            responseTimeMs: Date.now() - start,
+            retryCount: attempt
+        };
+    }
+
+    private isAvailable(id: string): boolean {
+        const health = this.health.get(id);
+        return health?.status !== 'unhealthy' || Date.now() - health.lastChecked > UNHEALTHY_COOLDOWN_MS;
+    }
+
+    private markHealthy(id: string): void {
+        this.health.set(id, { status: 'healthy', lastChecked: Date.now() });
+    }
+
+    private markUnhealthy(id: string, error: Error): void {
+        this.health.set(id, { status: 'unhealthy', lastChecked: Date.now(), error: error.message });
+    }
+}
+
+/**
+ * Settings that affect how a provider is built; validation timestamps do not
+ */
+function snapshotConfig(config: ProviderConfig): string {
+    return JSON.stringify({ ...config, lastValidated: undefined });
+}
@@ -0,0 +1,314 @@
+/**
+ * Request Scheduler
+ * Per-provider concurrency caps, priority queueing, token-bucket rate
+ * limiting and Retry-After handling for LLM requests
+ */
+
+import { ProviderError, ProviderErrorCode, RequestPriority } from '../../types/Provider';
+import { getLogger } from '../../utils/logger';
+
+const logger = getLogger('RequestScheduler');
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+    interactive: 0,
+    normal: 1,
+    background: 2,
+};
+
+/**
+ * Pause applied after a RATE_LIMIT error that carries no Retry-After header
+ */
+const DEFAULT_RATE_LIMIT_PAUSE_MS = 5000;
+
+/**
+ * How many times a background request is re-queued after a rate limit
+ */
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+export interface ProviderLimits {
+    maxConcurrentRequests: number;
+    requestsPerMinute?: number;  // Unlimited when omitted
+}
+
+export interface ScheduleOptions {
+    priority?: RequestPriority;
+    signal?: AbortSignal;
+}
+
+export interface QueueStats {
+    active: number;
+    queued: number;
+    pausedUntil?: number;
+}
+
+interface QueuedTask {
+    run: () => Promise<unknown>;
+    resolve: (value: any) => void;
+    reject: (error: Error) => void;
+    priority: RequestPriority;
+    sequence: number;
+    attempts: number;
+    signal?: AbortSignal;
+    onAbort?: () => void;
+}
+
+/**
+ * Token bucket allowing bursts up to the per-minute limit
+ */
+class TokenBucket {
+    private tokens: number;
+    private lastRefill = Date.now();
+
+    constructor(private perMinute: number) {
+        this.tokens = perMinute;
+    }
+
+    tryTake(): boolean {
+        this.refill();
+        if (this.tokens >= 1) {
+            this.tokens -= 1;
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Milliseconds until the next token is available
+     */
+    msUntilNextToken(): number {
+        this.refill();
+        return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * 60000 / this.perMinute);
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.perMinute, this.tokens + (now - this.lastRefill) * this.perMinute / 60000);
+        this.lastRefill = now;
+    }
+}
+
+class ProviderQueue {
+    active = 0;
+    pausedUntil = 0;
+    tasks: QueuedTask[] = [];
+    bucket?: TokenBucket;
+    timer?: ReturnType<typeof setTimeout>;
+
+    constructor(public limits: ProviderLimits) {
+        if (limits.requestsPerMinute && limits.requestsPerMinute > 0) {
+            this.bucket = new TokenBucket(limits.requestsPerMinute);
+        }
+    }
+}
+
+export class RequestScheduler {
+    private queues: Map<string, ProviderQueue> = new Map();
+    private limits: Map<string, ProviderLimits> = new Map();
+    private sequence = 0;
+
+    constructor(private defaultLimits: ProviderLimits) {}
+
+    /**
+     * Override limits for a single provider
+     */
+    setProviderLimits(providerId: string, limits: Partial<ProviderLimits>): void {
+        const merged = { ...this.defaultLimits, ...limits };
+        this.limits.set(providerId, merged);
+
+        const queue = this.queues.get(providerId);
+        if (queue) {
+            queue.limits = merged;
+            queue.bucket = merged.requestsPerMinute ? new TokenBucket(merged.requestsPerMinute) : undefined;
+        }
+    }
+
+    /**
+     * Update the default limits applied to providers without overrides
+     */
+    setDefaultLimits(limits: Partial<ProviderLimits>): void {
+        this.defaultLimits = { ...this.defaultLimits, ...limits };
+
+        for (const [id, queue] of this.queues) {
+            if (!this.limits.has(id)) {
+                queue.limits = this.defaultLimits;
+                this.pump(id);
+            }
+        }
+    }
+
+    /**
+     * Queue a task against a provider. Resolves with the task's result once
+     * it has run within that provider's concurrency and rate limits.
+     */
+    schedule<T>(providerId: string, run: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            if (options.signal?.aborted) {
+                reject(new ProviderError('Request cancelled', providerId, ProviderErrorCode.CANCELLED));
+                return;
+            }
+
+            const task: QueuedTask = {
+                run,
+                resolve,
+                reject,
+                priority: options.priority ?? 'normal',
+                sequence: this.sequence++,
+                attempts: 0,
+                signal: options.signal
+            };
+
+            // Drop the task from the queue if it is cancelled before it starts
+            if (options.signal) {
+                task.onAbort = () => {
+                    const queue = this.getQueue(providerId);
+                    const index = queue.tasks.indexOf(task);
+                    if (index !== -1) {
+                        queue.tasks.splice(index, 1);
+                        reject(new ProviderError('Request cancelled', providerId, ProviderErrorCode.CANCELLED));
+                    }
+                };
+                options.signal.addEventListener('abort', task.onAbort);
+            }
+
+            this.enqueue(providerId, task);
+        });
+    }
+
+    getStats(providerId: string): QueueStats {
+        const queue = this.queues.get(providerId);
+        if (!queue) {
+            return { active: 0, queued: 0 };
+        }
+
+        return {
+            active: queue.active,
+            queued: queue.tasks.length,
+            pausedUntil: queue.pausedUntil > Date.now() ? queue.pausedUntil : undefined
+        };
+    }
+
+    /**
+     * Reject all queued tasks and stop timers
+     */
+    clear(): void {
+        for (const [id, queue] of this.queues) {
+            clearTimeout(queue.timer);
+            for (const task of queue.tasks) {
+                this.detach(task);
+                task.reject(new ProviderError('Request queue cleared', id, ProviderErrorCode.CANCELLED));
+            }
+            queue.tasks = [];
+        }
+    }
+
+    private getQueue(providerId: string): ProviderQueue {
+        let queue = this.queues.get(providerId);
+        if (!queue) {
+            queue = new ProviderQueue(this.limits.get(providerId) ?? this.defaultLimits);
+            this.queues.set(providerId, queue);
+        }
+        return queue;
+    }
+
+    private enqueue(providerId: string, task: QueuedTask): void {
+        const queue = this.getQueue(providerId);
+
+        // Keep the queue ordered by priority, FIFO within a priority
+        const index = queue.tasks.findIndex(existing =>
+            PRIORITY_ORDER[existing.priority] > PRIORITY_ORDER[task.priority] ||
+            (existing.priority === task.priority && existing.sequence > task.sequence)
+        );
+        if (index === -1) {
+            queue.tasks.push(task);
+        } else {
+            queue.tasks.splice(index, 0, task);
+        }
+
+        this.pump(providerId);
+    }
+
+    /**
+     * Start as many queued tasks as the provider's limits allow
+     */
+    private pump(providerId: string): void {
+        const queue = this.getQueue(providerId);
+
+        while (queue.tasks.length > 0 && queue.active < queue.limits.maxConcurrentRequests) {
+            const waitMs = this.getWaitMs(queue);
+            if (waitMs > 0) {
+                this.schedulePump(providerId, queue, waitMs);
+                return;
+            }
+
+            if (queue.bucket && !queue.bucket.tryTake()) {
+                this.schedulePump(providerId, queue, queue.bucket.msUntilNextToken());
+                return;
+            }
+
+            const task = queue.tasks.shift()!;
+            this.start(providerId, queue, task);
+        }
+    }
+
+    private getWaitMs(queue: ProviderQueue): number {
+        return Math.max(0, queue.pausedUntil - Date.now());
+    }
+
+    private schedulePump(providerId: string, queue: ProviderQueue, delayMs: number): void {
+        if (queue.timer) {
+            return;
+        }
+
+        queue.timer = setTimeout(() => {
+            queue.timer = undefined;
+            this.pump(providerId);
+        }, delayMs);
+    }
+
+    private start(providerId: string, queue: ProviderQueue, task: QueuedTask): void {
+        queue.active++;
+        task.attempts++;
+
+        task.run()
+            .then(result => {
+                this.detach(task);
+                task.resolve(result);
+            })
+            .catch(error => {
+                if (this.isRateLimit(error)) {
+                    this.pauseProvider(providerId, queue, error);
+
+                    // Background work waits out the limit; interactive requests
+                    // fail fast so the LLM manager can fail over instead
+                    if (task.priority === 'background' && task.attempts <= MAX_RATE_LIMIT_RETRIES && !task.signal?.aborted) {
+                        logger.info(`Re-queueing background request for '${providerId}' after rate limit`);
+                        this.enqueue(providerId, task);
+                        return;
+                    }
+                }
+
+                this.detach(task);
+                task.reject(error instanceof Error ? error : new Error(String(error)));
+            })
+            .finally(() => {
+                queue.active--;
+                this.pump(providerId);
+            });
+    }
+
+    private pauseProvider(providerId: string, queue: ProviderQueue, error: ProviderError): void {
+        const pauseMs = error.retryAfterMs ?? DEFAULT_RATE_LIMIT_PAUSE_MS;
+        queue.pausedUntil = Math.max(queue.pausedUntil, Date.now() + pauseMs);
+        logger.warn(`Provider '${providerId}' rate limited, pausing queue for ${pauseMs}ms`);
+    }
+
+    private isRateLimit(error: unknown): error is ProviderError {
+        return error instanceof ProviderError && error.code === ProviderErrorCode.RATE_LIMIT;
+    }
+
+    private detach(task: QueuedTask): void {
+        if (task.signal && task.onAbort) {
+            task.signal.removeEventListener('abort', task.onAbort);
+        }
+    }
+}
@@ -0,0 +1,84 @@
+/**
+ * Structured Output
+ * Prompting, JSON extraction and schema validation for responses that must
+ * conform to a StructuredOutputSpec
+ */
+
+import { StructuredOutputSpec } from '../../types/Provider';
+import { validateAgainstSchema } from '../tools/SchemaValidator';
+
+export interface StructuredParseResult {
+    data?: unknown;
+    errors: string[];
+}
+
+/**
+ * System prompt instruction for providers without a native JSON schema mode
+ */
+export function buildStructuredOutputInstruction(spec: StructuredOutputSpec): string {
+    const description = spec.description ? `${spec.description}\n` : '';
+
+    return `${description}Respond with a single JSON value that conforms to this JSON schema (${spec.name}). ` +
+        'Output only the JSON: no explanation and no markdown code fences.\n\n' +
+        JSON.stringify(spec.schema, null, 2);
+}
+
+/**
+ * Append the structured output instruction to a system prompt
+ */
+export function appendStructuredOutputInstruction(systemPrompt: string | undefined, spec: StructuredOutputSpec): string {
+    const instruction = buildStructuredOutputInstruction(spec);
+    return systemPrompt ? `${systemPrompt}\n\n${instruction}` : instruction;
+}
+
+/**
+ * Extract and validate JSON from a model response, tolerating code fences
+ * and prose around the JSON value
+ */
+export function parseStructuredOutput(content: string, spec: StructuredOutputSpec): StructuredParseResult {
+    const json = extractJson(content);
+    if (json === undefined) {
+        return { errors: ['Response does not contain valid JSON'] };
+    }
+
+    const validation = validateAgainstSchema(json, spec.schema);
+    return validation.valid ? { data: json, errors: [] } : { errors: validation.errors };
+}
+
+/**
+ * Follow-up message asking the model to fix an invalid response
+ */
+export function buildRepairPrompt(errors: string[]): string {
+    return 'Your previous response did not match the required JSON schema:\n' +
+        errors.map(error => `- ${error}`).join('\n') +
+        '\n\nReply with only the corrected JSON.';
+}
+
+function extractJson(content: string): unknown {
+    const trimmed = content.trim();
+    const candidates: string[] = [trimmed];
+
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    if (fenced) {
+        candidates.push(fenced[1].trim());
+    }
+
+    // Outermost object or array embedded in prose
+    for (const [open, close] of [['{', '}'], ['[', ']']]) {
+        const start = trimmed.indexOf(open);
+        const end = trimmed.lastIndexOf(close);
+        if (start !== -1 && end > start) {
+            candidates.push(trimmed.substring(start, end + 1));
+        }
+    }
+
+    for (const candidate of candidates) {
+        try {
+            return JSON.parse(candidate);
+        } catch {
+            // Try the next candidate
+        }
+    }
+
+    return undefined;
+}
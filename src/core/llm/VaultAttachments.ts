@@ -0,0 +1,93 @@
+/**
+ * Vault Attachments
+ * Load images and PDFs from the vault as message content parts
+ */
+
+import { App, TFile, arrayBufferToBase64 } from 'obsidian';
+import { ContentPart, DocumentContentPart, ImageContentPart } from '../../types/Provider';
+import { ValidationError } from '../../utils/errors';
+import { getLogger } from '../../utils/logger';
+import { DOCUMENT_MEDIA_TYPES, IMAGE_MEDIA_TYPES } from './ContentParts';
+
+const logger = getLogger('VaultAttachments');
+
+/**
+ * Provider limits: Anthropic caps images at 5 MB and requests at 32 MB
+ */
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_DOCUMENT_BYTES = 32 * 1024 * 1024;
+
+export function isSupportedAttachment(file: TFile): boolean {
+    const extension = file.extension.toLowerCase();
+    return extension in IMAGE_MEDIA_TYPES || extension in DOCUMENT_MEDIA_TYPES;
+}
+
+/**
+ * Read an image or PDF from the vault as a content part
+ */
+export async function loadAttachment(app: App, file: TFile): Promise<ImageContentPart | DocumentContentPart> {
+    const extension = file.extension.toLowerCase();
+    const imageType = IMAGE_MEDIA_TYPES[extension];
+    const documentType = DOCUMENT_MEDIA_TYPES[extension];
+
+    if (!imageType && !documentType) {
+        throw new ValidationError(`Unsupported attachment type '.${extension}' (${file.path})`, 'attachment');
+    }
+
+    const maxBytes = imageType ? MAX_IMAGE_BYTES : MAX_DOCUMENT_BYTES;
+    if (file.stat.size > maxBytes) {
+        throw new ValidationError(
+            `${file.path} is ${(file.stat.size / 1024 / 1024).toFixed(1)} MB; the limit is ${maxBytes / 1024 / 1024} MB`,
+            'attachment'
+        );
+    }
+
+    const data = arrayBufferToBase64(await app.vault.readBinary(file));
+
+    if (imageType) {
+        return { type: 'image', mediaType: imageType, data, source: file.path };
+    }
+    return { type: 'document', mediaType: documentType, data, source: file.path };
+}
+
+/**
+ * Resolve a vault path or wikilink target (relative to sourcePath) and load it
+ */
+export async function loadAttachmentByPath(app: App, linkpath: string, sourcePath: string = ''): Promise<ContentPart> {
+    const file = app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath)
+        ?? app.vault.getFileByPath(linkpath);
+
+    if (!file) {
+        throw new ValidationError(`Attachment not found: ${linkpath}`, 'attachment');
+    }
+
+    return loadAttachment(app, file);
+}
+
+/**
+ * Load every image and PDF embedded in a note (![[diagram.png]]). Embeds
+ * that are missing or too large are skipped with a warning.
+ */
+export async function loadEmbeddedAttachments(app: App, note: TFile): Promise<ContentPart[]> {
+    const embeds = app.metadataCache.getFileCache(note)?.embeds ?? [];
+    const parts: ContentPart[] = [];
+    const seen = new Set<string>();
+
+    for (const embed of embeds) {
+        const linkpath = embed.link.split('#')[0];
+        const file = app.metadataCache.getFirstLinkpathDest(linkpath, note.path);
+
+        if (!file || seen.has(file.path) || !isSupportedAttachment(file)) {
+            continue;
+        }
+        seen.add(file.path);
+
+        try {
+            parts.push(await loadAttachment(app, file));
+        } catch (error) {
+            logger.warn(`Skipping embedded attachment ${file.path}:`, error);
+        }
+    }
+
+    return parts;
+}
@@ -0,0 +1,250 @@
+import { App } from 'obsidian';
+import { CompletionRequest, ProviderError, ProviderErrorCode } from '../../../types/Provider';
+import { LLMManager, ManagedCompletion, ProviderSelection } from '../LLMManager';
+import { MockProvider } from '../testing/MockProvider';
+import { FixtureFileSystem, RecordReplayProvider } from '../testing/RecordReplayProvider';
+
+const request: CompletionRequest = {
+    systemPrompt: 'You are terse.',
+    messages: [{ role: 'user', content: 'Say hello' }]
+};
+
+function createManager(...providers: MockProvider[]): LLMManager {
+    const manager = new LLMManager([], new App(), { defaultProviderId: providers[0]?.id });
+    providers.forEach(provider => manager.addProvider(provider));
+    return manager;
+}
+
+interface StreamResult {
+    chunks: string[];
+    result?: ManagedCompletion;
+    error?: Error;
+}
+
+async function stream(manager: LLMManager, req: CompletionRequest, selection?: ProviderSelection): Promise<StreamResult> {
+    const outcome: StreamResult = { chunks: [] };
+    await manager.streamComplete(
+        req,
+        chunk => outcome.chunks.push(chunk),
+        result => { outcome.result = result; },
+        error => { outcome.error = error; },
+        selection
+    );
+    return outcome;
+}
+
+/**
+ * Fixture files kept in memory
+ */
+class MemoryFileSystem implements FixtureFileSystem {
+    files = new Map<string, string>();
+
+    async exists(path: string): Promise<boolean> {
+        return this.files.has(path);
+    }
+
+    async read(path: string): Promise<string> {
+        return this.files.get(path) ?? '';
+    }
+
+    async write(path: string, data: string): Promise<void> {
+        this.files.set(path, data);
+    }
+}
+
+describe('LLMManager with MockProvider', () => {
+    it('returns scripted replies and records the request', async () => {
+        const mock = new MockProvider('primary').enqueue({ content: 'Hello!' });
+        const manager = createManager(mock);
+
+        const result = await manager.complete(request);
+
+        expect(result.providerId).toBe('primary');
+        expect(result.response.content).toBe('Hello!');
+        expect(result.response.finishReason).toBe('stop');
+        expect(result.metadata.retryCount).toBe(0);
+        expect(mock.calls).toHaveLength(1);
+        expect(mock.calls[0].messages[0].content).toBe('Say hello');
+    });
+
+    it('returns tool calls with a tool_calls finish reason', async () => {
+        const mock = new MockProvider('primary').enqueue({
+            toolCalls: [{ id: 'call_1', name: 'search_notes', arguments: { query: 'hello' } }]
+        });
+        const manager = createManager(mock);
+
+        const { response } = await manager.complete({
+            ...request,
+            tools: [{ name: 'search_notes', description: 'Search', parameters: { type: 'object', properties: {} } }]
+        });
+
+        expect(response.finishReason).toBe('tool_calls');
+        expect(response.toolCalls).toEqual([{ id: 'call_1', name: 'search_notes', arguments: { query: 'hello' } }]);
+    });
+
+    it('fails over on retryable errors', async () => {
+        const primary = new MockProvider('primary').enqueueError(ProviderErrorCode.NETWORK_ERROR);
+        const fallback = new MockProvider('fallback').enqueue({ content: 'From fallback' });
+        const manager = createManager(primary, fallback);
+
+        const result = await manager.complete(request);
+
+        expect(result.providerId).toBe('fallback');
+        expect(result.response.content).toBe('From fallback');
+        expect(result.metadata.retryCount).toBe(1);
+        expect(primary.calls).toHaveLength(1);
+    });
+
+    it('does not fail over on non-retryable errors', async () => {
+        const primary = new MockProvider('primary').enqueueError(ProviderErrorCode.INVALID_API_KEY, 'Bad key');
+        const fallback = new MockProvider('fallback').enqueue({ content: 'Unused' });
+        const manager = createManager(primary, fallback);
+
+        await expect(manager.complete(request)).rejects.toMatchObject({
+            code: ProviderErrorCode.INVALID_API_KEY,
+            message: 'Bad key'
+        });
+        expect(fallback.calls).toHaveLength(0);
+    });
+
+    it('streams scripted chunks in order', async () => {
+        const mock = new MockProvider('primary').enqueue({ chunks: ['Hel', 'lo', ' there'] });
+        const manager = createManager(mock);
+
+        const { chunks, result, error } = await stream(manager, request);
+
+        expect(error).toBeUndefined();
+        expect(chunks).toEqual(['Hel', 'lo', ' there']);
+        expect(result?.response.content).toBe('Hello there');
+        expect(result?.providerId).toBe('primary');
+    });
+
+    it('fails over a stream that errors before its first chunk', async () => {
+        const primary = new MockProvider('primary').enqueueError(ProviderErrorCode.TIMEOUT);
+        const fallback = new MockProvider('fallback').enqueue({ content: 'Recovered reply' });
+        const manager = createManager(primary, fallback);
+
+        const { chunks, result, error } = await stream(manager, request);
+
+        expect(error).toBeUndefined();
+        expect(chunks.join('')).toBe('Recovered reply');
+        expect(result?.providerId).toBe('fallback');
+    });
+
+    it('reports a mid-stream error without failing over', async () => {
+        const primary = new MockProvider('primary').enqueue({
+            chunks: ['Partial'],
+            error: { code: ProviderErrorCode.NETWORK_ERROR, message: 'Connection dropped' }
+        });
+        const fallback = new MockProvider('fallback').enqueue({ content: 'Unused' });
+        const manager = createManager(primary, fallback);
+
+        const { chunks, result, error } = await stream(manager, request);
+
+        expect(chunks).toEqual(['Partial']);
+        expect(result).toBeUndefined();
+        expect(error).toBeInstanceOf(ProviderError);
+        expect((error as ProviderError).code).toBe(ProviderErrorCode.NETWORK_ERROR);
+        expect(fallback.calls).toHaveLength(0);
+    });
+});
+
+describe('LLMManager with RecordReplayProvider', () => {
+    const fixturePath = 'fixtures/hello.json';
+    const toolRequest: CompletionRequest = {
+        messages: [{ role: 'user', content: 'Find my notes on hello' }],
+        tools: [{ name: 'search_notes', description: 'Search', parameters: { type: 'object', properties: {} } }]
+    };
+
+    async function record(fs: MemoryFileSystem): Promise<MockProvider> {
+        const inner = new MockProvider('recorded').enqueue(
+            { content: 'Hello!' },
+            { chunks: ['Streamed ', 'hello'] },
+            { toolCalls: [{ id: 'call_1', name: 'search_notes', arguments: { query: 'hello' } }] },
+            { error: { code: ProviderErrorCode.INVALID_API_KEY, message: 'Bad key' } }
+        );
+        const recorder = new RecordReplayProvider({ mode: 'record', fixturePath, fs, inner });
+        await recorder.initialize({ app: new App() });
+
+        const manager = new LLMManager([], new App());
+        manager.addProvider(recorder);
+
+        await manager.complete(request);
+        await stream(manager, { ...request, messages: [{ role: 'user', content: 'Stream hello' }] });
+        await manager.complete(toolRequest);
+        await expect(manager.complete({ ...request, temperature: 0 })).rejects.toThrow('Bad key');
+
+        return inner;
+    }
+
+    async function replay(fs: MemoryFileSystem): Promise<LLMManager> {
+        const player = new RecordReplayProvider({ mode: 'replay', fixturePath, fs, id: 'replayed' });
+        await player.initialize({ app: new App() });
+
+        const manager = new LLMManager([], new App());
+        manager.addProvider(player);
+        return manager;
+    }
+
+    it('replays recorded completions, streams, tool calls and errors offline', async () => {
+        const fs = new MemoryFileSystem();
+        const inner = await record(fs);
+        expect(inner.pending).toBe(0);
+        expect(JSON.parse(fs.files.get(fixturePath)!).entries).toHaveLength(4);
+
+        const manager = await replay(fs);
+
+        const completion = await manager.complete(request);
+        expect(completion.providerId).toBe('replayed');
+        expect(completion.response.content).toBe('Hello!');
+
+        const streamed = await stream(manager, { ...request, messages: [{ role: 'user', content: 'Stream hello' }] });
+        expect(streamed.chunks).toEqual(['Streamed ', 'hello']);
+        expect(streamed.result?.response.content).toBe('Streamed hello');
+
+        const tools = await manager.complete(toolRequest);
+        expect(tools.response.toolCalls).toEqual([{ id: 'call_1', name: 'search_notes', arguments: { query: 'hello' } }]);
+
+        await expect(manager.complete({ ...request, temperature: 0 })).rejects.toMatchObject({
+            code: ProviderErrorCode.INVALID_API_KEY,
+            message: 'Bad key'
+        });
+
+        // Nothing reached the recorded provider again
+        expect(inner.calls).toHaveLength(4);
+    });
+
+    it('rejects requests that were never recorded', async () => {
+        const fs = new MemoryFileSystem();
+        await record(fs);
+        const manager = await replay(fs);
+
+        await expect(manager.complete({ ...request, messages: [{ role: 'user', content: 'Something new' }] }))
+            .rejects.toMatchObject({ code: ProviderErrorCode.INVALID_REQUEST });
+    });
+
+    it('keys replays by the structured output schema', async () => {
+        const fs = new MemoryFileSystem();
+        const asList = { ...request, structuredOutput: { name: 'list', schema: { type: 'array' } } };
+        const asObject = { ...request, structuredOutput: { name: 'item', schema: { type: 'object' } } };
+
+        const recorder = new RecordReplayProvider({
+            mode: 'record',
+            fixturePath,
+            fs,
+            inner: new MockProvider('recorded').enqueue({ content: '["a"]' }, { content: '{"a":1}' })
+        });
+        await recorder.initialize({ app: new App() });
+        await recorder.complete(asList);
+        await recorder.complete(asObject);
+
+        const manager = await replay(fs);
+
+        expect((await manager.complete(asObject)).response.content).toBe('{"a":1}');
+        expect((await manager.complete(asList)).response.content).toBe('["a"]');
+    });
+
+    it('requires a fixture to replay', async () => {
+        await expect(replay(new MemoryFileSystem())).rejects.toThrow('Fixture not found');
+    });
+});
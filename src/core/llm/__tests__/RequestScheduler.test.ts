@@ -0,0 +1,172 @@
+import { ProviderError, ProviderErrorCode, RequestPriority } from '../../../types/Provider';
+import { RequestScheduler } from '../RequestScheduler';
+
+/**
+ * A task that runs until the test settles it
+ */
+interface ControlledTask {
+    started: boolean;
+    runs: number;
+    resolve: (value: string) => void;
+    reject: (error: Error) => void;
+    run: () => Promise<string>;
+}
+
+function createTask(): ControlledTask {
+    const task: ControlledTask = {
+        started: false,
+        runs: 0,
+        resolve: () => undefined,
+        reject: () => undefined,
+        run: () => new Promise<string>((resolve, reject) => {
+            task.started = true;
+            task.runs++;
+            task.resolve = resolve;
+            task.reject = reject;
+        })
+    };
+    return task;
+}
+
+function rateLimited(retryAfterMs?: number): ProviderError {
+    return new ProviderError('Too many requests', 'openai', ProviderErrorCode.RATE_LIMIT, true, retryAfterMs);
+}
+
+describe('RequestScheduler', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('caps concurrent requests per provider', async () => {
+        const scheduler = new RequestScheduler({ maxConcurrentRequests: 2 });
+        const tasks = [createTask(), createTask(), createTask(), createTask()];
+        const results = tasks.map(task => scheduler.schedule('openai', task.run));
+
+        expect(tasks.map(task => task.started)).toEqual([true, true, false, false]);
+        expect(scheduler.getStats('openai')).toEqual({ active: 2, queued: 2, pausedUntil: undefined });
+
+        tasks[0].resolve('first');
+        await expect(results[0]).resolves.toBe('first');
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(tasks.map(task => task.started)).toEqual([true, true, true, false]);
+        expect(scheduler.getStats('openai').active).toBe(2);
+    });
+
+    it('keeps separate limits per provider', () => {
+        const scheduler = new RequestScheduler({ maxConcurrentRequests: 1 });
+        const openai = [createTask(), createTask()];
+        const anthropic = createTask();
+
+        openai.forEach(task => scheduler.schedule('openai', task.run));
+        scheduler.schedule('anthropic', anthropic.run);
+
+        expect(openai.map(task => task.started)).toEqual([true, false]);
+        expect(anthropic.started).toBe(true);
+    });
+
+    it('runs interactive requests before background ones, FIFO within a priority', async () => {
+        const scheduler = new RequestScheduler({ maxConcurrentRequests: 1 });
+        const blocker = createTask();
+        scheduler.schedule('openai', blocker.run);
+
+        const order: string[] = [];
+        const queued: Array<[string, RequestPriority]> = [
+            ['background 1', 'background'],
+            ['background 2', 'background'],
+            ['normal', 'normal'],
+            ['interactive', 'interactive']
+        ];
+        const results = queued.map(([name, priority]) =>
+            scheduler.schedule('openai', async () => { order.push(name); }, { priority }));
+
+        blocker.resolve('done');
+        await Promise.all(results);
+
+        expect(order).toEqual(['interactive', 'normal', 'background 1', 'background 2']);
+    });
+
+    it('refills the token bucket over time', async () => {
+        const scheduler = new RequestScheduler({ maxConcurrentRequests: 10, requestsPerMinute: 2 });
+        const tasks = [createTask(), createTask(), createTask()];
+        tasks.forEach(task => scheduler.schedule('openai', task.run));
+
+        // A burst up to the per-minute limit, then one token every 30s
+        expect(tasks.map(task => task.started)).toEqual([true, true, false]);
+
+        await jest.advanceTimersByTimeAsync(29_999);
+        expect(tasks[2].started).toBe(false);
+
+        await jest.advanceTimersByTimeAsync(1);
+        expect(tasks[2].started).toBe(true);
+    });
+
+    it('pauses a provider for Retry-After and re-queues background work', async () => {
+        const scheduler = new RequestScheduler({ maxConcurrentRequests: 1 });
+        const indexing = createTask();
+        const result = scheduler.schedule('openai', indexing.run, { priority: 'background' });
+
+        indexing.reject(rateLimited(10_000));
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(scheduler.getStats('openai')).toEqual({ active: 0, queued: 1, pausedUntil: Date.now() + 10_000 });
+        expect(indexing.runs).toBe(1);
+
+        await jest.advanceTimersByTimeAsync(9_999);
+        expect(indexing.runs).toBe(1);
+
+        await jest.advanceTimersByTimeAsync(1);
+        expect(indexing.runs).toBe(2);
+
+        indexing.resolve('embedded');
+        await expect(result).resolves.toBe('embedded');
+    });
+
+    it('fails interactive requests fast on a rate limit but holds the queue', async () => {
+        const scheduler = new RequestScheduler({ maxConcurrentRequests: 1 });
+        const chat = createTask();
+        const next = createTask();
+        const chatResult = scheduler.schedule('openai', chat.run, { priority: 'interactive' });
+        scheduler.schedule('openai', next.run);
+
+        chat.reject(rateLimited());
+        await expect(chatResult).rejects.toMatchObject({ code: ProviderErrorCode.RATE_LIMIT });
+        expect(chat.runs).toBe(1);
+
+        // No Retry-After: the default pause applies
+        await jest.advanceTimersByTimeAsync(4_999);
+        expect(next.started).toBe(false);
+
+        await jest.advanceTimersByTimeAsync(1);
+        expect(next.started).toBe(true);
+    });
+
+    it('gives up on background work after repeated rate limits', async () => {
+        const scheduler = new RequestScheduler({ maxConcurrentRequests: 1 });
+        const run = jest.fn(async () => { throw rateLimited(1_000); });
+        const result = scheduler.schedule('openai', run, { priority: 'background' });
+        const settled = expect(result).rejects.toMatchObject({ code: ProviderErrorCode.RATE_LIMIT });
+
+        await jest.advanceTimersByTimeAsync(10_000);
+
+        await settled;
+        expect(run).toHaveBeenCalledTimes(4);
+    });
+
+    it('drops queued requests whose signal aborts', async () => {
+        const scheduler = new RequestScheduler({ maxConcurrentRequests: 1 });
+        const blocker = createTask();
+        const cancelled = createTask();
+        const controller = new AbortController();
+
+        scheduler.schedule('openai', blocker.run);
+        const result = scheduler.schedule('openai', cancelled.run, { signal: controller.signal });
+
+        controller.abort();
+        await expect(result).rejects.toMatchObject({ code: ProviderErrorCode.CANCELLED });
+
+        blocker.resolve('done');
+        await jest.advanceTimersByTimeAsync(0);
+        expect(cancelled.started).toBe(false);
+        expect(scheduler.getStats('openai')).toEqual({ active: 0, queued: 0, pausedUntil: undefined });
+    });
+});
@@ -0,0 +1,25 @@
+/**
+ * Anthropic Messages API wire format helpers
+ * Shared by the Anthropic provider and the streaming parser
+ */
+
+import { CompletionResponse, ToolCall } from '../../../types/Provider';
+
+/**
+ * Map an Anthropic stop_reason onto our finishReason
+ */
+export function mapAnthropicStopReason(reason: string | undefined, toolCalls: ToolCall[]): CompletionResponse['finishReason'] {
+    switch (reason) {
+        case 'end_turn':
+        case 'stop_sequence':
+            return 'stop';
+        case 'max_tokens':
+            return 'length';
+        case 'tool_use':
+            return 'tool_calls';
+        case 'refusal':
+            return 'error';
+        default:
+            return toolCalls.length > 0 ? 'tool_calls' : 'stop';
+    }
+}
@@ -0,0 +1,301 @@
+/**
+ * Anthropic Provider
+ * Messages API integration with native system prompt and tool-use mapping
+ */
+
+import {
+    AnthropicProviderConfig,
+    CompletionRequest,
+    CompletionResponse,
+    Message,
+    ProviderError,
+    ProviderErrorCode,
+    ProviderInitConfig,
+    ProviderMetadata,
+    ToolCall,
+} from '../../../types/Provider';
+import { getLogger } from '../../../utils/logger';
+import { getMessageParts } from '../ContentParts';
+import { StreamingResponseParser } from '../streaming/StreamParser';
+import { buildStructuredOutputInstruction } from '../StructuredOutput';
+import { mapAnthropicStopReason } from './AnthropicFormat';
+import { BaseProvider } from './BaseProvider';
+
+const logger = getLogger('AnthropicProvider');
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com/v1';
+const DEFAULT_API_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096;
+
+type AnthropicContentBlock =
+    | { type: 'text'; text: string }
+    | { type: 'image' | 'document'; source: { type: 'base64'; media_type: string; data: string } }
+    | { type: 'tool_use'; id: string; name: string; input: Record<string, any> }
+    | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: AnthropicContentBlock[];
+}
+
+export class AnthropicProvider extends BaseProvider {
+    readonly type = 'anthropic' as const;
+
+    protected config!: AnthropicProviderConfig;
+
+    async initialize(config: ProviderInitConfig): Promise<void> {
+        if (!config.apiKey) {
+            throw new ProviderError(
+                'Anthropic API key is required',
+                this.id,
+                ProviderErrorCode.INVALID_API_KEY
+            );
+        }
+
+        await super.initialize(config);
+    }
+
+    getMetadata(): ProviderMetadata {
+        return {
+            id: this.id,
+            name: this.name,
+            type: 'anthropic',
+            supportsStreaming: true,
+            supportsTools: true,
+            supportsImages: true,
+            supportsDocuments: true,
+            defaultModels: ['claude-sonnet-4-5', 'claude-opus-4-1', 'claude-3-5-haiku-latest'],
+            maxContextTokens: 200000
+        };
+    }
+
+    /**
+     * Generate a completion (non-streaming)
+     */
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+        const model = this.resolveModel(request);
+        logger.debug(`Requesting completion from ${model}`);
+
+        const response = await this.httpRequest({
+            url: `${this.getBaseURL()}/messages`,
+            method: 'POST',
+            headers: this.getHeaders(),
+            body: this.buildRequestBody(request, model),
+            signal: request.signal,
+            timeoutMs: request.timeoutMs
+        });
+
+        return this.parseResponse(response.json, model);
+    }
+
+    /**
+     * Generate a streaming completion over server-sent events
+     */
+    async streamComplete(
+        request: CompletionRequest,
+        onChunk: (chunk: string) => void,
+        onComplete: (response: CompletionResponse) => void,
+        onError: (error: Error) => void
+    ): Promise<void> {
+        try {
+            const model = this.resolveModel(request);
+            const parser = new StreamingResponseParser('anthropic', model, this.id, onChunk);
+
+            await this.runStream(request, parser, {
+                url: `${this.getBaseURL()}/messages`,
+                method: 'POST',
+                headers: {
+                    ...this.getHeaders(),
+                    // fetch() is subject to CORS, unlike requestUrl()
+                    'anthropic-dangerous-direct-browser-access': 'true'
+                },
+                body: { ...this.buildRequestBody(request, model), stream: true }
+            }, onComplete, onError);
+        } catch (error) {
+            onError(error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+
+    /**
+     * Get available models for this API key
+     */
+    async getAvailableModels(): Promise<string[]> {
+        const response = await this.httpRequest({
+            url: `${this.getBaseURL()}/models`,
+            headers: this.getHeaders()
+        });
+
+        const models: Array<{ id: string }> = response.json?.data ?? [];
+        return models.map(m => m.id);
+    }
+
+    protected isContextLengthError(body: any, message: string): boolean {
+        return /prompt is too long/i.test(message) || super.isContextLengthError(body, message);
+    }
+
+    private getBaseURL(): string {
+        const url = this.config.endpoint || DEFAULT_BASE_URL;
+        return url.replace(/\/+$/, '');
+    }
+
+    private getHeaders(): Record<string, string> {
+        return {
+            'x-api-key': this.config.apiKey ?? '',
+            'anthropic-version': this.config.version || DEFAULT_API_VERSION
+        };
+    }
+
+    private buildRequestBody(request: CompletionRequest, model: string): Record<string, any> {
+        const body: Record<string, any> = {
+            model,
+            max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+            messages: this.toAnthropicMessages(request.messages)
+        };
+
+        const system = this.buildSystemPrompt(request);
+        if (system) {
+            body.system = system;
+        }
+
+        if (request.temperature !== undefined) {
+            // Anthropic accepts 0-1, our settings allow up to 2
+            body.temperature = Math.min(request.temperature, 1);
+        }
+
+        if (request.tools && request.tools.length > 0) {
+            body.tools = request.tools.map(tool => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: tool.parameters
+            }));
+        }
+
+        return body;
+    }
+
+    /**
+     * Combine the request system prompt with any inline system messages,
+     * since Anthropic takes the system prompt as a separate top-level field
+     */
+    private buildSystemPrompt(request: CompletionRequest): string {
+        const parts: string[] = [];
+
+        if (request.systemPrompt) {
+            parts.push(request.systemPrompt);
+        }
+
+        for (const message of request.messages) {
+            if (message.role === 'system' && message.content) {
+                parts.push(message.content);
+            }
+        }
+
+        // No native JSON mode, so describe the schema in the system prompt
+        if (request.structuredOutput) {
+            parts.push(buildStructuredOutputInstruction(request.structuredOutput));
+        }
+
+        return parts.join('\n\n');
+    }
+
+    /**
+     * Convert our messages to Anthropic's alternating user/assistant format.
+     * Tool results become tool_result blocks on a user turn, and consecutive
+     * messages with the same role are merged into one turn.
+     */
+    private toAnthropicMessages(messages: Message[]): AnthropicMessage[] {
+        const result: AnthropicMessage[] = [];
+
+        for (const message of messages) {
+            if (message.role === 'system') {
+                continue;
+            }
+
+            const role = message.role === 'assistant' ? 'assistant' : 'user';
+            const blocks = this.toContentBlocks(message);
+
+            if (blocks.length === 0) {
+                continue;
+            }
+
+            const previous = result[result.length - 1];
+            if (previous && previous.role === role) {
+                previous.content.push(...blocks);
+            } else {
+                result.push({ role, content: blocks });
+            }
+        }
+
+        return result;
+    }
+
+    private toContentBlocks(message: Message): AnthropicContentBlock[] {
+        if (message.role === 'tool') {
+            return [{
+                type: 'tool_result',
+                tool_use_id: message.toolCallId ?? '',
+                content: message.content
+            }];
+        }
+
+        const blocks: AnthropicContentBlock[] = [];
+
+        for (const part of getMessageParts(message)) {
+            if (part.type === 'text') {
+                if (part.text) {
+                    blocks.push({ type: 'text', text: part.text });
+                }
+            } else {
+                blocks.push({
+                    type: part.type,
+                    source: { type: 'base64', media_type: part.mediaType, data: part.data }
+                });
+            }
+        }
+
+        if (message.role === 'assistant' && message.toolCalls) {
+            for (const call of message.toolCalls) {
+                blocks.push({
+                    type: 'tool_use',
+                    id: call.id,
+                    name: call.name,
+                    input: call.arguments
+                });
+            }
+        }
+
+        return blocks;
+    }
+
+    private parseResponse(data: any, requestedModel: string): CompletionResponse {
+        const blocks: any[] = data?.content ?? [];
+
+        const content = blocks
+            .filter(block => block.type === 'text')
+            .map(block => block.text)
+            .join('');
+
+        const toolCalls: ToolCall[] = blocks
+            .filter(block => block.type === 'tool_use')
+            .map(block => ({
+                id: block.id,
+                name: block.name,
+                arguments: block.input ?? {}
+            }));
+
+        const promptTokens = data?.usage?.input_tokens ?? 0;
+        const completionTokens = data?.usage?.output_tokens ?? 0;
+
+        return {
+            content,
+            finishReason: mapAnthropicStopReason(data?.stop_reason, toolCalls),
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+            usage: data?.usage ? {
+                promptTokens,
+                completionTokens,
+                totalTokens: promptTokens + completionTokens
+            } : undefined,
+            model: data?.model ?? requestedModel
+        };
+    }
+}
@@ -0,0 +1,498 @@
+/**
+ * Base Provider
+ * Shared HTTP, error mapping and health check logic for LLM providers
+ */
+
+import { App, requestUrl, RequestUrlResponse } from 'obsidian';
+import {
+    CompletionRequest,
+    CompletionResponse,
+    LLMProvider,
+    ProviderError,
+    ProviderErrorCode,
+    ProviderHealth,
+    ProviderInitConfig,
+    ProviderMetadata,
+    ValidationResult,
+} from '../../../types/Provider';
+import { getLogger } from '../../../utils/logger';
+import { StreamingResponseParser } from '../streaming/StreamParser';
+
+const logger = getLogger('BaseProvider');
+
+const DEFAULT_TIMEOUT_MS = 120000;
+
+export interface HttpRequestOptions {
+    url: string;
+    method?: 'GET' | 'POST' | 'DELETE';
+    headers?: Record<string, string>;
+    body?: unknown;
+    signal?: AbortSignal;
+    timeoutMs?: number;
+}
+
+/**
+ * Combines a caller's AbortSignal with a restartable timeout into one signal
+ */
+class RequestDeadline {
+    private controller = new AbortController();
+    private timer?: ReturnType<typeof setTimeout>;
+    timedOut = false;
+
+    constructor(
+        private timeoutMs: number,
+        private external?: AbortSignal
+    ) {
+        if (external?.aborted) {
+            this.controller.abort();
+        } else {
+            external?.addEventListener('abort', this.onExternalAbort);
+        }
+        this.restart();
+    }
+
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    /**
+     * Restart the timer, e.g. after a stream chunk arrives
+     */
+    restart(): void {
+        clearTimeout(this.timer);
+        if (this.timeoutMs > 0 && !this.controller.signal.aborted) {
+            this.timer = setTimeout(() => {
+                this.timedOut = true;
+                this.controller.abort();
+            }, this.timeoutMs);
+        }
+    }
+
+    dispose(): void {
+        clearTimeout(this.timer);
+        this.external?.removeEventListener('abort', this.onExternalAbort);
+    }
+
+    private onExternalAbort = (): void => {
+        this.controller.abort();
+    };
+}
+
+export abstract class BaseProvider implements LLMProvider {
+    abstract readonly type: 'openai' | 'anthropic' | 'local';
+
+    protected app!: App;
+    protected config!: ProviderInitConfig;
+    protected initialized = false;
+
+    constructor(
+        public id: string,
+        public name: string
+    ) {}
+
+    /**
+     * Initialize the provider with API credentials
+     */
+    async initialize(config: ProviderInitConfig): Promise<void> {
+        this.config = config;
+        this.app = config.app;
+        this.initialized = true;
+        logger.debug(`Initialized provider: ${this.name} (${this.id})`);
+    }
+
+    abstract complete(request: CompletionRequest): Promise<CompletionResponse>;
+
+    abstract streamComplete(
+        request: CompletionRequest,
+        onChunk: (chunk: string) => void,
+        onComplete: (response: CompletionResponse) => void,
+        onError: (error: Error) => void
+    ): Promise<void>;
+
+    abstract getAvailableModels(): Promise<string[]>;
+
+    /**
+     * Static capabilities of this provider
+     */
+    abstract getMetadata(): ProviderMetadata;
+
+    /**
+     * Validate API key and connectivity by listing models
+     */
+    async validate(): Promise<ValidationResult> {
+        try {
+            const models = await this.getAvailableModels();
+            return {
+                valid: true,
+                message: `Connected to ${this.name} (${models.length} models available)`
+            };
+        } catch (error) {
+            return {
+                valid: false,
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+    }
+
+    /**
+     * Check if the provider is healthy, measuring round-trip latency
+     */
+    async healthCheck(): Promise<ProviderHealth> {
+        const start = Date.now();
+
+        try {
+            await this.getAvailableModels();
+            return {
+                status: 'healthy',
+                latency: Date.now() - start,
+                lastChecked: Date.now()
+            };
+        } catch (error) {
+            return {
+                status: 'unhealthy',
+                latency: Date.now() - start,
+                lastChecked: Date.now(),
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+    }
+
+    /**
+     * Resolve the model for a request, falling back to the configured default
+     */
+    protected resolveModel(request: CompletionRequest): string {
+        const model = request.model || this.config?.model || this.getMetadata().defaultModels[0];
+
+        if (!model) {
+            throw new ProviderError(
+                'No model specified and no default model configured',
+                this.id,
+                ProviderErrorCode.INVALID_REQUEST
+            );
+        }
+
+        return model;
+    }
+
+    protected ensureInitialized(): void {
+        if (!this.initialized) {
+            throw new ProviderError(
+                `Provider '${this.id}' has not been initialized`,
+                this.id,
+                ProviderErrorCode.INVALID_REQUEST
+            );
+        }
+    }
+
+    /**
+     * Perform an HTTP request via Obsidian's requestUrl, mapping failures onto ProviderError
+     */
+    protected async httpRequest(options: HttpRequestOptions): Promise<RequestUrlResponse> {
+        this.ensureInitialized();
+
+        const deadline = new RequestDeadline(this.getTimeoutMs(options), options.signal);
+        let response: RequestUrlResponse;
+
+        try {
+            // requestUrl() cannot be aborted, so abandon it instead of waiting
+            response = await this.raceDeadline(requestUrl({
+                url: options.url,
+                method: options.method ?? 'GET',
+                contentType: 'application/json',
+                headers: options.headers,
+                body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+                throw: false
+            }), deadline);
+        } catch (error) {
+            if (error instanceof ProviderError) {
+                throw error;
+            }
+            throw new ProviderError(
+                `Network error contacting ${this.name}: ${error instanceof Error ? error.message : String(error)}`,
+                this.id,
+                ProviderErrorCode.NETWORK_ERROR,
+                true
+            );
+        } finally {
+            deadline.dispose();
+        }
+
+        if (response.status >= 400) {
+            throw this.mapHttpError(response.status, this.safeParseBody(response), response.headers);
+        }
+
+        return response;
+    }
+
+    /**
+     * Perform a streaming HTTP request, passing body bytes to onData as they arrive.
+     * requestUrl() buffers the whole response, so streaming uses fetch().
+     * Errors thrown by onData abort the stream and propagate to the caller.
+     * The timeout is an idle timeout: it restarts whenever a chunk arrives.
+     */
+    protected async streamRequest(
+        options: HttpRequestOptions,
+        onData: (chunk: Uint8Array) => void
+    ): Promise<void> {
+        this.ensureInitialized();
+
+        const deadline = new RequestDeadline(this.getTimeoutMs(options), options.signal);
+
+        try {
+            await this.readStream(options, deadline, onData);
+        } finally {
+            deadline.dispose();
+        }
+    }
+
+    private async readStream(
+        options: HttpRequestOptions,
+        deadline: RequestDeadline,
+        onData: (chunk: Uint8Array) => void
+    ): Promise<void> {
+        let response: Response;
+
+        try {
+            response = await fetch(options.url, {
+                method: options.method ?? 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...options.headers
+                },
+                body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+                signal: deadline.signal
+            });
+        } catch (error) {
+            if (deadline.signal.aborted) {
+                throw this.createAbortError(deadline);
+            }
+            throw new ProviderError(
+                `Network error contacting ${this.name}: ${error instanceof Error ? error.message : String(error)}`,
+                this.id,
+                ProviderErrorCode.NETWORK_ERROR,
+                true
+            );
+        }
+
+        if (!response.ok) {
+            const text = await response.text();
+            let body: any = text;
+            try {
+                body = JSON.parse(text);
+            } catch {
+                // Keep the raw text
+            }
+
+            const headers: Record<string, string> = {};
+            response.headers.forEach((value, key) => {
+                headers[key] = value;
+            });
+            throw this.mapHttpError(response.status, body, headers);
+        }
+
+        if (!response.body) {
+            throw new ProviderError(
+                `${this.name} returned an empty stream`,
+                this.id,
+                ProviderErrorCode.UNKNOWN
+            );
+        }
+
+        const reader = response.body.getReader();
+
+        try {
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) {
+                    break;
+                }
+                deadline.restart();
+                onData(value);
+            }
+        } catch (error) {
+            await reader.cancel().catch(() => undefined);
+
+            if (error instanceof ProviderError) {
+                throw error;
+            }
+
+            if (deadline.signal.aborted) {
+                throw this.createAbortError(deadline);
+            }
+
+            throw new ProviderError(
+                `Stream from ${this.name} interrupted: ${error instanceof Error ? error.message : String(error)}`,
+                this.id,
+                ProviderErrorCode.NETWORK_ERROR,
+                true
+            );
+        }
+    }
+
+    /**
+     * Run a streaming request through a parser, reporting the outcome via callbacks.
+     * A cancelled stream completes normally with the partial content and
+     * finishReason 'cancelled' rather than reporting an error. A stream that
+     * ends without its end marker was cut off (e.g. by a proxy) and is
+     * reported as a retryable network error; the text already passed to
+     * the parser's callback stays with the caller.
+     */
+    protected async runStream(
+        request: CompletionRequest,
+        parser: StreamingResponseParser,
+        options: HttpRequestOptions,
+        onComplete: (response: CompletionResponse) => void,
+        onError: (error: Error) => void
+    ): Promise<void> {
+        try {
+            await this.streamRequest(
+                { ...options, signal: request.signal, timeoutMs: request.timeoutMs },
+                data => parser.feed(data)
+            );
+            const response = parser.finish();
+            if (!parser.done) {
+                throw new ProviderError(
+                    `Stream from ${this.name} ended before the response was complete`,
+                    this.id,
+                    ProviderErrorCode.NETWORK_ERROR,
+                    true
+                );
+            }
+            onComplete(response);
+        } catch (error) {
+            if (error instanceof ProviderError && error.code === ProviderErrorCode.CANCELLED) {
+                onComplete({ ...parser.finish(), finishReason: 'cancelled' });
+                return;
+            }
+            onError(error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+
+    private getTimeoutMs(options: HttpRequestOptions): number {
+        return options.timeoutMs ?? this.config?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    }
+
+    private raceDeadline<T>(promise: Promise<T>, deadline: RequestDeadline): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => reject(this.createAbortError(deadline));
+
+            if (deadline.signal.aborted) {
+                onAbort();
+                return;
+            }
+
+            deadline.signal.addEventListener('abort', onAbort);
+            promise
+                .then(resolve, reject)
+                .finally(() => deadline.signal.removeEventListener('abort', onAbort));
+        });
+    }
+
+    private createAbortError(deadline: RequestDeadline): ProviderError {
+        if (deadline.timedOut) {
+            return new ProviderError(
+                `${this.name} did not respond in time`,
+                this.id,
+                ProviderErrorCode.TIMEOUT,
+                true
+            );
+        }
+
+        return new ProviderError(
+            'Request cancelled',
+            this.id,
+            ProviderErrorCode.CANCELLED
+        );
+    }
+
+    /**
+     * Map an HTTP status and error body onto a ProviderError
+     */
+    protected mapHttpError(status: number, body: any, headers: Record<string, string> = {}): ProviderError {
+        const message = this.extractErrorMessage(body) || `HTTP ${status}`;
+        const detail = `${this.name}: ${message}`;
+
+        if (this.isContextLengthError(body, message)) {
+            return new ProviderError(detail, this.id, ProviderErrorCode.CONTEXT_LENGTH_EXCEEDED);
+        }
+
+        switch (status) {
+            case 401:
+            case 403:
+                return new ProviderError(detail, this.id, ProviderErrorCode.INVALID_API_KEY);
+            case 404:
+                return new ProviderError(detail, this.id, ProviderErrorCode.MODEL_NOT_FOUND);
+            case 408:
+            case 504:
+                return new ProviderError(detail, this.id, ProviderErrorCode.TIMEOUT, true);
+            case 429:
+                return new ProviderError(
+                    detail,
+                    this.id,
+                    ProviderErrorCode.RATE_LIMIT,
+                    true,
+                    this.parseRetryAfter(headers)
+                );
+            case 400:
+            case 413:
+            case 422:
+                return new ProviderError(detail, this.id, ProviderErrorCode.INVALID_REQUEST);
+        }
+
+        if (status >= 500) {
+            return new ProviderError(detail, this.id, ProviderErrorCode.NETWORK_ERROR, true);
+        }
+
+        return new ProviderError(detail, this.id, ProviderErrorCode.UNKNOWN);
+    }
+
+    /**
+     * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+     */
+    protected parseRetryAfter(headers: Record<string, string>): number | undefined {
+        const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === 'retry-after');
+        if (!entry) {
+            return undefined;
+        }
+
+        const seconds = Number(entry[1]);
+        if (!isNaN(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+
+        const date = Date.parse(entry[1]);
+        return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+    }
+
+    /**
+     * Pull a human-readable message out of a provider error body
+     */
+    protected extractErrorMessage(body: any): string | undefined {
+        if (!body) {
+            return undefined;
+        }
+
+        if (typeof body === 'string') {
+            return body;
+        }
+
+        if (typeof body.error === 'string') {
+            return body.error;
+        }
+
+        return body.error?.message ?? body.message;
+    }
+
+    protected isContextLengthError(body: any, message: string): boolean {
+        const code = body?.error?.code ?? body?.error?.type;
+        return code === 'context_length_exceeded' || /context length|maximum context|too many tokens/i.test(message);
+    }
+
+    private safeParseBody(response: RequestUrlResponse): any {
+        try {
+            return response.json;
+        } catch {
+            return response.text;
+        }
+    }
+}
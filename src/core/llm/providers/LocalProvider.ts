@@ -0,0 +1,351 @@
+/**
+ * Local Provider
+ * Self-hosted model servers: Ollama's native API or any OpenAI-compatible
+ * /v1/chat/completions endpoint (llama.cpp server, LM Studio, vLLM, ...)
+ */
+
+import {
+    CompletionRequest,
+    CompletionResponse,
+    ImageContentPart,
+    LocalProviderConfig,
+    LocalProviderDialect,
+    Message,
+    ProviderError,
+    ProviderErrorCode,
+    ProviderInitConfig,
+    ProviderMetadata,
+    TextContentPart,
+    ToolCall,
+} from '../../../types/Provider';
+import { getLogger } from '../../../utils/logger';
+import { StreamingResponseParser } from '../streaming/StreamParser';
+import { appendStructuredOutputInstruction } from '../StructuredOutput';
+import { BaseProvider } from './BaseProvider';
+import { buildOpenAIRequestBody, JsonSchemaSupport, parseOpenAIResponse } from './OpenAIFormat';
+
+const logger = getLogger('LocalProvider');
+
+/**
+ * Assumed window for models whose size is neither configured nor reported
+ */
+const DEFAULT_CONTEXT_TOKENS = 8192;
+
+export class LocalProvider extends BaseProvider {
+    readonly type = 'local' as const;
+
+    protected config!: LocalProviderConfig;
+    private dialect?: LocalProviderDialect;
+    private contextWindows: Map<string, number | undefined> = new Map();
+    private jsonSchema = new JsonSchemaSupport(() => this.config.nativeStructuredOutput ?? false);
+
+    async initialize(config: ProviderInitConfig): Promise<void> {
+        if (!config.endpoint) {
+            throw new ProviderError(
+                'Local provider requires an endpoint URL',
+                this.id,
+                ProviderErrorCode.INVALID_REQUEST
+            );
+        }
+
+        await super.initialize(config);
+        this.dialect = this.config.dialect;
+    }
+
+    getMetadata(): ProviderMetadata {
+        return {
+            id: this.id,
+            name: this.name,
+            type: 'local',
+            supportsStreaming: true,
+            supportsTools: true,
+            supportsImages: this.config?.supportsImages ?? false,  // Only vision models (e.g. llava) accept images
+            supportsDocuments: false,
+            defaultModels: [],
+            maxContextTokens: this.config?.maxContextTokens ?? DEFAULT_CONTEXT_TOKENS
+        };
+    }
+
+    /**
+     * The configured window, or the one Ollama reports for the model
+     * (`<architecture>.context_length` from /api/show)
+     */
+    async getContextWindow(model: string): Promise<number | undefined> {
+        if (this.config.maxContextTokens) {
+            return this.config.maxContextTokens;
+        }
+        if (!model || this.contextWindows.has(model)) {
+            return this.contextWindows.get(model);
+        }
+
+        try {
+            if (await this.getDialect() !== 'ollama') {
+                return undefined;
+            }
+            const response = await this.httpRequest({
+                url: `${this.getBaseURL()}/api/show`,
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: { model }
+            });
+            const info: Record<string, unknown> = response.json?.model_info ?? {};
+            const key = Object.keys(info).find(name => name.endsWith('.context_length'));
+            const window = key && typeof info[key] === 'number' ? info[key] as number : undefined;
+            this.contextWindows.set(model, window);
+            return window;
+        } catch (error) {
+            // Not cached: the server may just be starting
+            logger.debug(`Could not read the context window of ${model}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Generate a completion (non-streaming)
+     */
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+        const model = this.resolveModel(request);
+        const dialect = await this.getDialect();
+        logger.debug(`Requesting completion from ${model} (${dialect})`);
+
+        if (dialect === 'ollama') {
+            const response = await this.httpRequest({
+                url: `${this.getBaseURL()}/api/chat`,
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: this.buildOllamaRequestBody(request, model),
+                signal: request.signal,
+                timeoutMs: request.timeoutMs
+            });
+            return this.parseOllamaResponse(response.json, model);
+        }
+
+        const response = await this.jsonSchema.send(request, model, nativeSchema => this.httpRequest({
+            url: `${this.getBaseURL()}/v1/chat/completions`,
+            method: 'POST',
+            headers: this.getHeaders(),
+            body: buildOpenAIRequestBody(request, model, { nativeSchema }),
+            signal: request.signal,
+            timeoutMs: request.timeoutMs
+        }));
+        return parseOpenAIResponse(response.json, model, this.id);
+    }
+
+    /**
+     * Generate a streaming completion (NDJSON for Ollama, SSE otherwise)
+     */
+    async streamComplete(
+        request: CompletionRequest,
+        onChunk: (chunk: string) => void,
+        onComplete: (response: CompletionResponse) => void,
+        onError: (error: Error) => void
+    ): Promise<void> {
+        try {
+            const model = this.resolveModel(request);
+            const dialect = await this.getDialect();
+
+            if (dialect === 'ollama') {
+                await this.runStream(request, new StreamingResponseParser(dialect, model, this.id, onChunk), {
+                    url: `${this.getBaseURL()}/api/chat`,
+                    method: 'POST',
+                    headers: this.getHeaders(),
+                    body: { ...this.buildOllamaRequestBody(request, model), stream: true }
+                }, onComplete, onError);
+                return;
+            }
+
+            await this.jsonSchema.stream(request, model, (nativeSchema, onOutput, onFailure) => this.runStream(
+                request,
+                new StreamingResponseParser(dialect, model, this.id, onOutput),
+                {
+                    url: `${this.getBaseURL()}/v1/chat/completions`,
+                    method: 'POST',
+                    headers: this.getHeaders(),
+                    body: { ...buildOpenAIRequestBody(request, model, { nativeSchema }), stream: true }
+                },
+                onComplete,
+                onFailure
+            ), onChunk, onError);
+        } catch (error) {
+            onError(error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+
+    /**
+     * Discover the models the local server has available
+     */
+    async getAvailableModels(): Promise<string[]> {
+        const dialect = await this.getDialect();
+
+        if (dialect === 'ollama') {
+            const response = await this.httpRequest({
+                url: `${this.getBaseURL()}/api/tags`,
+                headers: this.getHeaders()
+            });
+            const models: Array<{ name: string }> = response.json?.models ?? [];
+            return models.map(m => m.name);
+        }
+
+        const response = await this.httpRequest({
+            url: `${this.getBaseURL()}/v1/models`,
+            headers: this.getHeaders()
+        });
+        const models: Array<{ id: string }> = response.json?.data ?? [];
+        return models.map(m => m.id);
+    }
+
+    /**
+     * llama.cpp serves a single model loaded from modelPath, so use it as the
+     * model identifier when nothing more specific is configured
+     */
+    protected resolveModel(request: CompletionRequest): string {
+        return request.model || this.config.model || this.config.modelPath || 'default';
+    }
+
+    /**
+     * Determine which API dialect the endpoint speaks by probing Ollama's
+     * /api/tags. Only a 404 means an OpenAI-compatible server; any other
+     * failure (auth, proxy, 5xx) is rethrown and the probe retried next time.
+     */
+    private async getDialect(): Promise<LocalProviderDialect> {
+        if (this.dialect) {
+            return this.dialect;
+        }
+
+        try {
+            await this.httpRequest({
+                url: `${this.getBaseURL()}/api/tags`,
+                headers: this.getHeaders()
+            });
+            this.dialect = 'ollama';
+        } catch (error) {
+            // mapHttpError reports a 404 as MODEL_NOT_FOUND
+            if (!(error instanceof ProviderError) || error.code !== ProviderErrorCode.MODEL_NOT_FOUND) {
+                throw error;
+            }
+            this.dialect = 'openai';
+        }
+
+        logger.info(`Detected ${this.dialect} dialect at ${this.getBaseURL()}`);
+        return this.dialect;
+    }
+
+    private getBaseURL(): string {
+        // Accept endpoints entered with or without the /v1 suffix
+        return this.config.endpoint.replace(/\/+$/, '').replace(/\/v1$/, '');
+    }
+
+    private getHeaders(): Record<string, string> {
+        const token = this.config.authToken || this.config.apiKey;
+        return token ? { 'Authorization': `Bearer ${token}` } : {};
+    }
+
+    private buildOllamaRequestBody(request: CompletionRequest, model: string): Record<string, any> {
+        const messages: Array<Record<string, any>> = [];
+
+        // Ollama constrains output via `format`, but still needs the schema
+        // described in the prompt to fill it in sensibly
+        const systemPrompt = request.structuredOutput
+            ? appendStructuredOutputInstruction(request.systemPrompt, request.structuredOutput)
+            : request.systemPrompt;
+
+        if (systemPrompt) {
+            messages.push({ role: 'system', content: systemPrompt });
+        }
+
+        for (const message of request.messages) {
+            messages.push(this.toOllamaMessage(message));
+        }
+
+        const options: Record<string, any> = {};
+        if (request.temperature !== undefined) {
+            options.temperature = request.temperature;
+        }
+        if (request.maxTokens !== undefined) {
+            options.num_predict = request.maxTokens;
+        }
+
+        const body: Record<string, any> = {
+            model,
+            messages,
+            stream: false,
+            options
+        };
+
+        if (request.structuredOutput) {
+            body.format = request.structuredOutput.schema;
+        }
+
+        if (request.tools && request.tools.length > 0) {
+            body.tools = request.tools.map(tool => ({
+                type: 'function',
+                function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters
+                }
+            }));
+        }
+
+        return body;
+    }
+
+    private toOllamaMessage(message: Message): Record<string, any> {
+        const result: Record<string, any> = {
+            role: message.role,
+            content: message.content
+        };
+
+        // Ollama takes images as a separate base64 array alongside the text
+        const images = (message.parts ?? []).filter((part): part is ImageContentPart => part.type === 'image');
+        if (images.length > 0) {
+            result.content = message.parts!
+                .filter((part): part is TextContentPart => part.type === 'text')
+                .map(part => part.text)
+                .join('\n');
+            result.images = images.map(image => image.data);
+        }
+
+        if (message.toolCalls && message.toolCalls.length > 0) {
+            result.tool_calls = message.toolCalls.map(call => ({
+                function: {
+                    name: call.name,
+                    arguments: call.arguments
+                }
+            }));
+        }
+
+        return result;
+    }
+
+    private parseOllamaResponse(data: any, requestedModel: string): CompletionResponse {
+        // Ollama does not assign tool call IDs, so synthesise stable ones
+        const toolCalls: ToolCall[] = (data?.message?.tool_calls ?? []).map((call: any, index: number) => ({
+            id: `call_${index}`,
+            name: call.function?.name,
+            arguments: call.function?.arguments ?? {}
+        }));
+
+        const promptTokens = data?.prompt_eval_count ?? 0;
+        const completionTokens = data?.eval_count ?? 0;
+
+        let finishReason: CompletionResponse['finishReason'] = 'stop';
+        if (toolCalls.length > 0) {
+            finishReason = 'tool_calls';
+        } else if (data?.done_reason === 'length') {
+            finishReason = 'length';
+        }
+
+        return {
+            content: data?.message?.content ?? '',
+            finishReason,
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+            usage: {
+                promptTokens,
+                completionTokens,
+                totalTokens: promptTokens + completionTokens
+            },
+            model: data?.model ?? requestedModel
+        };
+    }
+}
@@ -0,0 +1,309 @@
+/**
+ * OpenAI Chat Completions wire format
+ * Shared by the OpenAI provider and OpenAI-compatible local servers
+ */
+
+import {
+    CompletionRequest,
+    CompletionResponse,
+    ContentPart,
+    Message,
+    ProviderError,
+    ProviderErrorCode,
+    ToolCall,
+} from '../../../types/Provider';
+import { getLogger } from '../../../utils/logger';
+import { hasNonTextParts } from '../ContentParts';
+import { appendStructuredOutputInstruction } from '../StructuredOutput';
+
+const logger = getLogger('OpenAIFormat');
+
+/**
+ * OpenAI models that accept json_schema response_format. Older snapshots
+ * and preview models only support json_object.
+ */
+const JSON_SCHEMA_MODEL_PREFIXES = ['gpt-4o', 'gpt-4.1', 'gpt-5', 'o1', 'o3', 'o4'];
+const NO_JSON_SCHEMA_MODEL_PREFIXES = ['gpt-4o-2024-05-13', 'gpt-4o-audio', 'gpt-4o-realtime', 'o1-mini', 'o1-preview'];
+
+/**
+ * Error details that blame the structured output request itself
+ */
+const RESPONSE_FORMAT_ERROR = /response_format|json_schema/i;
+
+export interface OpenAIRequestOptions {
+    nativeSchema?: boolean;  // Constrain structured output with response_format instead of the prompt
+}
+
+/**
+ * Whether an OpenAI model supports json_schema response_format
+ */
+export function supportsJsonSchema(model: string): boolean {
+    const name = model.toLowerCase();
+    return JSON_SCHEMA_MODEL_PREFIXES.some(prefix => name.startsWith(prefix))
+        && !NO_JSON_SCHEMA_MODEL_PREFIXES.some(prefix => name.startsWith(prefix));
+}
+
+/**
+ * Decides per model whether structured output is sent as json_schema
+ * response_format. A model that rejects it with a 400 is remembered and
+ * gets the schema in the prompt instead, to be repaired by the caller.
+ */
+export class JsonSchemaSupport {
+    private rejected: Set<string> = new Set();
+
+    constructor(private detect: (model: string) => boolean) {}
+
+    /**
+     * json_schema response_format only accepts object roots; other schemas
+     * always go in the prompt
+     */
+    isEnabled(request: CompletionRequest, model: string): boolean {
+        return request.structuredOutput?.schema?.type === 'object'
+            && !this.rejected.has(model)
+            && this.detect(model);
+    }
+
+    /**
+     * Stream a request, retrying once without response_format if it is
+     * rejected before any chunk arrives. Once output has been passed on, a
+     * retry would repeat it, so later errors are reported as they are.
+     */
+    async stream(
+        request: CompletionRequest,
+        model: string,
+        attempt: (nativeSchema: boolean, onChunk: (chunk: string) => void, onError: (error: Error) => void) => Promise<void>,
+        onChunk: (chunk: string) => void,
+        onError: (error: Error) => void
+    ): Promise<void> {
+        const nativeSchema = this.isEnabled(request, model);
+        let emitted = false;
+        let failure: Error | undefined;
+
+        await attempt(nativeSchema, chunk => {
+            emitted = true;
+            onChunk(chunk);
+        }, error => { failure = error; });
+
+        if (failure && !emitted && this.shouldFallBack(failure, nativeSchema, model)) {
+            await attempt(false, onChunk, onError);
+        } else if (failure) {
+            onError(failure);
+        }
+    }
+
+    /**
+     * Whether a failed native-schema request should be retried with the
+     * schema in the prompt; records the rejection when it should. Only
+     * errors about response_format count: a 400 for an oversized body or a
+     * bad image part would fail the same way without it.
+     */
+    private shouldFallBack(error: unknown, nativeSchema: boolean, model: string): boolean {
+        if (!nativeSchema
+            || !(error instanceof ProviderError)
+            || error.code !== ProviderErrorCode.INVALID_REQUEST
+            || !RESPONSE_FORMAT_ERROR.test(error.message)) {
+            return false;
+        }
+        logger.warn(`${model} rejected json_schema response_format, sending the schema in the prompt instead`);
+        this.rejected.add(model);
+        return true;
+    }
+
+    /**
+     * Send a request, retrying once without response_format if it is rejected
+     */
+    async send<T>(request: CompletionRequest, model: string, attempt: (nativeSchema: boolean) => Promise<T>): Promise<T> {
+        const nativeSchema = this.isEnabled(request, model);
+        try {
+            return await attempt(nativeSchema);
+        } catch (error) {
+            if (!this.shouldFallBack(error, nativeSchema, model)) {
+                throw error;
+            }
+            return attempt(false);
+        }
+    }
+}
+
+/**
+ * Build a /chat/completions request body
+ */
+export function buildOpenAIRequestBody(
+    request: CompletionRequest,
+    model: string,
+    options: OpenAIRequestOptions = {}
+): Record<string, any> {
+    const nativeSchema = Boolean(request.structuredOutput && options.nativeSchema);
+    const body: Record<string, any> = {
+        model,
+        messages: toOpenAIMessages(request, nativeSchema)
+    };
+
+    if (request.temperature !== undefined) {
+        body.temperature = request.temperature;
+    }
+
+    if (request.maxTokens !== undefined) {
+        body.max_tokens = request.maxTokens;
+    }
+
+    if (request.tools && request.tools.length > 0) {
+        body.tools = request.tools.map(tool => ({
+            type: 'function',
+            function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters
+            }
+        }));
+    }
+
+    if (request.structuredOutput && nativeSchema) {
+        body.response_format = {
+            type: 'json_schema',
+            json_schema: {
+                name: request.structuredOutput.name,
+                description: request.structuredOutput.description,
+                schema: request.structuredOutput.schema,
+                strict: false
+            }
+        };
+    }
+
+    return body;
+}
+
+function toOpenAIContentPart(part: ContentPart): Record<string, any> {
+    switch (part.type) {
+        case 'text':
+            return { type: 'text', text: part.text };
+        case 'image':
+            return { type: 'image_url', image_url: { url: `data:${part.mediaType};base64,${part.data}` } };
+        case 'document':
+            return {
+                type: 'file',
+                file: {
+                    filename: part.source?.split('/').pop() ?? 'document.pdf',
+                    file_data: `data:${part.mediaType};base64,${part.data}`
+                }
+            };
+    }
+}
+
+function toOpenAIMessages(request: CompletionRequest, nativeSchema: boolean): Array<Record<string, any>> {
+    const messages: Array<Record<string, any>> = [];
+
+    const systemPrompt = request.structuredOutput && !nativeSchema
+        ? appendStructuredOutputInstruction(request.systemPrompt, request.structuredOutput)
+        : request.systemPrompt;
+
+    if (systemPrompt) {
+        messages.push({ role: 'system', content: systemPrompt });
+    }
+
+    for (const message of request.messages) {
+        messages.push(toOpenAIMessage(message));
+    }
+
+    return messages;
+}
+
+function toOpenAIMessage(message: Message): Record<string, any> {
+    // Only user messages may carry image and file parts
+    const result: Record<string, any> = {
+        role: message.role,
+        content: message.role === 'user' && hasNonTextParts(message)
+            ? message.parts!.map(toOpenAIContentPart)
+            : message.content
+    };
+
+    if (message.name && message.role !== 'tool') {
+        result.name = message.name;
+    }
+
+    if (message.role === 'tool') {
+        result.tool_call_id = message.toolCallId;
+    }
+
+    if (message.toolCalls && message.toolCalls.length > 0) {
+        result.tool_calls = message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: {
+                name: call.name,
+                arguments: JSON.stringify(call.arguments)
+            }
+        }));
+    }
+
+    return result;
+}
+
+/**
+ * Parse a /chat/completions response body into a CompletionResponse
+ */
+export function parseOpenAIResponse(data: any, requestedModel: string, providerId: string): CompletionResponse {
+    const choice = data?.choices?.[0];
+
+    if (!choice) {
+        throw new ProviderError(
+            'Provider returned no completion choices',
+            providerId,
+            ProviderErrorCode.UNKNOWN
+        );
+    }
+
+    const toolCalls = parseOpenAIToolCalls(choice.message?.tool_calls);
+
+    return {
+        content: choice.message?.content ?? '',
+        finishReason: mapOpenAIFinishReason(choice.finish_reason, toolCalls),
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage: data.usage ? {
+            promptTokens: data.usage.prompt_tokens ?? 0,
+            completionTokens: data.usage.completion_tokens ?? 0,
+            totalTokens: data.usage.total_tokens ?? 0
+        } : undefined,
+        model: data.model ?? requestedModel
+    };
+}
+
+function parseOpenAIToolCalls(rawCalls: any[] | undefined): ToolCall[] {
+    if (!rawCalls) {
+        return [];
+    }
+
+    return rawCalls.map(call => {
+        let args: Record<string, any> = {};
+        try {
+            args = call.function?.arguments ? JSON.parse(call.function.arguments) : {};
+        } catch {
+            logger.warn(`Could not parse arguments for tool call ${call.function?.name}`);
+        }
+
+        return {
+            id: call.id,
+            name: call.function?.name,
+            arguments: args
+        };
+    });
+}
+
+/**
+ * Map an OpenAI finish_reason onto our finishReason
+ */
+export function mapOpenAIFinishReason(reason: string | undefined, toolCalls: ToolCall[]): CompletionResponse['finishReason'] {
+    switch (reason) {
+        case 'stop':
+            return 'stop';
+        case 'length':
+            return 'length';
+        case 'tool_calls':
+        case 'function_call':
+            return 'tool_calls';
+        case 'content_filter':
+            return 'error';
+        default:
+            return toolCalls.length > 0 ? 'tool_calls' : 'stop';
+    }
+}
@@ -0,0 +1,177 @@
+/**
+ * OpenAI Provider
+ * Chat Completions API integration (also works with OpenAI-compatible gateways via baseURL)
+ */
+
+import {
+    CompletionRequest,
+    CompletionResponse,
+    OpenAIProviderConfig,
+    ProviderError,
+    ProviderErrorCode,
+    ProviderInitConfig,
+    ProviderMetadata,
+} from '../../../types/Provider';
+import { getLogger } from '../../../utils/logger';
+import { StreamingResponseParser } from '../streaming/StreamParser';
+import { BaseProvider } from './BaseProvider';
+import { buildOpenAIRequestBody, JsonSchemaSupport, parseOpenAIResponse, supportsJsonSchema } from './OpenAIFormat';
+
+const logger = getLogger('OpenAIProvider');
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+export class OpenAIProvider extends BaseProvider {
+    readonly type = 'openai' as const;
+
+    protected config!: OpenAIProviderConfig;
+    private jsonSchema = new JsonSchemaSupport(model => this.config.nativeStructuredOutput ?? supportsJsonSchema(model));
+
+    async initialize(config: ProviderInitConfig): Promise<void> {
+        if (!config.apiKey) {
+            throw new ProviderError(
+                'OpenAI API key is required',
+                this.id,
+                ProviderErrorCode.INVALID_API_KEY
+            );
+        }
+
+        await super.initialize(config);
+    }
+
+    getMetadata(): ProviderMetadata {
+        return {
+            id: this.id,
+            name: this.name,
+            type: 'openai',
+            supportsStreaming: true,
+            supportsTools: true,
+            supportsImages: true,
+            supportsDocuments: true,
+            defaultModels: ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo'],
+            maxContextTokens: 128000
+        };
+    }
+
+    /**
+     * Generate a completion (non-streaming)
+     */
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+        const model = this.resolveModel(request);
+        logger.debug(`Requesting completion from ${model}`);
+
+        const response = await this.jsonSchema.send(request, model, nativeSchema => this.httpRequest({
+            url: `${this.getBaseURL()}/chat/completions`,
+            method: 'POST',
+            headers: this.getHeaders(),
+            body: buildOpenAIRequestBody(request, model, { nativeSchema }),
+            signal: request.signal,
+            timeoutMs: request.timeoutMs
+        }));
+
+        return parseOpenAIResponse(response.json, model, this.id);
+    }
+
+    /**
+     * Generate a streaming completion over server-sent events
+     */
+    async streamComplete(
+        request: CompletionRequest,
+        onChunk: (chunk: string) => void,
+        onComplete: (response: CompletionResponse) => void,
+        onError: (error: Error) => void
+    ): Promise<void> {
+        try {
+            const model = this.resolveModel(request);
+            await this.jsonSchema.stream(request, model, (nativeSchema, onOutput, onFailure) => this.runStream(
+                request,
+                new StreamingResponseParser('openai', model, this.id, onOutput),
+                {
+                    url: `${this.getBaseURL()}/chat/completions`,
+                    method: 'POST',
+                    headers: this.getHeaders(),
+                    body: {
+                        ...buildOpenAIRequestBody(request, model, { nativeSchema }),
+                        stream: true,
+                        stream_options: { include_usage: true }
+                    }
+                },
+                onComplete,
+                onFailure
+            ), onChunk, onError);
+        } catch (error) {
+            onError(error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+
+    /**
+     * Get available chat models for this API key
+     */
+    async getAvailableModels(): Promise<string[]> {
+        const response = await this.httpRequest({
+            url: `${this.getBaseURL()}/models`,
+            headers: this.getHeaders()
+        });
+
+        const models: Array<{ id: string }> = response.json?.data ?? [];
+        return models
+            .map(m => m.id)
+            .filter(id => !/embedding|whisper|tts|dall-e|moderation/i.test(id))
+            .sort();
+    }
+
+    /**
+     * Embed a batch of inputs via /embeddings. Vectors are returned in
+     * input order.
+     */
+    async createEmbeddings(
+        input: string[],
+        model: string,
+        options: { dimensions?: number; signal?: AbortSignal; timeoutMs?: number } = {}
+    ): Promise<{ vectors: number[][]; promptTokens: number }> {
+        const body: Record<string, any> = { model, input, encoding_format: 'float' };
+        if (options.dimensions !== undefined) {
+            body.dimensions = options.dimensions;
+        }
+
+        const response = await this.httpRequest({
+            url: `${this.getBaseURL()}/embeddings`,
+            method: 'POST',
+            headers: this.getHeaders(),
+            body,
+            signal: options.signal,
+            timeoutMs: options.timeoutMs
+        });
+
+        const data: Array<{ index: number; embedding: number[] }> = response.json?.data ?? [];
+        if (data.length !== input.length) {
+            throw new ProviderError(
+                `Expected ${input.length} embeddings, received ${data.length}`,
+                this.id,
+                ProviderErrorCode.UNKNOWN
+            );
+        }
+
+        return {
+            vectors: [...data].sort((a, b) => a.index - b.index).map(item => item.embedding),
+            promptTokens: response.json?.usage?.prompt_tokens ?? 0
+        };
+    }
+
+    private getBaseURL(): string {
+        const url = this.config.baseURL || this.config.endpoint || DEFAULT_BASE_URL;
+        return url.replace(/\/+$/, '');
+    }
+
+    private getHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {
+            'Authorization': `Bearer ${this.config.apiKey}`
+        };
+
+        if (this.config.organization) {
+            headers['OpenAI-Organization'] = this.config.organization;
+        }
+
+        return headers;
+    }
+}
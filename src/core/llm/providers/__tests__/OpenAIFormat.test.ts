@@ -0,0 +1,132 @@
+import { CompletionRequest, ProviderError, ProviderErrorCode } from '../../../../types/Provider';
+import { buildOpenAIRequestBody, JsonSchemaSupport, supportsJsonSchema } from '../OpenAIFormat';
+
+const request: CompletionRequest = {
+    systemPrompt: 'Plan queries.',
+    messages: [{ role: 'user', content: 'What did we decide?' }],
+    structuredOutput: {
+        name: 'search_queries',
+        schema: { type: 'object', properties: { query: { type: 'string' } }, required: ['query'] }
+    }
+};
+
+describe('supportsJsonSchema', () => {
+    it.each(['gpt-4o', 'gpt-4o-mini', 'gpt-4o-2024-08-06', 'gpt-4.1-nano', 'o3-mini', 'gpt-5'])('accepts %s', model => {
+        expect(supportsJsonSchema(model)).toBe(true);
+    });
+
+    it.each(['gpt-4o-2024-05-13', 'o1-mini', 'gpt-4-turbo', 'gpt-3.5-turbo', 'llama3.1'])('rejects %s', model => {
+        expect(supportsJsonSchema(model)).toBe(false);
+    });
+});
+
+describe('buildOpenAIRequestBody', () => {
+    it('sends the schema as response_format when native', () => {
+        const body = buildOpenAIRequestBody(request, 'gpt-4o', { nativeSchema: true });
+
+        expect(body.response_format.type).toBe('json_schema');
+        expect(body.messages[0]).toEqual({ role: 'system', content: 'Plan queries.' });
+    });
+
+    it('puts the schema in the prompt otherwise', () => {
+        const body = buildOpenAIRequestBody(request, 'gpt-4-turbo');
+
+        expect(body.response_format).toBeUndefined();
+        expect(body.messages[0].content).toContain('Plan queries.');
+        expect(body.messages[0].content).toContain('"query"');
+    });
+});
+
+describe('JsonSchemaSupport', () => {
+    const rejection = new ProviderError('response_format is not supported', 'local', ProviderErrorCode.INVALID_REQUEST);
+
+    it('only goes native for object schemas on supported models', () => {
+        const support = new JsonSchemaSupport(supportsJsonSchema);
+
+        expect(support.isEnabled(request, 'gpt-4o')).toBe(true);
+        expect(support.isEnabled(request, 'gpt-4-turbo')).toBe(false);
+        expect(support.isEnabled({ ...request, structuredOutput: { name: 'list', schema: { type: 'array' } } }, 'gpt-4o')).toBe(false);
+        expect(support.isEnabled({ ...request, structuredOutput: undefined }, 'gpt-4o')).toBe(false);
+    });
+
+    it('falls back to the prompt on a 400 and remembers the model', async () => {
+        const support = new JsonSchemaSupport(() => true);
+        const attempts: boolean[] = [];
+        const attempt = async (nativeSchema: boolean) => {
+            attempts.push(nativeSchema);
+            if (nativeSchema) {
+                throw rejection;
+            }
+            return 'ok';
+        };
+
+        await expect(support.send(request, 'qwen2.5', attempt)).resolves.toBe('ok');
+        await expect(support.send(request, 'qwen2.5', attempt)).resolves.toBe('ok');
+
+        expect(attempts).toEqual([true, false, false]);
+        expect(support.isEnabled(request, 'qwen2.5')).toBe(false);
+        expect(support.isEnabled(request, 'llama3.1')).toBe(true);
+    });
+
+    it('rethrows other errors without retrying', async () => {
+        const support = new JsonSchemaSupport(() => true);
+        const error = new ProviderError('Too many requests', 'openai', ProviderErrorCode.RATE_LIMIT, true);
+        const attempt = jest.fn(async () => {
+            throw error;
+        });
+
+        await expect(support.send(request, 'gpt-4o', attempt)).rejects.toBe(error);
+        expect(attempt).toHaveBeenCalledTimes(1);
+        expect(support.isEnabled(request, 'gpt-4o')).toBe(true);
+    });
+
+    it('does not fall back on unrelated bad requests', async () => {
+        const support = new JsonSchemaSupport(() => true);
+        const error = new ProviderError("Invalid 'max_tokens': too large", 'openai', ProviderErrorCode.INVALID_REQUEST);
+        const attempt = jest.fn(async () => {
+            throw error;
+        });
+
+        await expect(support.send(request, 'gpt-4o', attempt)).rejects.toBe(error);
+        expect(attempt).toHaveBeenCalledTimes(1);
+        expect(support.isEnabled(request, 'gpt-4o')).toBe(true);
+    });
+
+    it('retries a rejected stream without response_format', async () => {
+        const support = new JsonSchemaSupport(() => true);
+        const attempts: boolean[] = [];
+        const chunks: string[] = [];
+        const onError = jest.fn();
+
+        await support.stream(request, 'qwen2.5', async (nativeSchema, onChunk, onFailure) => {
+            attempts.push(nativeSchema);
+            if (nativeSchema) {
+                onFailure(rejection);
+            } else {
+                onChunk('{}');
+            }
+        }, chunk => chunks.push(chunk), onError);
+
+        expect(attempts).toEqual([true, false]);
+        expect(chunks).toEqual(['{}']);
+        expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('does not retry a stream that already produced output', async () => {
+        const support = new JsonSchemaSupport(() => true);
+        const attempts: boolean[] = [];
+        const chunks: string[] = [];
+        const onError = jest.fn();
+
+        await support.stream(request, 'qwen2.5', async (nativeSchema, onChunk, onFailure) => {
+            attempts.push(nativeSchema);
+            onChunk('{"query":');
+            onFailure(rejection);
+        }, chunk => chunks.push(chunk), onError);
+
+        expect(attempts).toEqual([true]);
+        expect(chunks).toEqual(['{"query":']);
+        expect(onError).toHaveBeenCalledWith(rejection);
+        expect(support.isEnabled(request, 'qwen2.5')).toBe(true);
+    });
+});
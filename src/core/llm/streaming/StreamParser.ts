@@ -0,0 +1,516 @@
+/**
+ * Stream Parser
+ * Incremental parsing of server-sent events and newline-delimited JSON,
+ * plus assembly of streamed deltas into a final CompletionResponse.
+ * Every parser accepts arbitrary chunk boundaries, so recorded byte streams
+ * can be replayed through feed() in any split.
+ */
+
+import {
+    CompletionResponse,
+    ProviderError,
+    ProviderErrorCode,
+    TokenUsage,
+    ToolCall,
+} from '../../../types/Provider';
+import { getLogger } from '../../../utils/logger';
+import { mapAnthropicStopReason } from '../providers/AnthropicFormat';
+import { mapOpenAIFinishReason } from '../providers/OpenAIFormat';
+
+const logger = getLogger('StreamParser');
+
+export type StreamFormat = 'openai' | 'anthropic' | 'ollama';
+
+export interface SSEEvent {
+    event?: string;
+    data: string;
+    id?: string;
+}
+
+/**
+ * Incremental text decoder that splits input into complete lines,
+ * buffering any trailing partial line until the next chunk arrives
+ */
+class LineBuffer {
+    private decoder = new TextDecoder();
+    private buffer = '';
+
+    push(chunk: string | Uint8Array): string[] {
+        this.buffer += typeof chunk === 'string'
+            ? chunk
+            : this.decoder.decode(chunk, { stream: true });
+
+        const lines = this.buffer.split(/\r\n|\r|\n/);
+        this.buffer = lines.pop() ?? '';
+        return lines;
+    }
+
+    flush(): string[] {
+        this.buffer += this.decoder.decode();
+        const rest = this.buffer;
+        this.buffer = '';
+        return rest ? [rest] : [];
+    }
+}
+
+/**
+ * Server-sent events parser (text/event-stream)
+ */
+export class SSEParser {
+    private lines = new LineBuffer();
+    private dataLines: string[] = [];
+    private eventName?: string;
+    private eventId?: string;
+
+    feed(chunk: string | Uint8Array): SSEEvent[] {
+        return this.processLines(this.lines.push(chunk));
+    }
+
+    /**
+     * Dispatch any event left pending when the stream ends without a blank line
+     */
+    flush(): SSEEvent[] {
+        const events = this.processLines(this.lines.flush());
+        const pending = this.dispatch();
+        return pending ? [...events, pending] : events;
+    }
+
+    private processLines(lines: string[]): SSEEvent[] {
+        const events: SSEEvent[] = [];
+
+        for (const line of lines) {
+            if (line === '') {
+                const event = this.dispatch();
+                if (event) {
+                    events.push(event);
+                }
+                continue;
+            }
+
+            // Comment / keep-alive
+            if (line.startsWith(':')) {
+                continue;
+            }
+
+            const colon = line.indexOf(':');
+            const field = colon === -1 ? line : line.slice(0, colon);
+            let value = colon === -1 ? '' : line.slice(colon + 1);
+            if (value.startsWith(' ')) {
+                value = value.slice(1);
+            }
+
+            switch (field) {
+                case 'data':
+                    this.dataLines.push(value);
+                    break;
+                case 'event':
+                    this.eventName = value;
+                    break;
+                case 'id':
+                    this.eventId = value;
+                    break;
+            }
+        }
+
+        return events;
+    }
+
+    private dispatch(): SSEEvent | null {
+        if (this.dataLines.length === 0) {
+            this.eventName = undefined;
+            return null;
+        }
+
+        const event: SSEEvent = {
+            event: this.eventName,
+            data: this.dataLines.join('\n'),
+            id: this.eventId
+        };
+
+        this.dataLines = [];
+        this.eventName = undefined;
+        return event;
+    }
+}
+
+/**
+ * Newline-delimited JSON parser (application/x-ndjson)
+ */
+export class NDJSONParser {
+    private lines = new LineBuffer();
+
+    feed(chunk: string | Uint8Array): any[] {
+        return this.parseLines(this.lines.push(chunk));
+    }
+
+    flush(): any[] {
+        return this.parseLines(this.lines.flush());
+    }
+
+    private parseLines(lines: string[]): any[] {
+        const values: any[] = [];
+
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed) {
+                continue;
+            }
+
+            try {
+                values.push(JSON.parse(trimmed));
+            } catch {
+                logger.warn(`Skipping malformed NDJSON line: ${trimmed.substring(0, 100)}`);
+            }
+        }
+
+        return values;
+    }
+}
+
+interface PartialToolCall {
+    id?: string;
+    name?: string;
+    argumentsJson: string;
+    arguments?: Record<string, any>;
+}
+
+/**
+ * Collects streamed deltas and assembles the final CompletionResponse
+ */
+export class StreamAccumulator {
+    private content = '';
+    private toolCalls: Map<number, PartialToolCall> = new Map();
+    private usage: Partial<TokenUsage> = {};
+    private rawFinishReason?: string;
+
+    constructor(
+        private model: string,
+        private format: StreamFormat
+    ) {}
+
+    appendContent(text: string): void {
+        this.content += text;
+    }
+
+    /**
+     * Merge a tool-call delta. Argument JSON arrives as string fragments
+     * that are only parseable once the stream is complete.
+     */
+    appendToolCallDelta(index: number, delta: { id?: string; name?: string; argumentsDelta?: string }): void {
+        const existing = this.toolCalls.get(index) ?? { argumentsJson: '' };
+
+        if (delta.id) {
+            existing.id = delta.id;
+        }
+        if (delta.name) {
+            existing.name = delta.name;
+        }
+        if (delta.argumentsDelta) {
+            existing.argumentsJson += delta.argumentsDelta;
+        }
+
+        this.toolCalls.set(index, existing);
+    }
+
+    /**
+     * Add a tool call that arrived whole (Ollama sends parsed arguments)
+     */
+    addToolCall(call: { id?: string; name: string; arguments: Record<string, any> }): void {
+        this.toolCalls.set(this.toolCalls.size, {
+            id: call.id,
+            name: call.name,
+            argumentsJson: '',
+            arguments: call.arguments
+        });
+    }
+
+    setUsage(usage: Partial<TokenUsage>): void {
+        this.usage = { ...this.usage, ...usage };
+    }
+
+    setFinishReason(reason: string | undefined): void {
+        if (reason) {
+            this.rawFinishReason = reason;
+        }
+    }
+
+    setModel(model: string | undefined): void {
+        if (model) {
+            this.model = model;
+        }
+    }
+
+    getContent(): string {
+        return this.content;
+    }
+
+    toResponse(): CompletionResponse {
+        const toolCalls = this.buildToolCalls();
+
+        return {
+            content: this.content,
+            finishReason: this.mapFinishReason(toolCalls),
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+            usage: this.buildUsage(),
+            model: this.model
+        };
+    }
+
+    private buildToolCalls(): ToolCall[] {
+        return Array.from(this.toolCalls.entries())
+            .sort(([a], [b]) => a - b)
+            .map(([index, call]) => {
+                let args = call.arguments;
+                if (!args) {
+                    try {
+                        args = call.argumentsJson ? JSON.parse(call.argumentsJson) : {};
+                    } catch {
+                        logger.warn(`Could not parse streamed arguments for tool call ${call.name}`);
+                        args = {};
+                    }
+                }
+
+                return {
+                    id: call.id ?? `call_${index}`,
+                    name: call.name ?? '',
+                    arguments: args ?? {}
+                };
+            });
+    }
+
+    private buildUsage(): TokenUsage | undefined {
+        if (this.usage.promptTokens === undefined && this.usage.completionTokens === undefined) {
+            return undefined;
+        }
+
+        const promptTokens = this.usage.promptTokens ?? 0;
+        const completionTokens = this.usage.completionTokens ?? 0;
+
+        return {
+            promptTokens,
+            completionTokens,
+            totalTokens: this.usage.totalTokens ?? promptTokens + completionTokens
+        };
+    }
+
+    private mapFinishReason(toolCalls: ToolCall[]): CompletionResponse['finishReason'] {
+        switch (this.format) {
+            case 'anthropic':
+                return mapAnthropicStopReason(this.rawFinishReason, toolCalls);
+            case 'ollama':
+                if (toolCalls.length > 0) {
+                    return 'tool_calls';
+                }
+                return this.rawFinishReason === 'length' ? 'length' : 'stop';
+            default:
+                return mapOpenAIFinishReason(this.rawFinishReason, toolCalls);
+        }
+    }
+}
+
+/**
+ * Decodes a provider's streaming wire format, forwarding text deltas as they
+ * arrive and throwing a ProviderError for mid-stream error events
+ */
+export class StreamingResponseParser {
+    private sse = new SSEParser();
+    private ndjson = new NDJSONParser();
+    private accumulator: StreamAccumulator;
+    private finished = false;
+
+    constructor(
+        private format: StreamFormat,
+        model: string,
+        private providerId: string,
+        private onText: (text: string) => void
+    ) {
+        this.accumulator = new StreamAccumulator(model, format);
+    }
+
+    /**
+     * Whether the stream has signalled completion ([DONE], message_stop, done: true)
+     */
+    get done(): boolean {
+        return this.finished;
+    }
+
+    feed(chunk: string | Uint8Array): void {
+        if (this.format === 'ollama') {
+            this.ndjson.feed(chunk).forEach(value => this.handleOllama(value));
+        } else {
+            this.sse.feed(chunk).forEach(event => this.handleEvent(event));
+        }
+    }
+
+    /**
+     * Flush buffered input and return the assembled response
+     */
+    finish(): CompletionResponse {
+        if (this.format === 'ollama') {
+            this.ndjson.flush().forEach(value => this.handleOllama(value));
+        } else {
+            this.sse.flush().forEach(event => this.handleEvent(event));
+        }
+
+        return this.accumulator.toResponse();
+    }
+
+    /**
+     * Text received so far, for preserving partial output on failure
+     */
+    getPartialContent(): string {
+        return this.accumulator.getContent();
+    }
+
+    private handleEvent(event: SSEEvent): void {
+        if (event.data === '[DONE]') {
+            this.finished = true;
+            return;
+        }
+
+        let payload: any;
+        try {
+            payload = JSON.parse(event.data);
+        } catch {
+            logger.warn(`Skipping malformed SSE data: ${event.data.substring(0, 100)}`);
+            return;
+        }
+
+        if (event.event === 'error' || payload?.type === 'error' || (payload?.error && !payload?.choices)) {
+            this.raiseStreamError(payload);
+        }
+
+        if (this.format === 'anthropic') {
+            this.handleAnthropic(payload);
+        } else {
+            this.handleOpenAI(payload);
+        }
+    }
+
+    private handleOpenAI(payload: any): void {
+        this.accumulator.setModel(payload.model);
+
+        if (payload.usage) {
+            this.accumulator.setUsage({
+                promptTokens: payload.usage.prompt_tokens,
+                completionTokens: payload.usage.completion_tokens,
+                totalTokens: payload.usage.total_tokens
+            });
+        }
+
+        const choice = payload.choices?.[0];
+        if (!choice) {
+            return;
+        }
+
+        const delta = choice.delta ?? {};
+
+        if (delta.content) {
+            this.emitText(delta.content);
+        }
+
+        for (const call of delta.tool_calls ?? []) {
+            this.accumulator.appendToolCallDelta(call.index ?? 0, {
+                id: call.id,
+                name: call.function?.name,
+                argumentsDelta: call.function?.arguments
+            });
+        }
+
+        this.accumulator.setFinishReason(choice.finish_reason ?? undefined);
+    }
+
+    private handleAnthropic(payload: any): void {
+        switch (payload.type) {
+            case 'message_start':
+                this.accumulator.setModel(payload.message?.model);
+                this.accumulator.setUsage({
+                    promptTokens: payload.message?.usage?.input_tokens,
+                    completionTokens: payload.message?.usage?.output_tokens
+                });
+                break;
+
+            case 'content_block_start':
+                if (payload.content_block?.type === 'tool_use') {
+                    this.accumulator.appendToolCallDelta(payload.index, {
+                        id: payload.content_block.id,
+                        name: payload.content_block.name
+                    });
+                } else if (payload.content_block?.text) {
+                    this.emitText(payload.content_block.text);
+                }
+                break;
+
+            case 'content_block_delta':
+                if (payload.delta?.type === 'text_delta') {
+                    this.emitText(payload.delta.text);
+                } else if (payload.delta?.type === 'input_json_delta') {
+                    this.accumulator.appendToolCallDelta(payload.index, {
+                        argumentsDelta: payload.delta.partial_json
+                    });
+                }
+                break;
+
+            case 'message_delta':
+                this.accumulator.setFinishReason(payload.delta?.stop_reason);
+                if (payload.usage?.output_tokens !== undefined) {
+                    this.accumulator.setUsage({ completionTokens: payload.usage.output_tokens });
+                }
+                break;
+
+            case 'message_stop':
+                this.finished = true;
+                break;
+        }
+    }
+
+    private handleOllama(payload: any): void {
+        if (payload?.error) {
+            this.raiseStreamError(payload);
+        }
+
+        this.accumulator.setModel(payload.model);
+
+        const message = payload.message ?? {};
+        if (message.content) {
+            this.emitText(message.content);
+        }
+
+        for (const call of message.tool_calls ?? []) {
+            this.accumulator.addToolCall({
+                name: call.function?.name,
+                arguments: call.function?.arguments ?? {}
+            });
+        }
+
+        if (payload.done) {
+            this.finished = true;
+            this.accumulator.setFinishReason(payload.done_reason);
+            this.accumulator.setUsage({
+                promptTokens: payload.prompt_eval_count,
+                completionTokens: payload.eval_count
+            });
+        }
+    }
+
+    private emitText(text: string): void {
+        this.accumulator.appendContent(text);
+        this.onText(text);
+    }
+
+    private raiseStreamError(payload: any): never {
+        const error = payload?.error;
+        const message = typeof error === 'string' ? error : error?.message ?? 'Unknown stream error';
+        const type = typeof error === 'object' ? error?.type ?? error?.code : undefined;
+
+        if (type === 'rate_limit_error' || type === 'rate_limit_exceeded') {
+            throw new ProviderError(message, this.providerId, ProviderErrorCode.RATE_LIMIT, true);
+        }
+
+        if (type === 'overloaded_error' || type === 'server_error' || type === 'api_error') {
+            throw new ProviderError(message, this.providerId, ProviderErrorCode.NETWORK_ERROR, true);
+        }
+
+        throw new ProviderError(message, this.providerId, ProviderErrorCode.UNKNOWN);
+    }
+}
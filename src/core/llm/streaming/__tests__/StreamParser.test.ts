@@ -0,0 +1,206 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { App } from 'obsidian';
+import { CompletionResponse, LocalProviderConfig, ProviderError, ProviderErrorCode } from '../../../../types/Provider';
+import { AnthropicProvider } from '../../providers/AnthropicProvider';
+import { BaseProvider } from '../../providers/BaseProvider';
+import { LocalProvider } from '../../providers/LocalProvider';
+import { OpenAIProvider } from '../../providers/OpenAIProvider';
+import { StreamFormat, StreamingResponseParser } from '../StreamParser';
+
+/**
+ * Chunk sizes to replay each fixture with, in bytes. Small sizes split SSE
+ * frames, JSON payloads and multi-byte characters across chunks.
+ */
+const CHUNK_SIZES = [1, 3, 7, 64, Infinity];
+
+interface ParseResult {
+    texts: string[];
+    response: CompletionResponse;
+    done: boolean;
+}
+
+function loadFixture(name: string): Uint8Array {
+    return new Uint8Array(readFileSync(join(__dirname, 'fixtures', name)));
+}
+
+/**
+ * A fixture cut off just before its end marker, as a dropped proxy
+ * connection would leave it
+ */
+function truncateBefore(name: string, marker: string): string {
+    const text = readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+    return text.slice(0, text.indexOf(marker));
+}
+
+function split(bytes: Uint8Array, size: number): Uint8Array[] {
+    const chunks: Uint8Array[] = [];
+    for (let i = 0; i < bytes.length; i += Math.min(size, bytes.length)) {
+        chunks.push(bytes.subarray(i, i + size));
+    }
+    return chunks;
+}
+
+function parse(format: StreamFormat, fixture: string, chunkSize = Infinity): ParseResult {
+    const texts: string[] = [];
+    const parser = new StreamingResponseParser(format, 'requested-model', 'test', text => texts.push(text));
+    split(loadFixture(fixture), chunkSize).forEach(chunk => parser.feed(chunk));
+    const response = parser.finish();
+    return { texts, response, done: parser.done };
+}
+
+function parseError(format: StreamFormat, fixture: string, chunkSize = Infinity): { error: ProviderError; partial: string } {
+    const parser = new StreamingResponseParser(format, 'requested-model', 'test', () => undefined);
+    try {
+        split(loadFixture(fixture), chunkSize).forEach(chunk => parser.feed(chunk));
+        parser.finish();
+    } catch (error) {
+        expect(error).toBeInstanceOf(ProviderError);
+        return { error: error as ProviderError, partial: parser.getPartialContent() };
+    }
+    throw new Error(`${fixture} did not raise a stream error`);
+}
+
+describe('StreamingResponseParser', () => {
+    describe('OpenAI', () => {
+        it('assembles text, usage and finish reason up to [DONE]', () => {
+            const { texts, response, done } = parse('openai', 'openai-text.sse');
+
+            expect(done).toBe(true);
+            expect(texts).toEqual(['Hello', ', café ☕']);
+            expect(response).toEqual({
+                content: 'Hello, café ☕',
+                finishReason: 'stop',
+                toolCalls: undefined,
+                usage: { promptTokens: 12, completionTokens: 5, totalTokens: 17 },
+                model: 'gpt-4o-mini'
+            });
+        });
+
+        it.each(CHUNK_SIZES)('gives the same result with frames split every %p bytes', size => {
+            const whole = parse('openai', 'openai-text.sse');
+            const { texts, response, done } = parse('openai', 'openai-text.sse', size);
+
+            expect(done).toBe(true);
+            expect(texts.join('')).toBe(whole.response.content);
+            expect(response).toEqual(whole.response);
+        });
+
+        it.each(CHUNK_SIZES)('joins tool-call argument deltas split every %p bytes', size => {
+            const { texts, response } = parse('openai', 'openai-tool-calls.sse', size);
+
+            expect(texts).toEqual([]);
+            expect(response.finishReason).toBe('tool_calls');
+            expect(response.toolCalls).toEqual([
+                { id: 'call_abc', name: 'search_notes', arguments: { query: 'weekly review' } },
+                { id: 'call_def', name: 'read_note', arguments: { path: 'Daily/2024-01-01.md' } }
+            ]);
+        });
+
+        it.each(CHUNK_SIZES)('raises mid-stream error events split every %p bytes', size => {
+            const { error, partial } = parseError('openai', 'openai-error.sse', size);
+
+            expect(error.code).toBe(ProviderErrorCode.NETWORK_ERROR);
+            expect(error.retryable).toBe(true);
+            expect(error.message).toBe('The server had an error while processing your request.');
+            expect(partial).toBe('Partial');
+        });
+    });
+
+    describe('Anthropic', () => {
+        it.each(CHUNK_SIZES)('assembles text and tool-use input deltas split every %p bytes', size => {
+            const { texts, response, done } = parse('anthropic', 'anthropic-tool-use.sse', size);
+
+            expect(done).toBe(true);
+            expect(texts.join('')).toBe('Let me search your notes.');
+            expect(response).toEqual({
+                content: 'Let me search your notes.',
+                finishReason: 'tool_calls',
+                toolCalls: [{ id: 'toolu_01', name: 'search_notes', arguments: { query: 'weekly review' } }],
+                usage: { promptTokens: 25, completionTokens: 40, totalTokens: 65 },
+                model: 'claude-3-5-sonnet-20241022'
+            });
+        });
+
+        it.each(CHUNK_SIZES)('raises error events split every %p bytes', size => {
+            const { error, partial } = parseError('anthropic', 'anthropic-error.sse', size);
+
+            expect(error.code).toBe(ProviderErrorCode.NETWORK_ERROR);
+            expect(error.retryable).toBe(true);
+            expect(error.message).toBe('Overloaded');
+            expect(partial).toBe('Partial');
+        });
+    });
+
+    describe('Ollama', () => {
+        it.each(CHUNK_SIZES)('assembles text and tool calls split every %p bytes', size => {
+            const { texts, response, done } = parse('ollama', 'ollama-tool-calls.ndjson', size);
+
+            // The final line has no trailing newline and is only parsed on finish()
+            expect(done).toBe(true);
+            expect(texts.join('')).toBe('Checking your notes.');
+            expect(response).toEqual({
+                content: 'Checking your notes.',
+                finishReason: 'tool_calls',
+                toolCalls: [
+                    { id: 'call_0', name: 'search_notes', arguments: { query: 'weekly review' } },
+                    { id: 'call_1', name: 'read_note', arguments: { path: 'Daily/2024-01-01.md' } }
+                ],
+                usage: { promptTokens: 30, completionTokens: 12, totalTokens: 42 },
+                model: 'llama3.1'
+            });
+        });
+
+        it.each(CHUNK_SIZES)('raises error lines split every %p bytes', size => {
+            const { error, partial } = parseError('ollama', 'ollama-error.ndjson', size);
+
+            expect(error.code).toBe(ProviderErrorCode.UNKNOWN);
+            expect(error.retryable).toBe(false);
+            expect(error.message).toBe('an error was encountered while running the model');
+            expect(partial).toBe('Partial');
+        });
+    });
+});
+
+describe('Truncated streams', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    async function streamBody(provider: BaseProvider, body: string): Promise<{ chunks: string[]; error?: Error; completed: boolean }> {
+        jest.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(body));
+        const outcome: { chunks: string[]; error?: Error; completed: boolean } = { chunks: [], completed: false };
+        await provider.streamComplete(
+            { messages: [{ role: 'user', content: 'Hello' }], model: 'test-model' },
+            chunk => outcome.chunks.push(chunk),
+            () => { outcome.completed = true; },
+            error => { outcome.error = error; }
+        );
+        return outcome;
+    }
+
+    async function create<T extends BaseProvider>(provider: T, config: Partial<LocalProviderConfig> = {}): Promise<T> {
+        await provider.initialize({ app: new App(), apiKey: 'test-key', endpoint: 'http://localhost:11434', ...config });
+        return provider;
+    }
+
+    it.each([
+        ['OpenAI', () => create(new OpenAIProvider('openai', 'OpenAI')), 'openai-text.sse', 'data: [DONE]', 'Hello, café ☕'],
+        ['Anthropic', () => create(new AnthropicProvider('anthropic', 'Anthropic')), 'anthropic-tool-use.sse', 'event: message_stop', 'Let me search your notes.'],
+        ['Ollama', () => create(new LocalProvider('local', 'Ollama'), { dialect: 'ollama' }), 'ollama-tool-calls.ndjson', '{"model":"llama3.1","created_at":"2024-07-25T10:00:03Z"', 'Checking your notes.']
+    ])('reports %s streams cut off before their end marker as retryable network errors', async (_name, provider, fixture, marker, text) => {
+        const { chunks, error, completed } = await streamBody(await provider(), truncateBefore(fixture, marker));
+
+        expect(completed).toBe(false);
+        expect(chunks.join('')).toBe(text);
+        expect(error).toBeInstanceOf(ProviderError);
+        expect((error as ProviderError).code).toBe(ProviderErrorCode.NETWORK_ERROR);
+        expect((error as ProviderError).retryable).toBe(true);
+    });
+
+    it('completes a stream that reaches its end marker', async () => {
+        const provider = await create(new OpenAIProvider('openai', 'OpenAI'));
+        const { error, completed } = await streamBody(provider, readFileSync(join(__dirname, 'fixtures', 'openai-text.sse'), 'utf8'));
+
+        expect(error).toBeUndefined();
+        expect(completed).toBe(true);
+    });
+});
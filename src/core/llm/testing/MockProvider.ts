@@ -0,0 +1,295 @@
+/**
+ * Mock Provider
+ * Scriptable, deterministic LLMProvider for exercising agent, orchestration
+ * and compression flows without network access
+ */
+
+import {
+    CompletionRequest,
+    CompletionResponse,
+    LLMProvider,
+    ProviderError,
+    ProviderErrorCode,
+    ProviderHealth,
+    ProviderInitConfig,
+    ProviderMetadata,
+    TokenUsage,
+    ToolCall,
+    ValidationResult,
+} from '../../../types/Provider';
+
+/**
+ * Error to raise instead of (or part-way through) a response
+ */
+export interface MockError {
+    code: ProviderErrorCode;
+    message?: string;
+    retryable?: boolean;
+    retryAfterMs?: number;
+}
+
+/**
+ * One scripted reply. Streaming delivers `chunks` (or `content` split on
+ * word boundaries) before completing; if `error` is set it is raised after
+ * the chunks instead of completing.
+ */
+export interface MockResponse {
+    content?: string;
+    chunks?: string[];
+    toolCalls?: ToolCall[];
+    finishReason?: CompletionResponse['finishReason'];
+    usage?: TokenUsage;
+    model?: string;
+    error?: MockError;
+    delayMs?: number;  // Applied before the reply and between streamed chunks
+}
+
+/**
+ * Computes a reply from the request; used once the script queue is empty
+ */
+export type MockResponder = (request: CompletionRequest, callIndex: number) => MockResponse;
+
+export interface MockProviderOptions {
+    model?: string;
+    models?: string[];
+    maxContextTokens?: number;
+    supportsTools?: boolean;
+    supportsImages?: boolean;
+    supportsDocuments?: boolean;
+    responses?: MockResponse[];
+    responder?: MockResponder;
+}
+
+export class MockProvider implements LLMProvider {
+    readonly type = 'mock' as const;
+
+    /**
+     * Every request received, in order, for assertions
+     */
+    readonly calls: CompletionRequest[] = [];
+
+    private script: MockResponse[];
+    private responder?: MockResponder;
+    private initialized = false;
+
+    constructor(
+        public id: string = 'mock',
+        public name: string = 'Mock Provider',
+        private options: MockProviderOptions = {}
+    ) {
+        this.script = [...(options.responses ?? [])];
+        this.responder = options.responder;
+    }
+
+    async initialize(config: ProviderInitConfig): Promise<void> {
+        this.options.model = this.options.model ?? config.model;
+        this.initialized = true;
+    }
+
+    async validate(): Promise<ValidationResult> {
+        return { valid: true, message: 'Mock provider is always valid' };
+    }
+
+    getMetadata(): ProviderMetadata {
+        return {
+            id: this.id,
+            name: this.name,
+            type: 'mock',
+            supportsStreaming: true,
+            supportsTools: this.options.supportsTools ?? true,
+            supportsImages: this.options.supportsImages ?? true,
+            supportsDocuments: this.options.supportsDocuments ?? true,
+            defaultModels: this.options.models ?? [this.getDefaultModel()],
+            maxContextTokens: this.options.maxContextTokens ?? 128000
+        };
+    }
+
+    /**
+     * Queue replies to be returned in order
+     */
+    enqueue(...responses: MockResponse[]): this {
+        this.script.push(...responses);
+        return this;
+    }
+
+    /**
+     * Queue a reply that fails with the given error code
+     */
+    enqueueError(code: ProviderErrorCode, message?: string, retryable?: boolean): this {
+        return this.enqueue({ error: { code, message, retryable } });
+    }
+
+    setResponder(responder: MockResponder | undefined): this {
+        this.responder = responder;
+        return this;
+    }
+
+    /**
+     * Number of scripted replies not yet consumed
+     */
+    get pending(): number {
+        return this.script.length;
+    }
+
+    reset(): void {
+        this.script = [];
+        this.calls.length = 0;
+    }
+
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+        const reply = this.nextReply(request);
+
+        await this.wait(reply.delayMs, request.signal);
+
+        if (reply.error) {
+            throw this.toProviderError(reply.error);
+        }
+
+        return this.buildResponse(request, reply, reply.content ?? reply.chunks?.join('') ?? '');
+    }
+
+    async streamComplete(
+        request: CompletionRequest,
+        onChunk: (chunk: string) => void,
+        onComplete: (response: CompletionResponse) => void,
+        onError: (error: Error) => void
+    ): Promise<void> {
+        let delivered = '';
+
+        try {
+            const reply = this.nextReply(request);
+            const chunks = reply.chunks ?? this.splitContent(reply.content ?? '');
+
+            await this.wait(reply.delayMs, request.signal);
+
+            for (const chunk of chunks) {
+                delivered += chunk;
+                onChunk(chunk);
+                await this.wait(reply.delayMs, request.signal);
+            }
+
+            if (reply.error) {
+                throw this.toProviderError(reply.error);
+            }
+
+            onComplete(this.buildResponse(request, reply, delivered));
+        } catch (error) {
+            // Match real providers: a cancelled stream completes with its partial content
+            if (error instanceof ProviderError && error.code === ProviderErrorCode.CANCELLED) {
+                onComplete({
+                    content: delivered,
+                    finishReason: 'cancelled',
+                    model: request.model ?? this.getDefaultModel()
+                });
+                return;
+            }
+            onError(error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+
+    async getAvailableModels(): Promise<string[]> {
+        return this.options.models ?? [this.getDefaultModel()];
+    }
+
+    async healthCheck(): Promise<ProviderHealth> {
+        return {
+            status: this.initialized ? 'healthy' : 'unknown',
+            latency: 0,
+            lastChecked: Date.now()
+        };
+    }
+
+    private nextReply(request: CompletionRequest): MockResponse {
+        if (request.signal?.aborted) {
+            throw new ProviderError('Request cancelled', this.id, ProviderErrorCode.CANCELLED);
+        }
+
+        const callIndex = this.calls.length;
+        this.calls.push(request);
+
+        const scripted = this.script.shift();
+        if (scripted) {
+            return scripted;
+        }
+
+        if (this.responder) {
+            return this.responder(request, callIndex);
+        }
+
+        throw new ProviderError(
+            `Mock provider '${this.id}' has no scripted reply for call ${callIndex + 1}`,
+            this.id,
+            ProviderErrorCode.INVALID_REQUEST
+        );
+    }
+
+    private buildResponse(request: CompletionRequest, reply: MockResponse, content: string): CompletionResponse {
+        const toolCalls = reply.toolCalls && reply.toolCalls.length > 0 ? reply.toolCalls : undefined;
+
+        return {
+            content,
+            finishReason: reply.finishReason ?? (toolCalls ? 'tool_calls' : 'stop'),
+            toolCalls,
+            usage: reply.usage ?? this.estimateUsage(request, content),
+            model: reply.model ?? request.model ?? this.getDefaultModel()
+        };
+    }
+
+    /**
+     * Deterministic ~4 characters per token estimate
+     */
+    private estimateUsage(request: CompletionRequest, content: string): TokenUsage {
+        const promptChars = (request.systemPrompt?.length ?? 0) +
+            request.messages.reduce((sum, m) => sum + m.content.length, 0);
+        const promptTokens = Math.ceil(promptChars / 4);
+        const completionTokens = Math.ceil(content.length / 4);
+
+        return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+    }
+
+    /**
+     * Split on word boundaries, keeping whitespace attached to the preceding word
+     */
+    private splitContent(content: string): string[] {
+        return content.match(/\S+\s*|\s+/g) ?? [];
+    }
+
+    private toProviderError(error: MockError): ProviderError {
+        return new ProviderError(
+            error.message ?? `Mock ${error.code} error`,
+            this.id,
+            error.code,
+            error.retryable ?? [
+                ProviderErrorCode.RATE_LIMIT,
+                ProviderErrorCode.NETWORK_ERROR,
+                ProviderErrorCode.TIMEOUT
+            ].includes(error.code),
+            error.retryAfterMs
+        );
+    }
+
+    private wait(delayMs: number | undefined, signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) {
+            return Promise.reject(new ProviderError('Request cancelled', this.id, ProviderErrorCode.CANCELLED));
+        }
+        if (!delayMs) {
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new ProviderError('Request cancelled', this.id, ProviderErrorCode.CANCELLED));
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, delayMs);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    private getDefaultModel(): string {
+        return this.options.model ?? 'mock-model';
+    }
+}
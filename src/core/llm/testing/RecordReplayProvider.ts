@@ -0,0 +1,382 @@
+/**
+ * Record/Replay Provider
+ * Wraps a real provider to capture request/response pairs into a fixture
+ * file, and replays those fixtures offline without network access
+ */
+
+import {
+    CompletionRequest,
+    CompletionResponse,
+    LLMProvider,
+    ProviderError,
+    ProviderErrorCode,
+    ProviderHealth,
+    ProviderInitConfig,
+    ProviderMetadata,
+    ProviderType,
+    ValidationResult,
+} from '../../../types/Provider';
+import { getLogger } from '../../../utils/logger';
+
+const logger = getLogger('RecordReplayProvider');
+
+const FIXTURE_VERSION = 1;
+
+export type RecordReplayMode = 'record' | 'replay';
+
+/**
+ * Minimal file access needed for fixtures. Obsidian's DataAdapter satisfies
+ * this directly; under Node, wrap fs/promises.
+ */
+export interface FixtureFileSystem {
+    exists(path: string): Promise<boolean>;
+    read(path: string): Promise<string>;
+    write(path: string, data: string): Promise<void>;
+}
+
+/**
+ * The parts of a request that determine the response. Transport concerns
+ * (signal, timeout, priority, attribution) are left out.
+ */
+export interface RecordedRequest {
+    model?: string;
+    systemPrompt?: string;
+    messages: CompletionRequest['messages'];
+    temperature?: number;
+    maxTokens?: number;
+    tools?: CompletionRequest['tools'];
+    structuredOutput?: CompletionRequest['structuredOutput'];
+}
+
+export interface FixtureEntry {
+    key: string;
+    request: RecordedRequest;
+    response?: CompletionResponse;
+    chunks?: string[];  // Present when recorded from a streaming call
+    error?: {
+        message: string;
+        code: ProviderErrorCode;
+        retryable: boolean;
+        retryAfterMs?: number;
+    };
+}
+
+interface FixtureFile {
+    version: number;
+    providerId: string;
+    metadata?: ProviderMetadata;
+    entries: FixtureEntry[];
+}
+
+export interface RecordReplayOptions {
+    mode: RecordReplayMode;
+    fixturePath: string;
+    fs: FixtureFileSystem;
+    inner?: LLMProvider;  // Required when recording
+    id?: string;          // Provider ID to report when replaying; defaults to 'replay'
+}
+
+export class RecordReplayProvider implements LLMProvider {
+    readonly type: ProviderType;
+    readonly id: string;
+    readonly name: string;
+
+    private entries: FixtureEntry[] = [];
+    private metadata?: ProviderMetadata;
+    private replayCursor: Map<string, number> = new Map();
+    private loaded = false;
+
+    constructor(private options: RecordReplayOptions) {
+        if (options.mode === 'record' && !options.inner) {
+            throw new ProviderError(
+                'Record mode requires an inner provider',
+                'record-replay',
+                ProviderErrorCode.INVALID_REQUEST
+            );
+        }
+
+        this.id = options.inner?.id ?? options.id ?? 'replay';
+        this.name = options.inner ? `${options.inner.name} (${options.mode})` : 'Replay Provider';
+        this.type = options.mode === 'record' ? options.inner!.type : 'mock';
+    }
+
+    async initialize(config: ProviderInitConfig): Promise<void> {
+        if (this.options.mode === 'record') {
+            await this.options.inner!.initialize(config);
+            this.metadata = this.options.inner!.getMetadata();
+            // Start a fresh recording rather than appending to a stale fixture
+            this.entries = [];
+            this.loaded = true;
+            return;
+        }
+
+        await this.load();
+    }
+
+    async validate(): Promise<ValidationResult> {
+        if (this.options.mode === 'record') {
+            return this.options.inner!.validate();
+        }
+
+        await this.load();
+        return { valid: true, message: `Replaying ${this.entries.length} recorded responses` };
+    }
+
+    getMetadata(): ProviderMetadata {
+        if (this.options.mode === 'record') {
+            return this.options.inner!.getMetadata();
+        }
+
+        return {
+            ...(this.metadata ?? {
+                supportsStreaming: true,
+                supportsTools: true,
+                supportsImages: true,
+                supportsDocuments: true,
+                defaultModels: [],
+                maxContextTokens: 128000
+            }),
+            id: this.id,
+            name: this.name,
+            type: 'mock'
+        };
+    }
+
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+        if (this.options.mode === 'replay') {
+            const entry = await this.findEntry(request);
+            if (entry.error) {
+                throw this.toProviderError(entry);
+            }
+            return this.requireResponse(entry);
+        }
+
+        const recorded = this.toRecordedRequest(request);
+        try {
+            const response = await this.options.inner!.complete(request);
+            await this.append({ key: this.keyFor(recorded), request: recorded, response });
+            return response;
+        } catch (error) {
+            await this.recordError(recorded, error);
+            throw error;
+        }
+    }
+
+    async streamComplete(
+        request: CompletionRequest,
+        onChunk: (chunk: string) => void,
+        onComplete: (response: CompletionResponse) => void,
+        onError: (error: Error) => void
+    ): Promise<void> {
+        if (this.options.mode === 'replay') {
+            try {
+                const entry = await this.findEntry(request);
+                const chunks = entry.chunks ?? (entry.response?.content ? [entry.response.content] : []);
+                let delivered = '';
+
+                for (const chunk of chunks) {
+                    if (request.signal?.aborted) {
+                        onComplete({
+                            content: delivered,
+                            finishReason: 'cancelled',
+                            model: entry.response?.model ?? request.model ?? ''
+                        });
+                        return;
+                    }
+                    delivered += chunk;
+                    onChunk(chunk);
+                }
+
+                if (entry.error) {
+                    onError(this.toProviderError(entry));
+                    return;
+                }
+                onComplete(this.requireResponse(entry));
+            } catch (error) {
+                onError(error instanceof Error ? error : new Error(String(error)));
+            }
+            return;
+        }
+
+        const recorded = this.toRecordedRequest(request);
+        const chunks: string[] = [];
+
+        await this.options.inner!.streamComplete(
+            request,
+            chunk => {
+                chunks.push(chunk);
+                onChunk(chunk);
+            },
+            response => {
+                // A cancelled stream is partial, so replaying it would be misleading
+                if (response.finishReason !== 'cancelled') {
+                    this.append({ key: this.keyFor(recorded), request: recorded, response, chunks })
+                        .catch(error => logger.error('Failed to write fixture:', error));
+                }
+                onComplete(response);
+            },
+            error => {
+                this.recordError(recorded, error, chunks)
+                    .catch(writeError => logger.error('Failed to write fixture:', writeError));
+                onError(error);
+            }
+        );
+    }
+
+    async getAvailableModels(): Promise<string[]> {
+        if (this.options.mode === 'record') {
+            return this.options.inner!.getAvailableModels();
+        }
+        return this.getMetadata().defaultModels;
+    }
+
+    async healthCheck(): Promise<ProviderHealth> {
+        if (this.options.mode === 'record') {
+            return this.options.inner!.healthCheck();
+        }
+        return { status: 'healthy', latency: 0, lastChecked: Date.now() };
+    }
+
+    /**
+     * Recorded entries, in call order
+     */
+    getEntries(): FixtureEntry[] {
+        return [...this.entries];
+    }
+
+    /**
+     * Stable key for a request: identical requests replay their recordings in
+     * the order they were captured
+     */
+    keyFor(request: RecordedRequest): string {
+        const json = stableStringify(request);
+
+        // FNV-1a, enough to tell requests apart within one fixture
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < json.length; i++) {
+            hash ^= json.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return (hash >>> 0).toString(16).padStart(8, '0');
+    }
+
+    private async load(): Promise<void> {
+        if (this.loaded) {
+            return;
+        }
+
+        const { fs, fixturePath } = this.options;
+        if (!await fs.exists(fixturePath)) {
+            throw new ProviderError(
+                `Fixture not found: ${fixturePath}. Run once in record mode to create it.`,
+                this.id,
+                ProviderErrorCode.INVALID_REQUEST
+            );
+        }
+
+        const data = JSON.parse(await fs.read(fixturePath)) as FixtureFile;
+        this.entries = data.entries ?? [];
+        this.metadata = data.metadata;
+        this.loaded = true;
+        logger.debug(`Loaded ${this.entries.length} fixture entries from ${fixturePath}`);
+    }
+
+    private async findEntry(request: CompletionRequest): Promise<FixtureEntry> {
+        await this.load();
+
+        const key = this.keyFor(this.toRecordedRequest(request));
+        const matches = this.entries.filter(e => e.key === key);
+        const cursor = this.replayCursor.get(key) ?? 0;
+
+        if (matches.length === 0) {
+            throw new ProviderError(
+                `No recorded response for request ${key} in ${this.options.fixturePath}`,
+                this.id,
+                ProviderErrorCode.INVALID_REQUEST
+            );
+        }
+
+        // Repeat the last recording once the sequence is exhausted
+        this.replayCursor.set(key, cursor + 1);
+        return matches[Math.min(cursor, matches.length - 1)];
+    }
+
+    private requireResponse(entry: FixtureEntry): CompletionResponse {
+        if (!entry.response) {
+            throw new ProviderError(
+                `Fixture entry ${entry.key} has no response`,
+                this.id,
+                ProviderErrorCode.INVALID_REQUEST
+            );
+        }
+        return entry.response;
+    }
+
+    private async recordError(request: RecordedRequest, error: unknown, chunks?: string[]): Promise<void> {
+        // Cancellations depend on timing, not on the request, so never record them
+        if (!(error instanceof ProviderError) || error.code === ProviderErrorCode.CANCELLED) {
+            return;
+        }
+
+        await this.append({
+            key: this.keyFor(request),
+            request,
+            chunks: chunks && chunks.length > 0 ? chunks : undefined,
+            error: {
+                message: error.message,
+                code: error.code,
+                retryable: error.retryable,
+                retryAfterMs: error.retryAfterMs
+            }
+        });
+    }
+
+    private async append(entry: FixtureEntry): Promise<void> {
+        this.entries.push(entry);
+
+        const data: FixtureFile = {
+            version: FIXTURE_VERSION,
+            providerId: this.id,
+            metadata: this.metadata,
+            entries: this.entries
+        };
+        await this.options.fs.write(this.options.fixturePath, JSON.stringify(data, null, 2));
+    }
+
+    private toRecordedRequest(request: CompletionRequest): RecordedRequest {
+        return {
+            model: request.model,
+            systemPrompt: request.systemPrompt,
+            messages: request.messages,
+            temperature: request.temperature,
+            maxTokens: request.maxTokens,
+            tools: request.tools,
+            structuredOutput: request.structuredOutput
+        };
+    }
+
+    private toProviderError(entry: FixtureEntry): ProviderError {
+        const error = entry.error!;
+        return new ProviderError(error.message, this.id, error.code, error.retryable, error.retryAfterMs);
+    }
+}
+
+/**
+ * JSON with sorted object keys and undefined values dropped, so equivalent
+ * requests always serialise identically
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value as Record<string, unknown>)
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+
+    return JSON.stringify(value);
+}
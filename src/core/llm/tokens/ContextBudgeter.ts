@@ -0,0 +1,76 @@
+/**
+ * Context Budgeter
+ * Estimates every part of a prompt before a request is sent and reports
+ * whether it is likely to fit the model's context window. Counts are
+ * heuristic (see TokenCounter), so the report is advisory only.
+ */
+
+import { Message, ToolDefinition } from '../../../types/Provider';
+import { getModelContextWindow, TokenCounter } from './TokenCounter';
+
+const DEFAULT_RESERVED_OUTPUT_TOKENS = 1024;
+
+export interface ContextBudgetInput {
+    model: string;
+    maxContextTokens?: number;  // Provider fallback when the model is unknown
+    contextWindow?: number;     // The model's known window (configured or reported); overrides both
+    systemPrompt?: string;  // Including any persona and retrieved context
+    history: Message[];
+    tools?: ToolDefinition[];
+    reservedOutputTokens?: number;
+}
+
+export interface ContextBudgetBreakdown {
+    systemPrompt: number;
+    history: number;
+    tools: number;
+}
+
+export interface ContextBudgetReport {
+    fits: boolean;
+    breakdown: ContextBudgetBreakdown;
+    promptTokens: number;
+    reservedOutputTokens: number;
+    maxContextTokens: number;
+    availableTokens: number;  // Remaining after prompt and reserved output (negative when over)
+    overflowTokens: number;
+    percentageUsed: number;
+}
+
+export class ContextBudgeter {
+    constructor(private counter: TokenCounter) {}
+
+    /**
+     * Resolve the context window for a model, preferring the known per-model
+     * window over the provider's generic maximum
+     */
+    getMaxContextTokens(model: string, providerMax?: number): number {
+        return getModelContextWindow(model) ?? providerMax ?? 8192;
+    }
+
+    evaluate(input: ContextBudgetInput): ContextBudgetReport {
+        const { model } = input;
+
+        const breakdown: ContextBudgetBreakdown = {
+            systemPrompt: this.counter.countText(input.systemPrompt ?? '', model),
+            history: this.counter.countMessages(input.history, model),
+            tools: this.counter.countTools(input.tools ?? [], model)
+        };
+
+        const promptTokens = Object.values(breakdown).reduce((sum, n) => sum + n, 0);
+        const reservedOutputTokens = input.reservedOutputTokens ?? DEFAULT_RESERVED_OUTPUT_TOKENS;
+        const maxContextTokens = input.contextWindow ?? this.getMaxContextTokens(model, input.maxContextTokens);
+        const availableTokens = maxContextTokens - promptTokens - reservedOutputTokens;
+
+        return {
+            fits: availableTokens >= 0,
+            breakdown,
+            promptTokens,
+            reservedOutputTokens,
+            maxContextTokens,
+            availableTokens,
+            overflowTokens: Math.max(0, -availableTokens),
+            percentageUsed: Math.min(100, Math.round((promptTokens + reservedOutputTokens) / maxContextTokens * 1000) / 10)
+        };
+    }
+}
@@ -0,0 +1,172 @@
+/**
+ * Token Counter
+ * Per-model-family token estimation from a calibrated character/word
+ * heuristic. No BPE vocabularies are bundled, so counts are never exact.
+ */
+
+import { Message, ToolDefinition } from '../../../types/Provider';
+
+export type ModelFamily = 'gpt' | 'claude' | 'llama' | 'mistral' | 'generic';
+
+/**
+ * Chat formats add a few tokens per message for role and delimiters
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const REPLY_PRIMING_TOKENS = 3;
+
+/**
+ * Rough per-part costs for non-text content: a ~1 megapixel image, and a
+ * PDF page estimated from its size (about 50 KB per page)
+ */
+const IMAGE_PART_TOKENS = 1500;
+const DOCUMENT_PAGE_TOKENS = 1500;
+const DOCUMENT_BYTES_PER_PAGE = 50 * 1024;
+
+/**
+ * Known context windows by model-name prefix (longest prefix wins)
+ */
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+    'gpt-4o': 128000,
+    'gpt-4.1': 1047576,
+    'gpt-4-turbo': 128000,
+    'gpt-4-32k': 32768,
+    'gpt-4': 8192,
+    'gpt-3.5-turbo': 16385,
+    'o1': 200000,
+    'o3': 200000,
+    'o4': 200000,
+    'claude': 200000,
+    'llama3': 8192,
+    'llama3.1': 131072,
+    'llama3.2': 131072,
+    'llama3.3': 131072,
+    'mistral': 32768,
+    'mixtral': 32768,
+    'qwen2.5': 32768,
+    'gemma2': 8192,
+};
+
+/**
+ * Average characters per token by family, tuned conservatively
+ * (slightly over-counting) so budget checks err on the safe side
+ */
+const CHARS_PER_TOKEN: Record<ModelFamily, number> = {
+    gpt: 3.8,
+    claude: 3.4,
+    llama: 3.6,
+    mistral: 3.4,
+    generic: 3.3,
+};
+
+class HeuristicTokenizer {
+    constructor(private charsPerToken: number) {}
+
+    count(text: string): number {
+        if (!text) {
+            return 0;
+        }
+
+        // Non-ASCII text (CJK, emoji) tokenizes far less efficiently
+        let asciiChars = 0;
+        let otherChars = 0;
+        for (const char of text) {
+            if (char.charCodeAt(0) < 128) {
+                asciiChars++;
+            } else {
+                otherChars++;
+            }
+        }
+
+        const words = text.split(/\s+/).filter(Boolean).length;
+        const byChars = asciiChars / this.charsPerToken + otherChars;
+
+        return Math.ceil(Math.max(byChars, words * 1.1));
+    }
+}
+
+/**
+ * Determine the tokenizer family for a model name
+ */
+export function detectModelFamily(model: string): ModelFamily {
+    const name = model.toLowerCase();
+
+    if (/^(gpt|o\d|text-|chatgpt)/.test(name)) {
+        return 'gpt';
+    }
+    if (name.includes('claude')) {
+        return 'claude';
+    }
+    if (name.includes('llama')) {
+        return 'llama';
+    }
+    if (name.includes('mistral') || name.includes('mixtral')) {
+        return 'mistral';
+    }
+
+    return 'generic';
+}
+
+/**
+ * Look up a model's context window, or undefined if it is not known
+ */
+export function getModelContextWindow(model: string): number | undefined {
+    const name = model.toLowerCase().replace(/^.*\//, '');
+    const match = Object.keys(MODEL_CONTEXT_WINDOWS)
+        .filter(prefix => name.startsWith(prefix))
+        .sort((a, b) => b.length - a.length)[0];
+
+    return match ? MODEL_CONTEXT_WINDOWS[match] : undefined;
+}
+
+export class TokenCounter {
+    private getTokenizer(model: string): HeuristicTokenizer {
+        return new HeuristicTokenizer(CHARS_PER_TOKEN[detectModelFamily(model)]);
+    }
+
+    countText(text: string, model: string): number {
+        return this.getTokenizer(model).count(text);
+    }
+
+    /**
+     * Count tokens for a message list including per-message chat overhead
+     */
+    countMessages(messages: Message[], model: string): number {
+        if (messages.length === 0) {
+            return 0;
+        }
+
+        const tokenizer = this.getTokenizer(model);
+        let total = REPLY_PRIMING_TOKENS;
+
+        for (const message of messages) {
+            total += MESSAGE_OVERHEAD_TOKENS + tokenizer.count(message.content);
+
+            for (const part of message.parts ?? []) {
+                if (part.type === 'image') {
+                    total += IMAGE_PART_TOKENS;
+                } else if (part.type === 'document') {
+                    // Base64 expands bytes by 4/3
+                    const pages = Math.max(1, Math.ceil(part.data.length * 0.75 / DOCUMENT_BYTES_PER_PAGE));
+                    total += pages * DOCUMENT_PAGE_TOKENS;
+                }
+            }
+
+            if (message.toolCalls) {
+                total += tokenizer.count(JSON.stringify(message.toolCalls));
+            }
+        }
+
+        return total;
+    }
+
+    /**
+     * Count tokens consumed by tool definitions (sent as JSON schema)
+     */
+    countTools(tools: ToolDefinition[], model: string): number {
+        if (tools.length === 0) {
+            return 0;
+        }
+
+        return this.getTokenizer(model).count(JSON.stringify(tools));
+    }
+}
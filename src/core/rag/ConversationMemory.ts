@@ -0,0 +1,297 @@
+/**
+ * Conversation Memory
+ * Indexes the user and assistant messages of past conversations into their
+ * own vector collection, so agents can recall earlier discussions and cite
+ * the conversation and message they came from
+ */
+
+import { AgentConfig } from '../../settings';
+import {
+    Conversation,
+    ConversationEvent,
+    ConversationIndexEntry,
+    ConversationRecall,
+    ConversationRecallOptions
+} from '../../types/Conversation';
+import { EmbeddingProvider } from '../../types/Embedding';
+import { NoteChunk, RetrievalResult, VectorFilter, VectorRecord, VectorStore } from '../../types/RAG';
+import { getLogger } from '../../utils/logger';
+import { MarkdownChunker } from './MarkdownChunker';
+import { HybridRetriever } from './retrieval/HybridRetriever';
+import { hashChunk } from './VaultIndexer';
+
+const logger = getLogger('ConversationMemory');
+
+/**
+ * Embedded as the breadcrumb of messages from untitled conversations
+ */
+const UNTITLED = 'Conversation';
+
+export interface ConversationMemoryDependencies {
+    chunker: MarkdownChunker;
+    embeddings: EmbeddingProvider;
+    store: VectorStore;          // Conversation collection; read side
+    retriever: HybridRetriever;  // Over the same collection; write side
+}
+
+/**
+ * Recall options from an agent's retrieval settings, or undefined when the
+ * agent does not recall past conversations
+ *
+ * @param conversationId The conversation being answered; it is already in context
+ */
+export function getAgentRecallOptions(agent: AgentConfig, conversationId?: string): ConversationRecallOptions | undefined {
+    if (!agent.retrievalSettings.enabled || !agent.retrievalSettings.includeConversationHistory) {
+        return undefined;
+    }
+    return {
+        strategy: agent.retrievalSettings.searchStrategy,
+        topK: agent.retrievalSettings.topK,
+        threshold: agent.retrievalSettings.scoreThreshold,
+        excludeConversationIds: conversationId ? [conversationId] : undefined
+    };
+}
+
+/**
+ * The messages of a conversation that are remembered: user and assistant
+ * turns with text
+ */
+export function toIndexEntries(conversation: Conversation): ConversationIndexEntry[] {
+    const entries: ConversationIndexEntry[] = [];
+    for (const message of conversation.messages) {
+        if ((message.role !== 'user' && message.role !== 'assistant') || !message.content.trim()) {
+            continue;
+        }
+        entries.push({
+            conversationId: conversation.id,
+            messageId: message.id,
+            content: message.content,
+            role: message.role,
+            agentId: message.agentId,
+            timestamp: message.timestamp,
+            metadata: {
+                conversationTitle: conversation.title,
+                tags: conversation.tags,
+                archived: conversation.archived
+            }
+        });
+    }
+    return entries;
+}
+
+export class ConversationMemory {
+    private processing: Promise<void> = Promise.resolve();
+
+    constructor(private deps: ConversationMemoryDependencies) {}
+
+    /**
+     * Index a conversation, embedding only new or edited messages. Messages
+     * no longer in the conversation are forgotten. Returns the number of
+     * chunks embedded.
+     */
+    indexConversation(conversation: Conversation, signal?: AbortSignal): Promise<number> {
+        return this.serialize(() => this.update(conversation, signal));
+    }
+
+    /**
+     * Bring the collection in line with the stored conversations: index each
+     * one and forget conversations that were deleted
+     */
+    async sync(conversations: Conversation[], signal?: AbortSignal): Promise<void> {
+        const ids = new Set(conversations.map(conversation => conversation.id));
+        for (const id of await this.deps.store.getFilePaths()) {
+            if (!ids.has(id)) {
+                await this.removeConversation(id);
+            }
+        }
+
+        let embedded = 0;
+        for (const conversation of conversations) {
+            signal?.throwIfAborted();
+            embedded += await this.indexConversation(conversation, signal);
+        }
+        logger.info(`Synced ${conversations.length} conversations, ${embedded} chunks embedded`);
+    }
+
+    /**
+     * Flag a conversation's messages as archived or not, without re-embedding
+     */
+    setArchived(conversationId: string, archived: boolean): Promise<void> {
+        return this.serialize(() => this.rewrite(conversationId, records => records.map(record => ({
+            ...record,
+            metadata: { ...record.metadata, frontmatter: { ...record.metadata.frontmatter, archived } }
+        }))));
+    }
+
+    removeConversation(conversationId: string): Promise<void> {
+        return this.serialize(async () => {
+            await this.deps.retriever.deleteByFile(conversationId);
+        });
+    }
+
+    removeMessage(conversationId: string, messageId: string): Promise<void> {
+        return this.serialize(() => this.rewrite(conversationId, records =>
+            records.filter(record => record.metadata.frontmatter?.messageId !== messageId)
+        ));
+    }
+
+    /**
+     * Wait for queued updates to finish
+     */
+    flush(): Promise<void> {
+        return this.processing;
+    }
+
+    /**
+     * Apply a conversation lifecycle event
+     */
+    async handleEvent(event: ConversationEvent): Promise<void> {
+        switch (event.type) {
+            case 'conversation_created':
+            case 'conversation_updated':
+                await this.indexConversation(event.conversation);
+                break;
+            case 'conversation_archived':
+                await this.setArchived(event.conversationId, true);
+                break;
+            case 'conversation_deleted':
+                await this.removeConversation(event.conversationId);
+                break;
+            case 'message_deleted':
+                await this.removeMessage(event.conversationId, event.messageId);
+                break;
+            default:
+                // New and edited messages are indexed from the conversation_updated event
+                break;
+        }
+    }
+
+    /**
+     * Past messages matching the query, best first. Archived conversations
+     * are left out unless asked for.
+     */
+    async recall(query: string, options: ConversationRecallOptions): Promise<ConversationRecall[]> {
+        const results = await this.deps.retriever.search(query, {
+            strategy: options.strategy ?? 'hybrid',
+            topK: options.topK,
+            threshold: options.threshold,
+            filter: buildRecallFilter(options),
+            signal: options.signal
+        });
+        return results.map(toRecall);
+    }
+
+    private async update(conversation: Conversation, signal?: AbortSignal): Promise<number> {
+        signal?.throwIfAborted();
+
+        const chunks = toIndexEntries(conversation).flatMap(entry =>
+            this.deps.chunker.chunk(conversation.id, entry.content).map(chunk => toMessageChunk(entry, chunk))
+        ).map((chunk, index) => ({ ...chunk, chunkIndex: index }));
+
+        if (chunks.length === 0) {
+            await this.deps.retriever.deleteByFile(conversation.id);
+            return 0;
+        }
+
+        const hashes = await Promise.all(chunks.map(hashChunk));
+        const existing = new Map<string, number[]>();
+        for (const record of await this.deps.store.getRecordsByFile(conversation.id)) {
+            if (record.contentHash) {
+                existing.set(record.contentHash, record.vector);
+            }
+        }
+
+        // Embed each new hash once, even if the same text appears twice
+        const missing = [...new Set(hashes.filter(hash => !existing.has(hash)))];
+        if (missing.length > 0) {
+            const texts = missing.map(hash => MarkdownChunker.getEmbeddingText(chunks[hashes.indexOf(hash)]));
+            const vectors = await this.deps.embeddings.embed(texts, { signal, priority: 'background' });
+            missing.forEach((hash, i) => existing.set(hash, vectors[i]));
+        }
+
+        const records: VectorRecord[] = chunks.map((chunk, i) => ({
+            ...chunk,
+            contentHash: hashes[i],
+            vector: existing.get(hashes[i])!
+        }));
+
+        await this.deps.retriever.deleteByFile(conversation.id);
+        await this.deps.retriever.upsert(records);
+
+        logger.debug(`Indexed conversation ${conversation.id}: ${missing.length} of ${chunks.length} chunks embedded`);
+        return missing.length;
+    }
+
+    /**
+     * Replace a conversation's stored records with an edited copy
+     */
+    private async rewrite(conversationId: string, edit: (records: VectorRecord[]) => VectorRecord[]): Promise<void> {
+        const records = await this.deps.store.getRecordsByFile(conversationId);
+        if (records.length === 0) {
+            return;
+        }
+
+        const edited = edit(records);
+        await this.deps.retriever.deleteByFile(conversationId);
+        if (edited.length > 0) {
+            await this.deps.retriever.upsert(edited);
+        }
+    }
+
+    /**
+     * Run a task after every earlier one, whether or not they failed
+     */
+    private serialize<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.processing.then(task);
+        this.processing = result.then(() => undefined, () => undefined);
+        return result;
+    }
+}
+
+/**
+ * A chunk of a message, stored under the conversation id as its file path.
+ * Message details ride in the frontmatter so the filter language applies.
+ */
+function toMessageChunk(entry: ConversationIndexEntry, chunk: NoteChunk): NoteChunk {
+    return {
+        ...chunk,
+        id: `${entry.conversationId}#${entry.messageId}#${chunk.chunkIndex}`,
+        metadata: {
+            title: entry.metadata.conversationTitle || UNTITLED,
+            tags: entry.metadata.tags && entry.metadata.tags.length > 0 ? entry.metadata.tags : undefined,
+            modifiedAt: entry.timestamp,
+            frontmatter: {
+                conversationTitle: entry.metadata.conversationTitle,
+                messageId: entry.messageId,
+                role: entry.role,
+                agentId: entry.agentId,
+                archived: entry.metadata.archived
+            }
+        }
+    };
+}
+
+function buildRecallFilter(options: ConversationRecallOptions): VectorFilter {
+    return {
+        tags: options.tags,
+        excludeFilePaths: options.excludeConversationIds,
+        modifiedAfter: options.after,
+        modifiedBefore: options.before,
+        frontmatter: options.includeArchived ? undefined : [{ field: 'archived', operator: 'ne', value: true }]
+    };
+}
+
+function toRecall(result: RetrievalResult): ConversationRecall {
+    const { chunk } = result;
+    const details = chunk.metadata.frontmatter ?? {};
+    return {
+        conversationId: chunk.filePath,
+        messageId: details.messageId,
+        conversationTitle: details.conversationTitle,
+        role: details.role,
+        agentId: details.agentId,
+        timestamp: chunk.metadata.modifiedAt ?? 0,
+        excerpt: chunk.content,
+        score: result.score
+    };
+}
@@ -0,0 +1,371 @@
+/**
+ * Indexing Job
+ * Indexes the whole vault in the background. Progress is checkpointed so an
+ * interrupted run resumes after a restart, and per-file failures are
+ * collected instead of ending the run.
+ */
+
+import { App, Notice, TFile } from 'obsidian';
+import { BudgetExceededError } from '../../utils/errors';
+import { getLogger } from '../../utils/logger';
+import { VaultIndexer } from './VaultIndexer';
+
+const logger = getLogger('IndexingJob');
+
+const CHECKPOINT_VERSION = 1;
+
+/**
+ * Files indexed between checkpoint writes
+ */
+const CHECKPOINT_INTERVAL = 20;
+
+export type IndexingJobState = 'idle' | 'running' | 'paused' | 'cancelled' | 'completed';
+
+export interface IndexingFailure {
+    path: string;
+    error: string;
+}
+
+export interface IndexingProgress {
+    state: IndexingJobState;
+    totalFiles: number;
+    processedFiles: number;   // Indexed or failed
+    chunks: number;
+    embeddedChunks: number;   // Chunks that needed new embeddings
+    failures: IndexingFailure[];
+    currentFile?: string;
+    etaMs?: number;           // Unknown until a few files have been timed
+}
+
+export interface IndexingJobOptions {
+    checkpointPath: string;   // Vault-relative
+    model: string;            // A checkpoint from another model is discarded
+}
+
+interface Checkpoint {
+    version: number;
+    model: string;
+    completed: string[];
+    chunks: number;
+    embeddedChunks: number;
+    failures: IndexingFailure[];
+}
+
+type ProgressListener = (progress: IndexingProgress) => void;
+
+export class IndexingJob {
+    private progressState: IndexingProgress = createProgress('idle');
+    private completed: Set<string> = new Set();
+    private listeners: Set<ProgressListener> = new Set();
+    private controller?: AbortController;
+    private running?: Promise<void>;
+    private resumeWaiter?: () => void;
+    private sinceCheckpoint = 0;
+
+    // ETA is based on files timed in this session, excluding pauses
+    private activeMs = 0;
+    private activeSince?: number;
+    private timedFiles = 0;
+
+    constructor(
+        private app: App,
+        private indexer: VaultIndexer,
+        private options: IndexingJobOptions
+    ) {}
+
+    get progress(): IndexingProgress {
+        return { ...this.progressState, failures: [...this.progressState.failures] };
+    }
+
+    get isActive(): boolean {
+        return this.progressState.state === 'running' || this.progressState.state === 'paused';
+    }
+
+    /**
+     * Listen for progress updates. Returns a function that removes the listener.
+     */
+    onProgress(listener: ProgressListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    async hasCheckpoint(): Promise<boolean> {
+        return this.app.vault.adapter.exists(this.options.checkpointPath);
+    }
+
+    /**
+     * Start indexing, continuing from the checkpoint if there is one. Resolves
+     * when the run finishes, is cancelled or is stopped.
+     */
+    start(): Promise<void> {
+        if (!this.running) {
+            this.running = this.run().finally(() => {
+                this.running = undefined;
+            });
+        }
+        return this.running;
+    }
+
+    /**
+     * Pause after the file in progress
+     */
+    pause(): void {
+        if (this.progressState.state !== 'running') {
+            return;
+        }
+
+        this.stopClock();
+        this.update({ state: 'paused', etaMs: undefined });
+        this.saveCheckpoint().catch(error => logger.error('Failed to save indexing checkpoint:', error));
+    }
+
+    resume(): void {
+        if (this.progressState.state !== 'paused') {
+            return;
+        }
+
+        this.activeSince = Date.now();
+        this.update({ state: 'running' });
+        this.wake();
+    }
+
+    /**
+     * Abandon the run and its checkpoint. Files already indexed stay indexed.
+     */
+    cancel(): void {
+        if (!this.isActive) {
+            return;
+        }
+
+        this.update({ state: 'cancelled', currentFile: undefined, etaMs: undefined });
+        this.controller?.abort();
+        this.wake();
+    }
+
+    /**
+     * Stop for shutdown, keeping the checkpoint so the run resumes next time
+     */
+    async stop(): Promise<void> {
+        if (!this.running) {
+            return;
+        }
+
+        this.controller?.abort();
+        this.wake();
+        await this.running;
+    }
+
+    private async run(): Promise<void> {
+        const controller = new AbortController();
+        this.controller = controller;
+        await this.loadCheckpoint();
+
+        const files = this.app.vault.getMarkdownFiles().filter(file => this.indexer.shouldIndex(file));
+        this.update({
+            state: 'running',
+            totalFiles: files.length,
+            processedFiles: files.filter(file => this.completed.has(file.path)).length
+        });
+        this.activeMs = 0;
+        this.timedFiles = 0;
+        this.activeSince = Date.now();
+
+        if (this.completed.size === 0) {
+            await this.removeUnindexedFiles(files);
+        }
+
+        for (const file of files) {
+            if (this.completed.has(file.path)) {
+                continue;
+            }
+
+            // A file stopped by the budget is retried once indexing resumes
+            do {
+                await this.waitWhilePaused();
+                if (controller.signal.aborted) {
+                    break;
+                }
+            } while (!await this.indexFile(file, controller.signal));
+
+            if (controller.signal.aborted) {
+                break;
+            }
+        }
+
+        this.stopClock();
+        await this.finish(controller.signal.aborted && this.progressState.state !== 'cancelled');
+    }
+
+    /**
+     * Index one file, recording a failure if it errors
+     * @returns false if the file was not processed and should be retried
+     */
+    private async indexFile(file: TFile, signal: AbortSignal): Promise<boolean> {
+        this.update({ currentFile: file.path });
+
+        try {
+            const result = await this.indexer.indexFile(file, signal);
+            this.progressState.chunks += result.chunks;
+            this.progressState.embeddedChunks += result.embedded;
+        } catch (error) {
+            if (signal.aborted) {
+                return false;  // Not a failure; the file is retried on resume
+            }
+
+            if (error instanceof BudgetExceededError) {
+                // Every remaining file would fail the same way
+                logger.warn(`Pausing indexing: ${error.message}`);
+                new Notice(`Indexing paused: ${error.message}`);
+                this.pause();
+                return false;
+            }
+
+            logger.warn(`Failed to index ${file.path}:`, error);
+            this.progressState.failures.push({
+                path: file.path,
+                error: error instanceof Error ? error.message : String(error)
+            });
+        }
+
+        this.completed.add(file.path);
+        this.timedFiles++;
+        this.update({ processedFiles: this.progressState.processedFiles + 1, etaMs: this.estimateRemaining() });
+
+        if (++this.sinceCheckpoint >= CHECKPOINT_INTERVAL) {
+            await this.saveCheckpoint().catch(error => logger.error('Failed to save indexing checkpoint:', error));
+        }
+        return true;
+    }
+
+    /**
+     * Remove files the store still has but the vault no longer wants indexed:
+     * deleted while the plugin was off, or newly excluded by the filters
+     */
+    private async removeUnindexedFiles(files: TFile[]): Promise<void> {
+        const wanted = new Set(files.map(file => file.path));
+        const stored = await this.indexer.getIndexedFilePaths();
+
+        for (const path of stored.filter(path => !wanted.has(path))) {
+            await this.indexer.removeFile(path);
+        }
+    }
+
+    /**
+     * @param interrupted Stopped for shutdown: keep the checkpoint
+     */
+    private async finish(interrupted: boolean): Promise<void> {
+        if (interrupted) {
+            await this.saveCheckpoint().catch(error => logger.error('Failed to save indexing checkpoint:', error));
+            this.update({ state: 'paused', currentFile: undefined, etaMs: undefined });
+            return;
+        }
+
+        await this.clearCheckpoint();
+        await this.indexer.recordStats();
+
+        const state = this.progressState.state === 'cancelled' ? 'cancelled' : 'completed';
+        this.update({ state, currentFile: undefined, etaMs: undefined });
+        logger.info(
+            `Indexing ${state}: ${this.progressState.processedFiles}/${this.progressState.totalFiles} files, ` +
+            `${this.progressState.chunks} chunks, ${this.progressState.failures.length} failures`
+        );
+    }
+
+    private waitWhilePaused(): Promise<void> {
+        if (this.progressState.state !== 'paused') {
+            return Promise.resolve();
+        }
+        return new Promise(resolve => {
+            this.resumeWaiter = resolve;
+        });
+    }
+
+    private wake(): void {
+        this.resumeWaiter?.();
+        this.resumeWaiter = undefined;
+    }
+
+    private stopClock(): void {
+        if (this.activeSince !== undefined) {
+            this.activeMs += Date.now() - this.activeSince;
+            this.activeSince = undefined;
+        }
+    }
+
+    private estimateRemaining(): number | undefined {
+        if (this.timedFiles < 3 || this.activeSince === undefined) {
+            return undefined;
+        }
+
+        const elapsed = this.activeMs + Date.now() - this.activeSince;
+        const remaining = this.progressState.totalFiles - this.progressState.processedFiles;
+        return Math.round((elapsed / this.timedFiles) * remaining);
+    }
+
+    private update(changes: Partial<IndexingProgress>): void {
+        Object.assign(this.progressState, changes);
+
+        const snapshot = this.progress;
+        for (const listener of this.listeners) {
+            listener(snapshot);
+        }
+    }
+
+    private async loadCheckpoint(): Promise<void> {
+        this.completed = new Set();
+        this.progressState = createProgress('running');
+        this.sinceCheckpoint = 0;
+
+        const adapter = this.app.vault.adapter;
+        if (!await adapter.exists(this.options.checkpointPath)) {
+            return;
+        }
+
+        try {
+            const checkpoint = JSON.parse(await adapter.read(this.options.checkpointPath)) as Checkpoint;
+            if (checkpoint.version !== CHECKPOINT_VERSION || checkpoint.model !== this.options.model) {
+                logger.info('Discarding indexing checkpoint from another model or version');
+                return;
+            }
+
+            this.completed = new Set(checkpoint.completed);
+            this.progressState.chunks = checkpoint.chunks;
+            this.progressState.embeddedChunks = checkpoint.embeddedChunks;
+            this.progressState.failures = checkpoint.failures;
+            logger.info(`Resuming indexing after ${this.completed.size} files`);
+        } catch (error) {
+            logger.warn('Ignoring unreadable indexing checkpoint:', error);
+        }
+    }
+
+    private async saveCheckpoint(): Promise<void> {
+        this.sinceCheckpoint = 0;
+
+        const checkpoint: Checkpoint = {
+            version: CHECKPOINT_VERSION,
+            model: this.options.model,
+            completed: [...this.completed],
+            chunks: this.progressState.chunks,
+            embeddedChunks: this.progressState.embeddedChunks,
+            failures: this.progressState.failures
+        };
+        await this.app.vault.adapter.write(this.options.checkpointPath, JSON.stringify(checkpoint));
+    }
+
+    private async clearCheckpoint(): Promise<void> {
+        if (await this.app.vault.adapter.exists(this.options.checkpointPath)) {
+            await this.app.vault.adapter.remove(this.options.checkpointPath);
+        }
+    }
+}
+
+function createProgress(state: IndexingJobState): IndexingProgress {
+    return {
+        state,
+        totalFiles: 0,
+        processedFiles: 0,
+        chunks: 0,
+        embeddedChunks: 0,
+        failures: []
+    };
+}
@@ -0,0 +1,373 @@
+/**
+ * Markdown Chunker
+ * Splits notes into retrieval chunks along the heading hierarchy, keeping
+ * code blocks and tables intact and recording exact line ranges
+ */
+
+import { parseFrontMatterTags, parseYaml } from 'obsidian';
+import { NoteChunk } from '../../types/RAG';
+import { getLogger } from '../../utils/logger';
+import { getFileName } from '../../utils/PathUtils';
+import { TokenCounter } from '../llm/tokens/TokenCounter';
+
+const logger = getLogger('MarkdownChunker');
+
+export interface ChunkerOptions {
+    maxTokens: number;      // Target upper bound per chunk
+    overlapTokens: number;  // Trailing context repeated at the start of the next chunk in a section
+    model?: string;         // Embedding model, for token estimates
+}
+
+export const DEFAULT_CHUNKER_OPTIONS: ChunkerOptions = {
+    maxTokens: 512,
+    overlapTokens: 64,
+};
+
+type BlockType = 'heading' | 'code' | 'table' | 'math' | 'text';
+
+interface Block {
+    type: BlockType;
+    lines: string[];
+    startLine: number;  // 1-based
+    endLine: number;
+    tokens: number;
+    level?: number;     // Heading level
+    heading?: string;   // Heading text
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+
+export class MarkdownChunker {
+    private options: ChunkerOptions;
+
+    constructor(
+        options: Partial<ChunkerOptions> = {},
+        private tokenCounter: TokenCounter = new TokenCounter()
+    ) {
+        this.options = { ...DEFAULT_CHUNKER_OPTIONS, ...options };
+    }
+
+    /**
+     * Split a note into chunks. Frontmatter is removed from the content and
+     * recorded as metadata on every chunk.
+     */
+    chunk(filePath: string, markdown: string): NoteChunk[] {
+        const lines = markdown.split(/\r?\n/);
+        const { frontmatter, bodyStart } = this.extractFrontmatter(lines);
+
+        const title = typeof frontmatter?.title === 'string' ? frontmatter.title : getFileName(filePath);
+        const tags = frontmatter ? parseFrontMatterTags(frontmatter)?.map(tag => tag.replace(/^#/, '')) : undefined;
+
+        const blocks = this.parseBlocks(lines, bodyStart);
+        const chunks: NoteChunk[] = [];
+        const headingPath: string[] = [];
+        const headingLevels: number[] = [];
+        let section: Block[] = [];
+
+        const flushSection = () => {
+            for (const group of this.packSection(section)) {
+                chunks.push({
+                    id: `${filePath}#${chunks.length}`,
+                    filePath,
+                    chunkIndex: chunks.length,
+                    content: group.flatMap(block => block.lines).join('\n').trim(),
+                    headingPath: [...headingPath],
+                    startLine: group[0].startLine,
+                    endLine: group[group.length - 1].endLine,
+                    tokenCount: group.reduce((sum, block) => sum + block.tokens, 0),
+                    metadata: {
+                        title,
+                        tags: tags && tags.length > 0 ? tags : undefined,
+                        frontmatter
+                    }
+                });
+            }
+            section = [];
+        };
+
+        for (const block of blocks) {
+            if (block.type === 'heading') {
+                flushSection();
+
+                // Pop headings at the same or deeper level, then push this one
+                while (headingLevels.length > 0 && headingLevels[headingLevels.length - 1] >= block.level!) {
+                    headingLevels.pop();
+                    headingPath.pop();
+                }
+                headingLevels.push(block.level!);
+                headingPath.push(block.heading!);
+            }
+
+            section.push(block);
+        }
+        flushSection();
+
+        // Drop chunks that are only a heading with no body
+        return chunks
+            .filter(chunk => chunk.content.replace(/^#{1,6}\s+.*$/gm, '').trim().length > 0)
+            .map((chunk, index) => ({ ...chunk, id: `${filePath}#${index}`, chunkIndex: index }));
+    }
+
+    /**
+     * Text to embed for a chunk: the title and heading breadcrumb give short
+     * chunks the context they lose by being cut out of the note
+     */
+    static getEmbeddingText(chunk: NoteChunk): string {
+        const breadcrumb = [chunk.metadata.title, ...chunk.headingPath].join(' > ');
+        return `${breadcrumb}\n\n${chunk.content}`;
+    }
+
+    private extractFrontmatter(lines: string[]): { frontmatter?: Record<string, any>; bodyStart: number } {
+        if (lines[0]?.trim() !== '---') {
+            return { bodyStart: 0 };
+        }
+
+        const end = lines.findIndex((line, index) => index > 0 && (line.trim() === '---' || line.trim() === '...'));
+        if (end === -1) {
+            return { bodyStart: 0 };
+        }
+
+        try {
+            const parsed = parseYaml(lines.slice(1, end).join('\n'));
+            return {
+                frontmatter: parsed && typeof parsed === 'object' ? parsed : undefined,
+                bodyStart: end + 1
+            };
+        } catch (error) {
+            logger.debug('Ignoring invalid frontmatter:', error);
+            return { bodyStart: end + 1 };
+        }
+    }
+
+    /**
+     * Group lines into blocks that must not be split mid-way: headings,
+     * fenced code, tables, math blocks and blank-line separated text
+     */
+    private parseBlocks(lines: string[], start: number): Block[] {
+        const blocks: Block[] = [];
+        let i = start;
+
+        const push = (type: BlockType, from: number, to: number, extra: Partial<Block> = {}) => {
+            const blockLines = lines.slice(from, to + 1);
+            blocks.push({
+                type,
+                lines: blockLines,
+                startLine: from + 1,
+                endLine: to + 1,
+                tokens: this.countTokens(blockLines.join('\n')),
+                ...extra
+            });
+        };
+
+        while (i < lines.length) {
+            const line = lines[i];
+
+            if (!line.trim()) {
+                i++;
+                continue;
+            }
+
+            const heading = line.match(HEADING_PATTERN);
+            if (heading) {
+                push('heading', i, i, { level: heading[1].length, heading: heading[2] });
+                i++;
+                continue;
+            }
+
+            const fence = line.match(FENCE_PATTERN);
+            if (fence) {
+                const marker = fence[1];
+                let end = i + 1;
+                while (end < lines.length && !lines[end].trim().startsWith(marker)) {
+                    end++;
+                }
+                push('code', i, Math.min(end, lines.length - 1));
+                i = end + 1;
+                continue;
+            }
+
+            if (line.trim() === '$$') {
+                let end = i + 1;
+                while (end < lines.length && lines[end].trim() !== '$$') {
+                    end++;
+                }
+                push('math', i, Math.min(end, lines.length - 1));
+                i = end + 1;
+                continue;
+            }
+
+            if (this.isTableLine(line)) {
+                let end = i;
+                while (end + 1 < lines.length && this.isTableLine(lines[end + 1])) {
+                    end++;
+                }
+                push('table', i, end);
+                i = end + 1;
+                continue;
+            }
+
+            // Text runs until a blank line or the start of another block type
+            let end = i;
+            while (
+                end + 1 < lines.length &&
+                lines[end + 1].trim() &&
+                !HEADING_PATTERN.test(lines[end + 1]) &&
+                !FENCE_PATTERN.test(lines[end + 1]) &&
+                !this.isTableLine(lines[end + 1]) &&
+                lines[end + 1].trim() !== '$$'
+            ) {
+                end++;
+            }
+            push('text', i, end);
+            i = end + 1;
+        }
+
+        return blocks;
+    }
+
+    /**
+     * Pack a section's blocks into chunks within the token budget, carrying
+     * trailing blocks forward as overlap
+     */
+    private packSection(section: Block[]): Block[][] {
+        const { maxTokens, overlapTokens } = this.options;
+        const groups: Block[][] = [];
+        let current: Block[] = [];
+        let currentTokens = 0;
+
+        for (const original of section) {
+            for (const block of this.splitOversized(original)) {
+                if (current.length > 0 && currentTokens + block.tokens > maxTokens) {
+                    groups.push(current);
+
+                    // Start the next chunk with trailing prose from this one; code
+                    // and tables are never repeated
+                    const overlap: Block[] = [];
+                    let overlapSize = 0;
+                    for (let j = current.length - 1; j >= 0; j--) {
+                        const candidate = current[j];
+                        if (candidate.type !== 'text' || overlapSize + candidate.tokens > overlapTokens) {
+                            break;
+                        }
+                        overlap.unshift(candidate);
+                        overlapSize += candidate.tokens;
+                    }
+
+                    current = overlap;
+                    currentTokens = overlapSize;
+                }
+
+                current.push(block);
+                currentTokens += block.tokens;
+            }
+        }
+
+        if (current.length > 0) {
+            groups.push(current);
+        }
+
+        return groups;
+    }
+
+    /**
+     * Blocks larger than the budget are split on line boundaries. Code fences
+     * are reopened in each piece and table pieces repeat the header rows.
+     */
+    private splitOversized(block: Block): Block[] {
+        if (block.tokens <= this.options.maxTokens) {
+            return [block];
+        }
+
+        if (block.lines.length === 1) {
+            return this.splitLongLine(block);
+        }
+
+        let prefix: string[] = [];
+        let suffix: string[] = [];
+        let body = block.lines;
+        let bodyOffset = 0;
+
+        if (block.type === 'code' || block.type === 'math') {
+            const opener = block.lines[0];
+            const marker = opener.trim().match(/^(`{3,}|~{3,}|\$\$)/)?.[1] ?? '```';
+            const last = block.lines[block.lines.length - 1];
+            const closed = block.lines.length > 1 && last.trim().startsWith(marker);
+
+            prefix = [opener];
+            suffix = [closed ? last : marker];
+            body = block.lines.slice(1, closed ? -1 : undefined);
+            bodyOffset = 1;
+        } else if (block.type === 'table' && block.lines.length > 2) {
+            prefix = block.lines.slice(0, 2);
+            body = block.lines.slice(2);
+            bodyOffset = 2;
+        }
+
+        const overhead = this.countTokens([...prefix, ...suffix].join('\n'));
+        const budget = Math.max(1, this.options.maxTokens - overhead);
+        const pieces: Block[] = [];
+        let pieceStart = 0;
+        let pieceTokens = 0;
+
+        const emit = (from: number, to: number) => {
+            const lines = [...prefix, ...body.slice(from, to + 1), ...suffix];
+            pieces.push({
+                type: block.type,
+                lines,
+                // The first piece owns the opening lines; later pieces start at their body line
+                startLine: from === 0 ? block.startLine : block.startLine + bodyOffset + from,
+                endLine: to === body.length - 1 ? block.endLine : block.startLine + bodyOffset + to,
+                tokens: this.countTokens(lines.join('\n'))
+            });
+        };
+
+        body.forEach((line, index) => {
+            const lineTokens = this.countTokens(line);
+            if (index > pieceStart && pieceTokens + lineTokens > budget) {
+                emit(pieceStart, index - 1);
+                pieceStart = index;
+                pieceTokens = 0;
+            }
+            pieceTokens += lineTokens;
+        });
+        emit(pieceStart, body.length - 1);
+
+        return pieces;
+    }
+
+    /**
+     * Split a single long line (an unwrapped paragraph) at sentence
+     * boundaries; every piece keeps the line's number
+     */
+    private splitLongLine(block: Block): Block[] {
+        const sentences = block.lines[0].match(/[^.!?]+(?:[.!?]+["')\]]*\s*|$)/g) ?? [block.lines[0]];
+        const pieces: Block[] = [];
+        let text = '';
+
+        const emit = () => {
+            if (text.trim()) {
+                pieces.push({ ...block, lines: [text.trim()], tokens: this.countTokens(text) });
+            }
+            text = '';
+        };
+
+        for (const sentence of sentences) {
+            if (text && this.countTokens(text + sentence) > this.options.maxTokens) {
+                emit();
+            }
+            text += sentence;
+        }
+        emit();
+
+        return pieces;
+    }
+
+    private isTableLine(line: string): boolean {
+        return /^\s*\|.*\|\s*$/.test(line);
+    }
+
+    private countTokens(text: string): number {
+        return this.tokenCounter.countText(text, this.options.model ?? '');
+    }
+}
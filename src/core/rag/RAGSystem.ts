@@ -0,0 +1,314 @@
+/**
+ * RAG System
+ * Owns the embedding provider, vector store, retriever and indexer, and
+ * routes vault events to the indexer
+ */
+
+import { App, TAbstractFile, TFile } from 'obsidian';
+import { Conversation, ConversationEvent, ConversationRecall, ConversationRecallOptions } from '../../types/Conversation';
+import { EmbeddingProvider } from '../../types/Embedding';
+import { Message } from '../../types/Provider';
+import { QueryPlanningOptions, Reranker, RetrievalOptions, RetrievalResult, VectorStore } from '../../types/RAG';
+import { ProviderConfig, RAGConfig } from '../../types/Settings';
+import { RAGError } from '../../utils/errors';
+import { getLogger } from '../../utils/logger';
+import { joinPath } from '../../utils/PathUtils';
+import { LLMManager } from '../llm/LLMManager';
+import { ConversationMemory } from './ConversationMemory';
+import { createEmbeddingProvider } from './embeddings/EmbeddingFactory';
+import { IndexingJob } from './IndexingJob';
+import { DEFAULT_CHUNKER_OPTIONS, MarkdownChunker } from './MarkdownChunker';
+import { createReranker } from './rerank/RerankerFactory';
+import { getAgentRetrievalOptions, HybridRetriever, HybridRetrieverOptions, RetrievalAgent } from './retrieval/HybridRetriever';
+import { LinkGraph } from './retrieval/LinkGraph';
+import { QueryPlanner } from './retrieval/QueryPlanner';
+import { openVectorStore } from './stores/VectorStoreFactory';
+import { VaultIndexer } from './VaultIndexer';
+
+const logger = getLogger('RAGSystem');
+
+/**
+ * Room left under the model's input limit for the title and heading
+ * breadcrumb prepended to each chunk
+ */
+const BREADCRUMB_TOKENS = 32;
+
+const CHECKPOINT_FILE = 'index-checkpoint.json';
+const CONVERSATION_COLLECTION = 'conversations';
+
+export interface RAGSystemContext {
+    providers: ProviderConfig[];
+    pluginDir: string;  // Vault-relative plugin folder (manifest.dir)
+    llm: LLMManager;    // Shares rate limits with chat; runs LLM reranking and query planning
+    saveSettings: () => Promise<void>;
+}
+
+export class RAGSystem {
+    private embeddings?: EmbeddingProvider;
+    private store?: VectorStore;
+    private retriever?: HybridRetriever;
+    private planner?: QueryPlanner;
+    private reranker?: Reranker;
+    private indexer?: VaultIndexer;
+    private job?: IndexingJob;
+    private conversationStore?: VectorStore;
+    private conversationRetriever?: HybridRetriever;
+    private conversations?: ConversationMemory;
+
+    constructor(
+        private app: App,
+        private config: RAGConfig,
+        private context: RAGSystemContext
+    ) {}
+
+    get isReady(): boolean {
+        return this.indexer !== undefined;
+    }
+
+    /**
+     * The full-vault indexing job. Undefined until initialize().
+     */
+    get indexingJob(): IndexingJob | undefined {
+        return this.job;
+    }
+
+    async initialize(): Promise<void> {
+        const embeddings = createEmbeddingProvider(this.config, {
+            app: this.app,
+            providers: this.context.providers,
+            pluginDir: this.context.pluginDir,
+            scheduler: this.context.llm.getScheduler(),
+            usageLedger: this.context.llm.getUsageLedger()
+        });
+        await embeddings.initialize();
+        this.embeddings = embeddings;
+
+        this.store = await openVectorStore(this.config, {
+            model: embeddings.getModelId(),
+            dimensions: embeddings.getDimensions()
+        }, { app: this.app, pluginDir: this.context.pluginDir });
+
+        this.retriever = new HybridRetriever(this.store, embeddings, this.getRetrieverOptions(this.config));
+        this.retriever.setLinkGraph(new LinkGraph(this.app.metadataCache));
+        this.planner = new QueryPlanner(this.context.llm);
+
+        // Search works without reranking; the failure has been logged
+        await this.reloadReranker().catch(() => undefined);
+
+        const chunker = new MarkdownChunker({
+            maxTokens: Math.min(DEFAULT_CHUNKER_OPTIONS.maxTokens, embeddings.getMaxInputTokens() - BREADCRUMB_TOKENS),
+            model: embeddings.getModelId()
+        });
+
+        this.indexer = new VaultIndexer(this.app, this.config, {
+            chunker,
+            embeddings,
+            store: this.store,
+            retriever: this.retriever
+        }, this.context.saveSettings);
+
+        if (this.config.indexConversations) {
+            this.conversationStore = await openVectorStore(this.config, {
+                model: embeddings.getModelId(),
+                dimensions: embeddings.getDimensions()
+            }, { app: this.app, pluginDir: this.context.pluginDir, collection: CONVERSATION_COLLECTION });
+            this.conversationRetriever = new HybridRetriever(this.conversationStore, embeddings, this.getRetrieverOptions(this.config));
+            this.conversationRetriever.setReranker(this.reranker);
+            this.conversations = new ConversationMemory({
+                chunker,
+                embeddings,
+                store: this.conversationStore,
+                retriever: this.conversationRetriever
+            });
+        }
+
+        this.job = new IndexingJob(this.app, this.indexer, {
+            checkpointPath: joinPath(this.context.pluginDir, CHECKPOINT_FILE),
+            model: embeddings.getModelId()
+        });
+
+        logger.info(`RAG system ready (${this.store.backend}, ${embeddings.getModelId()})`);
+
+        // Pick up a run interrupted by the last shutdown
+        if (await this.job.hasCheckpoint()) {
+            this.startIndexing();
+        }
+    }
+
+    /**
+     * Index the whole vault in the background, or return the run in progress
+     */
+    startIndexing(): Promise<void> {
+        if (!this.job) {
+            return Promise.reject(new RAGError('RAG system used before initialize()'));
+        }
+
+        const run = this.job.start();
+        run.catch(error => logger.error('Vault indexing failed:', error));
+        return run;
+    }
+
+    async search(query: string, options: RetrievalOptions): Promise<RetrievalResult[]> {
+        if (!this.retriever) {
+            throw new RAGError('RAG system used before initialize()');
+        }
+        return this.retriever.search(query, options);
+    }
+
+    /**
+     * Search for a chat message. With planning options the message is first
+     * rewritten against the conversation and expanded into alternate queries.
+     *
+     * @param history Earlier messages of the conversation, oldest first
+     */
+    async searchForMessage(
+        message: string,
+        history: Message[],
+        options: RetrievalOptions,
+        planning?: QueryPlanningOptions
+    ): Promise<RetrievalResult[]> {
+        if (!planning || !this.planner) {
+            return this.search(message, options);
+        }
+
+        const plan = await this.planner.plan(message, history, planning, options.signal);
+        logger.debug(`Planned query "${plan.query}" with ${plan.alternates.length} alternates`);
+        return this.search(plan.query, {
+            ...options,
+            alternateQueries: [...options.alternateQueries ?? [], ...plan.alternates]
+        });
+    }
+
+    /**
+     * Search for a chat message with an agent's retrieval settings, metadata
+     * filters and query planning
+     *
+     * @throws ValidationError when the agent's metadata filters are malformed
+     */
+    async searchForAgent(
+        agent: RetrievalAgent,
+        message: string,
+        history: Message[],
+        signal?: AbortSignal
+    ): Promise<RetrievalResult[]> {
+        const planning = 'retrievalSettings' in agent
+            ? agent.retrievalSettings.queryPlanning
+            : 'createdAt' in agent ? agent.ragConfig?.queryPlanning : undefined;
+
+        return this.searchForMessage(message, history, { ...getAgentRetrievalOptions(agent, this.config), signal }, planning);
+    }
+
+    /**
+     * Past conversation messages matching the query, for citing earlier
+     * discussions. Empty when conversation indexing is off.
+     */
+    async recallConversations(query: string, options: ConversationRecallOptions): Promise<ConversationRecall[]> {
+        if (!this.retriever) {
+            throw new RAGError('RAG system used before initialize()');
+        }
+        return this.conversations?.recall(query, options) ?? [];
+    }
+
+    /**
+     * Index, archive or forget conversation messages as conversations change
+     */
+    handleConversationEvent(event: ConversationEvent): void {
+        this.conversations?.handleEvent(event)
+            .catch(error => logger.error('Conversation indexing failed:', error));
+    }
+
+    /**
+     * Index every stored conversation and forget deleted ones, e.g. after
+     * conversations were loaded
+     */
+    async syncConversations(conversations: Conversation[]): Promise<void> {
+        await this.conversations?.sync(conversations);
+    }
+
+    handleFileChange(file: TAbstractFile): void {
+        if (this.config.autoIndex && file instanceof TFile) {
+            this.indexer?.queueIndex(file.path);
+        }
+    }
+
+    handleFileDelete(file: TAbstractFile): void {
+        if (this.config.autoIndex && file instanceof TFile) {
+            this.indexer?.queueDelete(file.path);
+        }
+    }
+
+    handleFileRename(file: TAbstractFile, oldPath: string): void {
+        if (this.config.autoIndex && file instanceof TFile) {
+            this.indexer?.queueRename(file.path, oldPath);
+        }
+    }
+
+    /**
+     * Apply changed search and indexing settings. Embedding and store
+     * changes take effect on the next initialize().
+     */
+    updateConfig(config: RAGConfig): void {
+        this.config = config;
+        this.indexer?.updateConfig(config);
+        this.retriever?.updateOptions(this.getRetrieverOptions(config));
+        this.conversationRetriever?.updateOptions(this.getRetrieverOptions(config));
+    }
+
+    /**
+     * Load the configured reranker, replacing the current one. If it fails
+     * to load, search continues without reranking and the error is rethrown.
+     */
+    async reloadReranker(): Promise<void> {
+        const previous = this.reranker;
+        this.reranker = undefined;
+        this.retriever?.setReranker(undefined);
+        this.conversationRetriever?.setReranker(undefined);
+        await previous?.dispose();
+
+        try {
+            const reranker = createReranker(this.config, {
+                app: this.app,
+                pluginDir: this.context.pluginDir,
+                llm: this.context.llm
+            });
+            await reranker?.initialize();
+            this.reranker = reranker;
+            this.retriever?.setReranker(reranker);
+            this.conversationRetriever?.setReranker(reranker);
+        } catch (error) {
+            logger.error('Failed to load reranker; results will not be reranked:', error);
+            throw error;
+        }
+    }
+
+    private getRetrieverOptions(config: RAGConfig): HybridRetrieverOptions {
+        return {
+            hybridEnabled: config.hybridSearchEnabled,
+            keywordWeight: config.keywordWeight,
+            rerankCandidates: config.rerankCandidates
+        };
+    }
+
+    async close(): Promise<void> {
+        await this.job?.stop();
+        if (this.indexer) {
+            await this.indexer.flush().catch(error => logger.error('Failed to flush pending index updates:', error));
+            this.indexer.dispose();
+        }
+        await this.conversations?.flush();
+        await this.store?.close();
+        await this.conversationStore?.close();
+        await this.embeddings?.dispose();
+        await this.reranker?.dispose();
+
+        this.job = undefined;
+        this.indexer = undefined;
+        this.retriever = undefined;
+        this.conversations = undefined;
+        this.conversationRetriever = undefined;
+        this.conversationStore = undefined;
+        this.reranker = undefined;
+        this.store = undefined;
+        this.embeddings = undefined;
+    }
+}
@@ -0,0 +1,46 @@
+/**
+ * Transformers.js Runtime
+ * Loads Transformers.js configured for offline use. Its settings are
+ * global, so every local model (embeddings, reranking) loads through here.
+ */
+
+/**
+ * The subset of Transformers.js `env` we configure. Its typings declare
+ * these as read-only re-exports, but they are plain mutable settings.
+ */
+interface TransformersEnv {
+    allowRemoteModels: boolean;
+    allowLocalModels: boolean;
+    localModelPath: string;
+    useBrowserCache: boolean;
+    useFSCache: boolean;
+    backends: { onnx: { wasm: { wasmPaths?: string; numThreads?: number } } };
+}
+
+export interface TransformersRuntimeOptions {
+    modelPath: string;   // Absolute directory holding <model>/onnx/* files
+    wasmPath: string;    // Absolute directory holding the onnxruntime .wasm files
+}
+
+/**
+ * Import Transformers.js (lazily: the runtime is large and only needed for
+ * local models) and point it at models on disk
+ */
+export async function loadTransformers(options: TransformersRuntimeOptions): Promise<typeof import('@xenova/transformers')> {
+    const transformers = await import('@xenova/transformers');
+    const env = transformers.env as unknown as TransformersEnv;
+
+    // Never reach out to the Hugging Face hub; models must already be on disk
+    env.allowRemoteModels = false;
+    env.allowLocalModels = true;
+    env.localModelPath = options.modelPath.replace(/\/?$/, '/');
+    env.useBrowserCache = false;
+    env.useFSCache = false;
+
+    // Left unset, onnxruntime fetches its .wasm files from a CDN. Threads would
+    // need the threaded builds and a worker script, which are not shipped.
+    env.backends.onnx.wasm.wasmPaths = options.wasmPath.replace(/\/?$/, '/');
+    env.backends.onnx.wasm.numThreads = 1;
+
+    return transformers;
+}
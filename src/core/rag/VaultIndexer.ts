@@ -0,0 +1,333 @@
+/**
+ * Vault Indexer
+ * Keeps the vector store in step with the vault. Vault events are
+ * debounced and processed in order; only chunks whose content changed are
+ * re-embedded, and renames move existing vectors.
+ */
+
+import { App, CachedMetadata, getAllTags, TFile } from 'obsidian';
+import { EmbeddingProvider } from '../../types/Embedding';
+import { NoteChunk, VectorRecord, VectorStore } from '../../types/RAG';
+import { RAGConfig } from '../../types/Settings';
+import { getLogger } from '../../utils/logger';
+import { getFileName, isPathAllowed, isPathInFolder, matchesGlob } from '../../utils/PathUtils';
+import { MarkdownChunker } from './MarkdownChunker';
+import { HybridRetriever } from './retrieval/HybridRetriever';
+
+const logger = getLogger('VaultIndexer');
+
+const DEBOUNCE_MS = 2000;
+
+type PendingChange =
+    | { kind: 'index' }
+    | { kind: 'delete' }
+    | { kind: 'rename'; from: string; reindex: boolean };
+
+export interface IndexFileResult {
+    chunks: number;
+    embedded: number;  // Chunks sent to the embedding model
+    reused: number;    // Chunks whose vectors were kept
+}
+
+export interface VaultIndexerDependencies {
+    chunker: MarkdownChunker;
+    embeddings: EmbeddingProvider;
+    store: VectorStore;           // Read side
+    retriever: HybridRetriever;   // Write side; keeps the keyword index in step
+}
+
+export class VaultIndexer {
+    private pending: Map<string, PendingChange> = new Map();
+    private timer?: ReturnType<typeof setTimeout>;
+    private processing: Promise<void> = Promise.resolve();
+
+    /**
+     * @param onIndexed Called after each batch, once lastIndexTime and
+     * totalIndexedFiles have been updated on the config, to persist them
+     */
+    constructor(
+        private app: App,
+        private config: RAGConfig,
+        private deps: VaultIndexerDependencies,
+        private onIndexed?: () => Promise<void>
+    ) {}
+
+    updateConfig(config: RAGConfig): void {
+        this.config = config;
+    }
+
+    /**
+     * A file was created or modified
+     */
+    queueIndex(path: string): void {
+        const previous = this.pending.get(path);
+        if (previous?.kind === 'rename') {
+            previous.reindex = true;
+        } else {
+            this.pending.set(path, { kind: 'index' });
+        }
+        this.schedule();
+    }
+
+    queueDelete(path: string): void {
+        const previous = this.pending.get(path);
+
+        // The records still live under the pre-rename path
+        if (previous?.kind === 'rename') {
+            this.pending.set(previous.from, { kind: 'delete' });
+        }
+        this.pending.set(path, { kind: 'delete' });
+        this.schedule();
+    }
+
+    queueRename(path: string, oldPath: string): void {
+        const previous = this.pending.get(oldPath);
+        this.pending.delete(oldPath);
+
+        this.pending.set(path, {
+            kind: 'rename',
+            from: previous?.kind === 'rename' ? previous.from : oldPath,
+            reindex: previous?.kind === 'index' || (previous?.kind === 'rename' && previous.reindex)
+        });
+        this.schedule();
+    }
+
+    /**
+     * Process queued changes now. Resolves when the queue is empty.
+     */
+    flush(): Promise<void> {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+
+        const batch = [...this.pending];
+        this.pending.clear();
+
+        return this.serialize(() => this.processBatch(batch));
+    }
+
+    dispose(): void {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+        this.pending.clear();
+    }
+
+    /**
+     * Whether a file belongs in the index under the current filters
+     */
+    shouldIndex(file: TFile): boolean {
+        if (file.extension !== 'md' || isPathInFolder(file.path, this.app.vault.configDir)) {
+            return false;
+        }
+
+        if (this.config.excludePatterns?.some(pattern => matchesGlob(file.path, pattern))) {
+            return false;
+        }
+
+        if (!isPathAllowed(file.path, this.config.folderFilters)) {
+            return false;
+        }
+
+        const tagFilters = this.config.tagFilters?.map(normalizeTag).filter(tag => tag.length > 0);
+        if (tagFilters && tagFilters.length > 0) {
+            const cache = this.app.metadataCache.getFileCache(file);
+            const tags = (cache ? getAllTags(cache) ?? [] : []).map(normalizeTag);
+            if (!tagFilters.some(tag => tags.includes(tag))) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Index a file outside the event queue. Runs after queued batches so the
+     * two never write the same file at once.
+     */
+    indexFile(file: TFile, signal?: AbortSignal): Promise<IndexFileResult> {
+        return this.serialize(() => this.updateFile(file, signal));
+    }
+
+    removeFile(path: string): Promise<number> {
+        return this.serialize(() => this.deps.retriever.deleteByFile(path));
+    }
+
+    getIndexedFilePaths(): Promise<string[]> {
+        return this.deps.store.getFilePaths();
+    }
+
+    /**
+     * Update the index after each batch: record stats and let the owner
+     * persist them
+     */
+    async recordStats(): Promise<void> {
+        const stats = await this.deps.store.getStats();
+        this.config.lastIndexTime = Date.now();
+        this.config.totalIndexedFiles = stats.fileCount;
+        await this.onIndexed?.();
+    }
+
+    /**
+     * Chunk and embed a file, reusing vectors of chunks whose content is
+     * unchanged since the last index
+     */
+    private async updateFile(file: TFile, signal?: AbortSignal): Promise<IndexFileResult> {
+        signal?.throwIfAborted();
+
+        const content = await this.app.vault.cachedRead(file);
+        const chunks = this.deps.chunker.chunk(file.path, content);
+
+        if (chunks.length === 0) {
+            await this.deps.retriever.deleteByFile(file.path);
+            return { chunks: 0, embedded: 0, reused: 0 };
+        }
+
+        const hashes = await Promise.all(chunks.map(hashChunk));
+        const existing = new Map<string, number[]>();
+        for (const record of await this.deps.store.getRecordsByFile(file.path)) {
+            if (record.contentHash) {
+                existing.set(record.contentHash, record.vector);
+            }
+        }
+
+        // Embed each new hash once, even if the same text appears twice
+        const missing = [...new Set(hashes.filter(hash => !existing.has(hash)))];
+        if (missing.length > 0) {
+            const texts = missing.map(hash => MarkdownChunker.getEmbeddingText(chunks[hashes.indexOf(hash)]));
+            const vectors = await this.deps.embeddings.embed(texts, { signal, priority: 'background' });
+            missing.forEach((hash, i) => existing.set(hash, vectors[i]));
+        }
+
+        // Until the metadata cache has parsed the note, keep the chunker's frontmatter tags
+        const cache = this.app.metadataCache.getFileCache(file);
+
+        const records: VectorRecord[] = chunks.map((chunk, i) => ({
+            ...chunk,
+            contentHash: hashes[i],
+            metadata: {
+                ...chunk.metadata,
+                tags: cache ? getNoteTags(cache) : chunk.metadata.tags,
+                modifiedAt: file.stat.mtime
+            },
+            vector: existing.get(hashes[i])!
+        }));
+
+        await this.deps.retriever.deleteByFile(file.path);
+        await this.deps.retriever.upsert(records);
+
+        return { chunks: chunks.length, embedded: missing.length, reused: chunks.length - missing.length };
+    }
+
+    /**
+     * Run a task after every earlier one, whether or not they failed
+     */
+    private serialize<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.processing.then(task);
+        this.processing = result.then(() => undefined, () => undefined);
+        return result;
+    }
+
+    private schedule(): void {
+        clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.flush().catch(error => logger.error('Indexing failed:', error));
+        }, DEBOUNCE_MS);
+    }
+
+    private async processBatch(batch: [string, PendingChange][]): Promise<void> {
+        if (batch.length === 0) {
+            return;
+        }
+
+        for (const [path, change] of batch) {
+            try {
+                await this.processChange(path, change);
+            } catch (error) {
+                logger.error(`Failed to index ${path}:`, error);
+            }
+        }
+
+        await this.recordStats();
+        logger.debug(`Processed ${batch.length} vault changes`);
+    }
+
+    private async processChange(path: string, change: PendingChange): Promise<void> {
+        if (change.kind === 'delete') {
+            await this.deps.retriever.deleteByFile(path);
+            return;
+        }
+
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            await this.deps.retriever.deleteByFile(path);
+            if (change.kind === 'rename') {
+                await this.deps.retriever.deleteByFile(change.from);
+            }
+            return;
+        }
+
+        if (!this.shouldIndex(file)) {
+            await this.deps.retriever.deleteByFile(change.kind === 'rename' ? change.from : path);
+            return;
+        }
+
+        if (change.kind === 'rename') {
+            const moved = await this.moveRecords(change.from, file);
+            if (moved && !change.reindex) {
+                return;
+            }
+        }
+
+        const result = await this.updateFile(file);
+        logger.debug(`Indexed ${path}: ${result.embedded} embedded, ${result.reused} reused`);
+    }
+
+    /**
+     * Re-key a renamed file's records without re-embedding. Returns false if
+     * the old path had nothing indexed.
+     */
+    private async moveRecords(from: string, file: TFile): Promise<boolean> {
+        const records = await this.deps.store.getRecordsByFile(from);
+        if (records.length === 0) {
+            return false;
+        }
+
+        const oldTitle = getFileName(from);
+        const moved = records.map(record => ({
+            ...record,
+            id: `${file.path}#${record.chunkIndex}`,
+            filePath: file.path,
+            metadata: {
+                ...record.metadata,
+                // Titles taken from frontmatter don't change with the file name
+                title: record.metadata.title === oldTitle ? file.basename : record.metadata.title
+            }
+        }));
+
+        await this.deps.retriever.deleteByFile(from);
+        await this.deps.retriever.upsert(moved);
+        return true;
+    }
+}
+
+/**
+ * Content identity of a chunk. The note title is left out so renamed notes
+ * keep matching their stored vectors.
+ */
+export async function hashChunk(chunk: NoteChunk): Promise<string> {
+    const data = new TextEncoder().encode(`${chunk.headingPath.join('\u0000')}\n${chunk.content}`);
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+    return Array.from(digest.slice(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Frontmatter and inline #tags of a note, without the '#', so tag filters
+ * match either kind
+ */
+function getNoteTags(cache: CachedMetadata): string[] | undefined {
+    const tags = [...new Set((getAllTags(cache) ?? []).map(tag => tag.replace(/^#/, '')))];
+    return tags.length > 0 ? tags : undefined;
+}
+
+function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#/, '').toLowerCase();
+}
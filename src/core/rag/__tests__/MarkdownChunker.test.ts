@@ -0,0 +1,125 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { TokenCounter } from '../../llm/tokens/TokenCounter';
+import { MarkdownChunker } from '../MarkdownChunker';
+
+/**
+ * One token per whitespace-separated word, so split points are easy to follow
+ */
+class WordCounter extends TokenCounter {
+    countText(text: string): number {
+        return text.split(/\s+/).filter(Boolean).length;
+    }
+}
+
+function createChunker(maxTokens: number, overlapTokens = 0): MarkdownChunker {
+    return new MarkdownChunker({ maxTokens, overlapTokens }, new WordCounter());
+}
+
+function ranges(chunks: Array<{ startLine: number; endLine: number }>): Array<[number, number]> {
+    return chunks.map(chunk => [chunk.startLine, chunk.endLine]);
+}
+
+const projectPlan = readFileSync(join(__dirname, 'fixtures', 'project-plan.md'), 'utf8');
+
+describe('MarkdownChunker', () => {
+    it('chunks a note by heading with exact line ranges', () => {
+        const chunks = createChunker(1000).chunk('Plans/Project.md', projectPlan);
+
+        expect(ranges(chunks)).toEqual([[5, 8], [10, 21], [25, 27], [29, 31]]);
+        expect(chunks.map(chunk => chunk.headingPath)).toEqual([
+            ['Overview'],
+            ['Overview', 'Setup'],
+            ['Overview', 'Empty', 'Deep'],
+            ['Notes']
+        ]);
+        expect(chunks.map(chunk => chunk.id)).toEqual([0, 1, 2, 3].map(index => `Plans/Project.md#${index}`));
+    });
+
+    it('keeps code fences and tables intact', () => {
+        const [, setup] = createChunker(1000).chunk('Plans/Project.md', projectPlan);
+
+        expect(setup.content).toBe([
+            '## Setup',
+            '```ts',
+            'const a = 1;',
+            '',
+            'const b = 2;',
+            '```',
+            '| Name | Owner |',
+            '| --- | --- |',
+            '| Build | Ann |',
+            '| Ship | Bo |'
+        ].join('\n'));
+    });
+
+    it('records frontmatter as metadata and leaves it out of the content', () => {
+        const [overview] = createChunker(1000).chunk('Plans/Project.md', projectPlan);
+
+        expect(overview.content).toBe('# Overview\nIntro paragraph one.\nContinues here.');
+        expect(overview.metadata).toEqual({
+            title: 'Project Plan',
+            tags: ['planning', 'q3'],
+            frontmatter: { title: 'Project Plan', tags: ['planning', 'q3'] }
+        });
+    });
+
+    it('falls back to the file name without a frontmatter title', () => {
+        const [chunk] = createChunker(1000).chunk('Daily/2024-01-01.md', 'Went for a walk.');
+
+        expect(chunk.metadata.title).toBe('2024-01-01');
+        expect(chunk.headingPath).toEqual([]);
+    });
+
+    it('carries trailing prose forward as overlap', () => {
+        const note = ['# Log', '', 'one two three', '', 'four five six', '', 'seven eight nine'].join('\n');
+        const chunks = createChunker(8, 3).chunk('Log.md', note);
+
+        expect(ranges(chunks)).toEqual([[1, 5], [5, 7]]);
+        expect(chunks[1].content).toBe('four five six\nseven eight nine');
+        expect(chunks[1].headingPath).toEqual(['Log']);
+    });
+
+    it('never repeats code as overlap', () => {
+        const note = ['# Snippet', '', '```', 'x', '```', '', 'after the code block'].join('\n');
+        const chunks = createChunker(6, 6).chunk('Snippet.md', note);
+
+        expect(ranges(chunks)).toEqual([[1, 5], [7, 7]]);
+        expect(chunks[1].content).toBe('after the code block');
+    });
+
+    it('reopens the fence in every piece of an oversized code block', () => {
+        const note = ['# Code', '', '```js', 'a1 a2', 'b1 b2', 'c1 c2', 'd1 d2', '```'].join('\n');
+        const chunks = createChunker(5).chunk('Code.md', note);
+
+        expect(ranges(chunks)).toEqual([[3, 4], [5, 5], [6, 6], [7, 8]]);
+        expect(chunks.map(chunk => chunk.content)).toEqual([
+            '```js\na1 a2\n```',
+            '```js\nb1 b2\n```',
+            '```js\nc1 c2\n```',
+            '```js\nd1 d2\n```'
+        ]);
+        expect(chunks.every(chunk => chunk.headingPath[0] === 'Code')).toBe(true);
+    });
+
+    it('repeats the header rows in every piece of an oversized table', () => {
+        const note = ['| A | B |', '| --- | --- |', '| r1 | x |', '| r2 | y |', '| r3 | z |'].join('\n');
+        const chunks = createChunker(15).chunk('Table.md', note);
+
+        expect(ranges(chunks)).toEqual([[1, 3], [4, 4], [5, 5]]);
+        expect(chunks.map(chunk => chunk.content.split('\n').slice(0, 2))).toEqual([
+            ['| A | B |', '| --- | --- |'],
+            ['| A | B |', '| --- | --- |'],
+            ['| A | B |', '| --- | --- |']
+        ]);
+        expect(chunks[2].content.split('\n')[2]).toBe('| r3 | z |');
+    });
+
+    it('splits a long line at sentence boundaries and keeps its line number', () => {
+        const note = ['# Essay', '', 'Alpha beta. Gamma delta. Epsilon zeta.'].join('\n');
+        const chunks = createChunker(4).chunk('Essay.md', note);
+
+        expect(ranges(chunks)).toEqual([[3, 3], [3, 3]]);
+        expect(chunks.map(chunk => chunk.content)).toEqual(['Alpha beta. Gamma delta.', 'Epsilon zeta.']);
+    });
+});
@@ -0,0 +1,203 @@
+import 'fake-indexeddb/auto';
+import { App, TFile } from 'obsidian';
+import { EmbeddingProvider } from '../../../types/Embedding';
+import { RAGConfig } from '../../../types/Settings';
+import { MarkdownChunker } from '../MarkdownChunker';
+import { HybridRetriever } from '../retrieval/HybridRetriever';
+import { IndexedDBVectorStore } from '../stores/IndexedDBVectorStore';
+import { VaultIndexer } from '../VaultIndexer';
+
+const config: RAGConfig = {
+    enabled: true,
+    backend: 'indexeddb',
+    embeddingProvider: 'local',
+    autoIndex: true,
+    defaultTopK: 5,
+    defaultThreshold: 0,
+    hybridSearchEnabled: false,
+    indexConversations: false
+};
+
+/**
+ * Notes by path; files exist only while they have content here
+ */
+class FakeVault {
+    configDir = '.obsidian';
+    notes = new Map<string, string>();
+
+    getAbstractFileByPath(path: string): TFile | null {
+        if (!this.notes.has(path)) {
+            return null;
+        }
+        const file = new TFile();
+        file.path = path;
+        file.name = path.split('/').pop()!;
+        file.basename = file.name.replace(/\.md$/, '');
+        return file;
+    }
+
+    async cachedRead(file: TFile): Promise<string> {
+        return this.notes.get(file.path) ?? '';
+    }
+
+    /**
+     * Move a note the way Obsidian does before firing the rename event
+     */
+    move(from: string, to: string, content = this.notes.get(from)!): void {
+        this.notes.delete(from);
+        this.notes.set(to, content);
+    }
+}
+
+let storeCount = 0;
+
+async function setup() {
+    const vault = new FakeVault();
+    const app = { vault, metadataCache: { getFileCache: () => null } } as unknown as App;
+
+    const embed = jest.fn(async (texts: string[]) => texts.map(text => [1, text.length]));
+    const embeddings = { id: 'fake', type: 'local', embed, getModelId: () => 'fake' } as unknown as EmbeddingProvider;
+
+    const store = new IndexedDBVectorStore(`vault-indexer-${++storeCount}`, { model: 'fake', dimensions: 2 });
+    await store.initialize();
+    const retriever = new HybridRetriever(store, embeddings, { hybridEnabled: false });
+
+    const indexer = new VaultIndexer(app, { ...config }, {
+        chunker: new MarkdownChunker(),
+        embeddings,
+        store,
+        retriever
+    });
+
+    const index = async (path: string, content: string) => {
+        vault.notes.set(path, content);
+        await indexer.indexFile(vault.getAbstractFileByPath(path)!);
+        embed.mockClear();
+    };
+
+    return { vault, embed, store, indexer, index };
+}
+
+const NOTE = '# Plan\n\nShip the release.\n\n# Risks\n\nThe build is slow.';
+
+describe('VaultIndexer', () => {
+    describe('queued changes', () => {
+        it('indexes a repeatedly modified file once', async () => {
+            const { vault, embed, store, indexer } = await setup();
+            vault.notes.set('a.md', NOTE);
+
+            indexer.queueIndex('a.md');
+            indexer.queueIndex('a.md');
+            await indexer.flush();
+
+            expect(embed).toHaveBeenCalledTimes(1);
+            expect(await store.getFilePaths()).toEqual(['a.md']);
+        });
+
+        it('moves vectors on rename without re-embedding', async () => {
+            const { vault, embed, store, indexer, index } = await setup();
+            await index('a.md', NOTE);
+
+            vault.move('a.md', 'b.md');
+            indexer.queueRename('b.md', 'a.md');
+            await indexer.flush();
+
+            expect(embed).not.toHaveBeenCalled();
+            expect(await store.getFilePaths()).toEqual(['b.md']);
+            const records = await store.getRecordsByFile('b.md');
+            expect(records.map(record => record.id)).toEqual(['b.md#0', 'b.md#1']);
+            expect(records.every(record => record.metadata.title === 'b')).toBe(true);
+        });
+
+        it('re-indexes a file modified after a rename, reusing unchanged chunks', async () => {
+            const { vault, embed, store, indexer, index } = await setup();
+            await index('a.md', NOTE);
+
+            vault.move('a.md', 'b.md', NOTE.replace('slow', 'fast'));
+            indexer.queueRename('b.md', 'a.md');
+            indexer.queueIndex('b.md');
+            await indexer.flush();
+
+            expect(embed).toHaveBeenCalledTimes(1);
+            expect(embed.mock.calls[0][0]).toEqual(['b > Risks\n\n# Risks\nThe build is fast.']);
+            expect(await store.getFilePaths()).toEqual(['b.md']);
+        });
+
+        it('re-indexes a file modified before a rename', async () => {
+            const { vault, embed, store, indexer, index } = await setup();
+            await index('a.md', NOTE);
+
+            vault.notes.set('a.md', NOTE.replace('slow', 'fast'));
+            indexer.queueIndex('a.md');
+            vault.move('a.md', 'b.md');
+            indexer.queueRename('b.md', 'a.md');
+            await indexer.flush();
+
+            expect(embed).toHaveBeenCalledTimes(1);
+            const records = await store.getRecordsByFile('b.md');
+            expect(records[1].content).toBe('# Risks\nThe build is fast.');
+            expect(await store.getFilePaths()).toEqual(['b.md']);
+        });
+
+        it('deletes the original records when a renamed file is deleted', async () => {
+            const { vault, store, indexer, index } = await setup();
+            await index('a.md', NOTE);
+
+            vault.move('a.md', 'b.md');
+            indexer.queueRename('b.md', 'a.md');
+            vault.notes.delete('b.md');
+            indexer.queueDelete('b.md');
+            await indexer.flush();
+
+            expect(await store.getFilePaths()).toEqual([]);
+        });
+
+        it('follows chained renames back to the indexed path', async () => {
+            const { vault, embed, store, indexer, index } = await setup();
+            await index('a.md', NOTE);
+
+            vault.move('a.md', 'b.md');
+            indexer.queueRename('b.md', 'a.md');
+            vault.move('b.md', 'c.md');
+            indexer.queueRename('c.md', 'b.md');
+            await indexer.flush();
+
+            expect(embed).not.toHaveBeenCalled();
+            expect(await store.getFilePaths()).toEqual(['c.md']);
+        });
+    });
+
+    describe('indexFile', () => {
+        it('embeds only chunks whose content changed', async () => {
+            const { vault, embed, indexer, index } = await setup();
+            await index('a.md', NOTE);
+
+            vault.notes.set('a.md', NOTE.replace('slow', 'fast'));
+            const result = await indexer.indexFile(vault.getAbstractFileByPath('a.md')!);
+
+            expect(result).toEqual({ chunks: 2, embedded: 1, reused: 1 });
+            expect(embed.mock.calls[0][0]).toEqual(['a > Risks\n\n# Risks\nThe build is fast.']);
+        });
+
+        it('embeds repeated text once', async () => {
+            const { vault, embed, indexer } = await setup();
+            vault.notes.set('a.md', '# Todo\n\nCall Sam.\n\n# Todo\n\nCall Sam.');
+
+            const result = await indexer.indexFile(vault.getAbstractFileByPath('a.md')!);
+
+            expect(result).toEqual({ chunks: 2, embedded: 1, reused: 1 });
+            expect(embed.mock.calls[0][0]).toHaveLength(1);
+        });
+
+        it('removes a file that no longer has any content', async () => {
+            const { vault, store, indexer, index } = await setup();
+            await index('a.md', NOTE);
+
+            vault.notes.set('a.md', '# Empty');
+            const result = await indexer.indexFile(vault.getAbstractFileByPath('a.md')!);
+
+            expect(result).toEqual({ chunks: 0, embedded: 0, reused: 0 });
+            expect(await store.getFilePaths()).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * Base Embedding Provider
+ * Shared batching, input truncation and lifecycle checks for embedding backends
+ */
+
+import { EmbeddingProvider, EmbedOptions } from '../../../types/Embedding';
+import { ProviderError, ProviderErrorCode } from '../../../types/Provider';
+import { TokenCounter } from '../../llm/tokens/TokenCounter';
+
+const tokenCounter = new TokenCounter();
+
+export abstract class BaseEmbeddingProvider implements EmbeddingProvider {
+    abstract readonly type: 'openai' | 'local';
+
+    protected initialized = false;
+    protected dimensions = 0;
+
+    constructor(
+        public id: string,
+        protected batchSize: number
+    ) {}
+
+    abstract initialize(): Promise<void>;
+
+    abstract getModelId(): string;
+
+    abstract getMaxInputTokens(): number;
+
+    /**
+     * Embed one batch (at most batchSize already-truncated inputs)
+     */
+    protected abstract embedBatch(texts: string[], options: EmbedOptions): Promise<number[][]>;
+
+    getDimensions(): number {
+        return this.dimensions;
+    }
+
+    async dispose(): Promise<void> {
+        this.initialized = false;
+    }
+
+    async embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+        this.ensureInitialized();
+
+        const inputs = texts.map(text => this.truncate(text));
+        const vectors: number[][] = [];
+
+        for (let i = 0; i < inputs.length; i += this.batchSize) {
+            if (options.signal?.aborted) {
+                throw new ProviderError('Embedding cancelled', this.id, ProviderErrorCode.CANCELLED);
+            }
+
+            vectors.push(...await this.embedBatch(inputs.slice(i, i + this.batchSize), options));
+        }
+
+        if (vectors.length > 0 && !this.dimensions) {
+            this.dimensions = vectors[0].length;
+        }
+
+        return vectors;
+    }
+
+    /**
+     * Trim text to the model's input limit. Empty strings are replaced with a
+     * single space since some backends reject empty input.
+     */
+    protected truncate(text: string): string {
+        if (!text.trim()) {
+            return ' ';
+        }
+
+        const maxTokens = this.getMaxInputTokens();
+        let tokens = tokenCounter.countText(text, this.getModelId());
+        let result = text;
+
+        // Token estimates are approximate, so shrink proportionally until it fits
+        while (tokens > maxTokens && result.length > 0) {
+            result = result.substring(0, Math.floor(result.length * (maxTokens / tokens) * 0.95));
+            tokens = tokenCounter.countText(result, this.getModelId());
+        }
+
+        return result;
+    }
+
+    protected ensureInitialized(): void {
+        if (!this.initialized) {
+            throw new ProviderError(
+                `Embedding provider '${this.id}' used before initialize()`,
+                this.id,
+                ProviderErrorCode.INVALID_REQUEST
+            );
+        }
+    }
+}
@@ -0,0 +1,87 @@
+/**
+ * Embedding Factory
+ * Builds the embedding provider selected in RAG settings
+ */
+
+import { App, FileSystemAdapter } from 'obsidian';
+import { EmbeddingProvider } from '../../../types/Embedding';
+import { ProviderConfig, RAGConfig } from '../../../types/Settings';
+import { ConfigurationError } from '../../../utils/errors';
+import { joinPath } from '../../../utils/PathUtils';
+import { RequestScheduler } from '../../llm/RequestScheduler';
+import { UsageLedger } from '../../usage/UsageLedger';
+import { LocalEmbeddingProvider } from './LocalEmbeddingProvider';
+import { OpenAIEmbeddingProvider } from './OpenAIEmbeddingProvider';
+
+const DEFAULT_LOCAL_MODEL_FOLDER = 'models';
+
+/**
+ * Where the build (esbuild.config.mjs) puts the onnxruntime .wasm files,
+ * relative to the plugin folder
+ */
+const WASM_FOLDER = 'wasm';
+
+export interface EmbeddingFactoryContext {
+    app: App;
+    providers: ProviderConfig[];
+    pluginDir: string;             // Vault-relative plugin folder (manifest.dir)
+    scheduler?: RequestScheduler;  // Shares rate limits with chat requests
+    usageLedger?: UsageLedger;     // Records embedding spend and enforces budgets
+}
+
+/**
+ * Create (but do not initialize) the configured embedding provider
+ */
+export function createEmbeddingProvider(config: RAGConfig, context: EmbeddingFactoryContext): EmbeddingProvider {
+    if (config.embeddingProvider === 'local') {
+        return new LocalEmbeddingProvider('local-embeddings', {
+            model: config.embeddingModel,
+            modelPath: resolveLocalModelPath(config, context),
+            wasmPath: resolveWasmPath(context)
+        });
+    }
+
+    const provider = config.embeddingProviderId
+        ? context.providers.find(p => p.id === config.embeddingProviderId)
+        : context.providers.find(p => p.type === 'openai' && p.enabled);
+
+    if (!provider || provider.type !== 'openai' || !provider.apiKey) {
+        throw new ConfigurationError(
+            'OpenAI embeddings need an enabled OpenAI provider with an API key. ' +
+            'Add one under Provider settings or switch RAG to local embeddings.'
+        );
+    }
+
+    return new OpenAIEmbeddingProvider(provider.id, context.app, {
+        apiKey: provider.apiKey,
+        baseURL: provider.baseURL || provider.endpoint,
+        organization: provider.organization,
+        model: config.embeddingModel,
+        timeoutMs: provider.timeoutMs
+    }, context.scheduler, context.usageLedger);
+}
+
+/**
+ * Transformers.js reads model files from the filesystem, which needs an
+ * absolute path and is only available on desktop
+ */
+export function resolveLocalModelPath(config: RAGConfig, context: Pick<EmbeddingFactoryContext, 'app' | 'pluginDir'>): string {
+    return getFullPath(context, config.localModelPath || DEFAULT_LOCAL_MODEL_FOLDER);
+}
+
+/**
+ * The onnxruntime .wasm files shipped with the plugin, so local models never
+ * fall back to downloading them
+ */
+export function resolveWasmPath(context: Pick<EmbeddingFactoryContext, 'app' | 'pluginDir'>): string {
+    return getFullPath(context, WASM_FOLDER);
+}
+
+function getFullPath(context: Pick<EmbeddingFactoryContext, 'app' | 'pluginDir'>, folder: string): string {
+    const adapter = context.app.vault.adapter;
+    if (!(adapter instanceof FileSystemAdapter)) {
+        throw new ConfigurationError('Local embeddings are only available on desktop');
+    }
+
+    return adapter.getFullPath(joinPath(context.pluginDir, folder));
+}
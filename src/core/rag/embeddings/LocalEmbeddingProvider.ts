@@ -0,0 +1,94 @@
+/**
+ * Local Embedding Provider
+ * Transformers.js feature-extraction pipeline running fully offline from
+ * model files on disk
+ */
+
+import { EmbedOptions, LocalEmbeddingConfig } from '../../../types/Embedding';
+import { ProviderError, ProviderErrorCode } from '../../../types/Provider';
+import { getLogger } from '../../../utils/logger';
+import { loadTransformers } from '../TransformersRuntime';
+import { BaseEmbeddingProvider } from './BaseEmbeddingProvider';
+
+const logger = getLogger('LocalEmbeddingProvider');
+
+const DEFAULT_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const DEFAULT_BATCH_SIZE = 16;
+
+/**
+ * Sequence limits for common sentence-transformer models
+ */
+const MODEL_MAX_TOKENS: Record<string, number> = {
+    'Xenova/all-MiniLM-L6-v2': 256,
+    'Xenova/all-MiniLM-L12-v2': 256,
+    'Xenova/bge-small-en-v1.5': 512,
+    'Xenova/bge-base-en-v1.5': 512,
+    'Xenova/multilingual-e5-small': 512,
+};
+const DEFAULT_MAX_TOKENS = 256;
+
+type FeatureExtractor = ((texts: string[], options: { pooling: 'mean'; normalize: boolean }) => Promise<{ tolist(): number[][] }>)
+    & { dispose(): Promise<void> };
+
+export class LocalEmbeddingProvider extends BaseEmbeddingProvider {
+    readonly type = 'local' as const;
+
+    private extractor?: FeatureExtractor;
+
+    constructor(id: string, private config: LocalEmbeddingConfig) {
+        super(id, config.batchSize ?? DEFAULT_BATCH_SIZE);
+    }
+
+    async initialize(): Promise<void> {
+        if (this.initialized) {
+            return;
+        }
+
+        const transformers = await loadTransformers(this.config);
+
+        try {
+            this.extractor = await transformers.pipeline('feature-extraction', this.getModelId(), {
+                quantized: this.config.quantized ?? true,
+                local_files_only: true
+            }) as unknown as FeatureExtractor;
+        } catch (error) {
+            throw new ProviderError(
+                `Could not load embedding model '${this.getModelId()}' from ${this.config.modelPath}. ` +
+                `Download the model files into that folder to use local embeddings. ` +
+                `(${error instanceof Error ? error.message : String(error)})`,
+                this.id,
+                ProviderErrorCode.MODEL_NOT_FOUND
+            );
+        }
+
+        this.initialized = true;
+
+        // Probe once so dimensions are known before anything is indexed
+        const [probe] = await this.embed(['dimension probe']);
+        this.dimensions = probe.length;
+        logger.info(`Loaded ${this.getModelId()} (${this.dimensions} dimensions)`);
+    }
+
+    getModelId(): string {
+        return this.config.model ?? DEFAULT_MODEL;
+    }
+
+    getMaxInputTokens(): number {
+        return MODEL_MAX_TOKENS[this.getModelId()] ?? DEFAULT_MAX_TOKENS;
+    }
+
+    async dispose(): Promise<void> {
+        await this.extractor?.dispose();
+        this.extractor = undefined;
+        await super.dispose();
+    }
+
+    protected async embedBatch(texts: string[], options: EmbedOptions): Promise<number[][]> {
+        if (options.signal?.aborted) {
+            throw new ProviderError('Embedding cancelled', this.id, ProviderErrorCode.CANCELLED);
+        }
+
+        const output = await this.extractor!(texts, { pooling: 'mean', normalize: true });
+        return output.tolist();
+    }
+}
@@ -0,0 +1,110 @@
+/**
+ * OpenAI Embedding Provider
+ * /embeddings API (also works with OpenAI-compatible endpoints via baseURL)
+ */
+
+import { App } from 'obsidian';
+import { EmbedOptions, OpenAIEmbeddingConfig } from '../../../types/Embedding';
+import { OpenAIProviderConfig, RequestPriority } from '../../../types/Provider';
+import { getLogger } from '../../../utils/logger';
+import { OpenAIProvider } from '../../llm/providers/OpenAIProvider';
+import { RequestScheduler } from '../../llm/RequestScheduler';
+import { UsageLedger } from '../../usage/UsageLedger';
+import { BaseEmbeddingProvider } from './BaseEmbeddingProvider';
+
+const logger = getLogger('OpenAIEmbeddingProvider');
+
+const DEFAULT_MODEL = 'text-embedding-3-small';
+const DEFAULT_BATCH_SIZE = 100;
+const MAX_INPUT_TOKENS = 8191;
+
+const MODEL_DIMENSIONS: Record<string, number> = {
+    'text-embedding-3-small': 1536,
+    'text-embedding-3-large': 3072,
+    'text-embedding-ada-002': 1536,
+};
+
+export class OpenAIEmbeddingProvider extends BaseEmbeddingProvider {
+    readonly type = 'openai' as const;
+
+    private client: OpenAIProvider;
+
+    /**
+     * @param scheduler When given, batches are queued against the provider's
+     * rate limits alongside chat requests
+     * @param usageLedger When given, each batch is checked against the spend
+     * budget and its tokens are recorded
+     */
+    constructor(
+        id: string,
+        private app: App,
+        private config: OpenAIEmbeddingConfig,
+        private scheduler?: RequestScheduler,
+        private usageLedger?: UsageLedger
+    ) {
+        super(id, config.batchSize ?? DEFAULT_BATCH_SIZE);
+        this.client = new OpenAIProvider(id, 'OpenAI Embeddings');
+    }
+
+    async initialize(): Promise<void> {
+        const clientConfig: OpenAIProviderConfig = {
+            apiKey: this.config.apiKey,
+            baseURL: this.config.baseURL,
+            organization: this.config.organization,
+            timeoutMs: this.config.timeoutMs,
+            app: this.app
+        };
+        await this.client.initialize(clientConfig);
+
+        this.dimensions = this.config.dimensions ?? MODEL_DIMENSIONS[this.getModelId()] ?? 0;
+        this.initialized = true;
+        logger.info(`Initialized ${this.getModelId()} embeddings`);
+    }
+
+    getModelId(): string {
+        return this.config.model ?? DEFAULT_MODEL;
+    }
+
+    getMaxInputTokens(): number {
+        return MAX_INPUT_TOKENS;
+    }
+
+    protected async embedBatch(texts: string[], options: EmbedOptions): Promise<number[][]> {
+        const priority = options.priority ?? 'background';
+        const run = async () => {
+            // Checked as each batch starts, so a 'block' budget stops a
+            // vault-wide indexing run part way
+            this.usageLedger?.assertWithinBudget();
+
+            const result = await this.client.createEmbeddings(texts, this.getModelId(), {
+                dimensions: this.config.dimensions,
+                signal: options.signal,
+                timeoutMs: this.config.timeoutMs
+            });
+            this.recordUsage(result.promptTokens, priority);
+            return result.vectors;
+        };
+
+        if (!this.scheduler) {
+            return run();
+        }
+
+        return this.scheduler.schedule(this.id, run, {
+            priority,
+            signal: options.signal
+        });
+    }
+
+    private recordUsage(promptTokens: number, priority: RequestPriority): void {
+        try {
+            this.usageLedger?.record({
+                providerId: this.id,
+                model: this.getModelId(),
+                usage: { promptTokens, completionTokens: 0, totalTokens: promptTokens },
+                priority
+            });
+        } catch (error) {
+            logger.error('Failed to record embedding usage:', error);
+        }
+    }
+}
@@ -0,0 +1,111 @@
+/**
+ * Cross-Encoder Reranker
+ * Scores query/passage pairs with a local Transformers.js cross-encoder
+ * (e.g. ms-marco MiniLM). Slower than vector search but reads the query and
+ * passage together, so it ranks far more precisely.
+ */
+
+import { CrossEncoderConfig, NoteChunk, Reranker } from '../../../types/RAG';
+import { ProviderError, ProviderErrorCode } from '../../../types/Provider';
+import { getLogger } from '../../../utils/logger';
+import { MarkdownChunker } from '../MarkdownChunker';
+import { loadTransformers } from '../TransformersRuntime';
+
+const logger = getLogger('CrossEncoderReranker');
+
+const PROVIDER_ID = 'local-reranker';
+const DEFAULT_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+const DEFAULT_BATCH_SIZE = 8;
+
+type Tokenizer = (texts: string[], options: { text_pair: string[]; padding: boolean; truncation: boolean }) => Record<string, unknown>;
+
+type SequenceClassifier = ((inputs: Record<string, unknown>) => Promise<{ logits: { data: ArrayLike<number>; dims: number[] } }>)
+    & { dispose(): Promise<void> };
+
+export class CrossEncoderReranker implements Reranker {
+    readonly type = 'cross-encoder' as const;
+
+    private tokenizer?: Tokenizer;
+    private model?: SequenceClassifier;
+
+    constructor(private config: CrossEncoderConfig) {}
+
+    async initialize(): Promise<void> {
+        if (this.model) {
+            return;
+        }
+
+        const transformers = await loadTransformers(this.config);
+        const modelId = this.config.model ?? DEFAULT_MODEL;
+
+        try {
+            this.tokenizer = await transformers.AutoTokenizer.from_pretrained(modelId, {
+                local_files_only: true
+            }) as unknown as Tokenizer;
+            this.model = await transformers.AutoModelForSequenceClassification.from_pretrained(modelId, {
+                quantized: this.config.quantized ?? true,
+                local_files_only: true
+            }) as unknown as SequenceClassifier;
+        } catch (error) {
+            throw new ProviderError(
+                `Could not load reranking model '${modelId}' from ${this.config.modelPath}. ` +
+                `Download the model files into that folder, or switch reranking to an LLM. ` +
+                `(${error instanceof Error ? error.message : String(error)})`,
+                PROVIDER_ID,
+                ProviderErrorCode.MODEL_NOT_FOUND
+            );
+        }
+
+        logger.info(`Loaded ${modelId}`);
+    }
+
+    async rerank(query: string, chunks: NoteChunk[], signal?: AbortSignal): Promise<number[]> {
+        if (!this.model || !this.tokenizer) {
+            throw new ProviderError('Reranker used before initialize()', PROVIDER_ID, ProviderErrorCode.INVALID_REQUEST);
+        }
+
+        const batchSize = this.config.batchSize ?? DEFAULT_BATCH_SIZE;
+        const scores: number[] = [];
+
+        for (let i = 0; i < chunks.length; i += batchSize) {
+            if (signal?.aborted) {
+                throw new ProviderError('Reranking cancelled', PROVIDER_ID, ProviderErrorCode.CANCELLED);
+            }
+
+            const passages = chunks.slice(i, i + batchSize).map(chunk => MarkdownChunker.getEmbeddingText(chunk));
+            const inputs = this.tokenizer(passages.map(() => query), {
+                text_pair: passages,
+                padding: true,
+                truncation: true
+            });
+            const { logits } = await this.model(inputs);
+            scores.push(...toRelevance(logits.data, logits.dims[1] ?? 1));
+        }
+
+        return scores;
+    }
+
+    async dispose(): Promise<void> {
+        await this.model?.dispose();
+        this.model = undefined;
+        this.tokenizer = undefined;
+    }
+}
+
+/**
+ * Logits to 0-1 relevance: a sigmoid for single-logit models, the
+ * probability of the "relevant" label for two-label ones
+ */
+function toRelevance(logits: ArrayLike<number>, labels: number): number[] {
+    const scores: number[] = [];
+    for (let row = 0; row < logits.length / labels; row++) {
+        if (labels === 1) {
+            scores.push(1 / (1 + Math.exp(-logits[row])));
+        } else {
+            const relevant = logits[row * labels + 1];
+            const irrelevant = logits[row * labels];
+            scores.push(1 / (1 + Math.exp(irrelevant - relevant)));
+        }
+    }
+    return scores;
+}
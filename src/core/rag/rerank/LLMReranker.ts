@@ -0,0 +1,97 @@
+/**
+ * LLM Reranker
+ * Asks a chat model to grade each candidate's relevance in one structured
+ * request. Needs no local model, at the cost of a round trip per query.
+ */
+
+import { StructuredOutputSpec } from '../../../types/Provider';
+import { NoteChunk, Reranker } from '../../../types/RAG';
+import { LLMManager, ProviderSelection } from '../../llm/LLMManager';
+import { MarkdownChunker } from '../MarkdownChunker';
+
+/**
+ * Passages are cut to this many characters to keep the prompt small
+ */
+const MAX_PASSAGE_CHARS = 1200;
+
+const MAX_GRADE = 10;
+
+const RELEVANCE_SPEC: StructuredOutputSpec = {
+    name: 'passage_relevance',
+    description: 'Relevance grades for the numbered passages.',
+    schema: {
+        type: 'object',
+        properties: {
+            grades: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        passage: { type: 'integer', minimum: 1 },
+                        relevance: { type: 'number', minimum: 0, maximum: MAX_GRADE }
+                    },
+                    required: ['passage', 'relevance']
+                }
+            }
+        },
+        required: ['grades']
+    }
+};
+
+const SYSTEM_PROMPT =
+    'You judge how well passages from a personal knowledge base answer a search query. ' +
+    `Grade every passage from 0 (unrelated) to ${MAX_GRADE} (directly answers the query). ` +
+    'Judge only the passage text; ignore your own knowledge of the topic.';
+
+interface RelevanceGrades {
+    grades: { passage: number; relevance: number }[];
+}
+
+export class LLMReranker implements Reranker {
+    readonly type = 'llm' as const;
+
+    constructor(
+        private llm: LLMManager,
+        private selection?: ProviderSelection
+    ) {}
+
+    async initialize(): Promise<void> {
+        // Providers are managed by the LLM manager
+    }
+
+    async rerank(query: string, chunks: NoteChunk[], signal?: AbortSignal): Promise<number[]> {
+        if (chunks.length === 0) {
+            return [];
+        }
+
+        const passages = chunks
+            .map((chunk, i) => `[${i + 1}] ${truncate(MarkdownChunker.getEmbeddingText(chunk))}`)
+            .join('\n\n');
+
+        const result = await this.llm.completeStructured<RelevanceGrades>({
+            systemPrompt: SYSTEM_PROMPT,
+            messages: [{ role: 'user', content: `Query: ${query}\n\nPassages:\n\n${passages}` }],
+            structuredOutput: RELEVANCE_SPEC,
+            temperature: 0,
+            priority: 'interactive',
+            signal
+        }, this.selection);
+
+        // Ungraded passages count as irrelevant
+        const scores = new Array<number>(chunks.length).fill(0);
+        for (const { passage, relevance } of result.data.grades) {
+            if (passage >= 1 && passage <= chunks.length) {
+                scores[passage - 1] = Math.min(Math.max(relevance / MAX_GRADE, 0), 1);
+            }
+        }
+        return scores;
+    }
+
+    async dispose(): Promise<void> {
+        // Nothing held
+    }
+}
+
+function truncate(text: string): string {
+    return text.length > MAX_PASSAGE_CHARS ? `${text.slice(0, MAX_PASSAGE_CHARS)}…` : text;
+}
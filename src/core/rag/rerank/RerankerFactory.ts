@@ -0,0 +1,38 @@
+/**
+ * Reranker Factory
+ * Builds the reranker selected in RAG settings
+ */
+
+import { App } from 'obsidian';
+import { Reranker } from '../../../types/RAG';
+import { RAGConfig } from '../../../types/Settings';
+import { LLMManager } from '../../llm/LLMManager';
+import { resolveLocalModelPath, resolveWasmPath } from '../embeddings/EmbeddingFactory';
+import { CrossEncoderReranker } from './CrossEncoderReranker';
+import { LLMReranker } from './LLMReranker';
+
+export interface RerankerFactoryContext {
+    app: App;
+    pluginDir: string;  // Vault-relative plugin folder (manifest.dir)
+    llm: LLMManager;
+}
+
+/**
+ * Create (but do not initialize) the configured reranker, or undefined when
+ * reranking is off
+ */
+export function createReranker(config: RAGConfig, context: RerankerFactoryContext): Reranker | undefined {
+    if (!config.rerankEnabled) {
+        return undefined;
+    }
+
+    if (config.reranker === 'llm') {
+        return new LLMReranker(context.llm, config.rerankProviderId ? { providerId: config.rerankProviderId } : undefined);
+    }
+
+    return new CrossEncoderReranker({
+        model: config.rerankModel,
+        modelPath: resolveLocalModelPath(config, context),
+        wasmPath: resolveWasmPath(context)
+    });
+}
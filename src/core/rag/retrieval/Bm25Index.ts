@@ -0,0 +1,177 @@
+/**
+ * BM25 Index
+ * In-memory inverted index for keyword search over chunks. Finds exact
+ * names, identifiers and dates that embeddings tend to blur.
+ */
+
+import { NoteChunk, VectorFilter, VectorStore } from '../../../types/RAG';
+import { getLogger } from '../../../utils/logger';
+import { MarkdownChunker } from '../MarkdownChunker';
+import { FilterableChunk, matchesFilter } from '../stores/BaseVectorStore';
+
+const logger = getLogger('Bm25Index');
+
+export interface Bm25Params {
+    k1: number;  // Term frequency saturation
+    b: number;   // Length normalization
+}
+
+export const DEFAULT_BM25_PARAMS: Bm25Params = {
+    k1: 1.2,
+    b: 0.75,
+};
+
+export interface KeywordMatch {
+    id: string;
+    score: number;  // BM25
+}
+
+interface IndexedDocument extends FilterableChunk {
+    length: number;
+    terms: string[];  // Distinct terms, for removal
+}
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'how',
+    'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that',
+    'the', 'their', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were', 'what',
+    'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your'
+]);
+
+/**
+ * Lowercased letter/number runs without stop words. Dates and identifiers
+ * split on punctuation ("2024-03-15" becomes 2024, 03, 15), which still
+ * ranks the exact date highest since all parts must co-occur.
+ */
+export function tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(token => !STOP_WORDS.has(token));
+}
+
+export class Bm25Index {
+    private documents: Map<string, IndexedDocument> = new Map();
+    private postings: Map<string, Map<string, number>> = new Map();  // term -> chunk id -> frequency
+    private totalLength = 0;
+
+    constructor(private params: Bm25Params = DEFAULT_BM25_PARAMS) {}
+
+    get size(): number {
+        return this.documents.size;
+    }
+
+    /**
+     * Index every chunk in a store, replacing the current contents
+     */
+    async build(store: VectorStore): Promise<void> {
+        const started = Date.now();
+        this.clear();
+        await store.forEach(chunk => this.add(chunk));
+        logger.info(`Indexed ${this.documents.size} chunks for keyword search in ${Date.now() - started}ms`);
+    }
+
+    /**
+     * Add or replace a chunk. Title and headings are indexed with the content.
+     */
+    add(chunk: NoteChunk): void {
+        this.remove(chunk.id);
+
+        const tokens = tokenize(MarkdownChunker.getEmbeddingText(chunk));
+        const frequencies = new Map<string, number>();
+        for (const token of tokens) {
+            frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+        }
+
+        for (const [term, frequency] of frequencies) {
+            let posting = this.postings.get(term);
+            if (!posting) {
+                posting = new Map();
+                this.postings.set(term, posting);
+            }
+            posting.set(chunk.id, frequency);
+        }
+
+        this.documents.set(chunk.id, {
+            filePath: chunk.filePath,
+            length: tokens.length,
+            terms: [...frequencies.keys()],
+            metadata: {
+                tags: chunk.metadata.tags,
+                frontmatter: chunk.metadata.frontmatter,
+                modifiedAt: chunk.metadata.modifiedAt
+            }
+        });
+        this.totalLength += tokens.length;
+    }
+
+    remove(id: string): boolean {
+        const document = this.documents.get(id);
+        if (!document) {
+            return false;
+        }
+
+        for (const term of document.terms) {
+            const posting = this.postings.get(term);
+            posting?.delete(id);
+            if (posting?.size === 0) {
+                this.postings.delete(term);
+            }
+        }
+
+        this.documents.delete(id);
+        this.totalLength -= document.length;
+        return true;
+    }
+
+    removeFile(filePath: string): number {
+        let removed = 0;
+        for (const [id, document] of [...this.documents]) {
+            if (document.filePath === filePath && this.remove(id)) {
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    clear(): void {
+        this.documents.clear();
+        this.postings.clear();
+        this.totalLength = 0;
+    }
+
+    /**
+     * Best-scoring chunks for a free-text query, best first
+     */
+    search(query: string, topK: number, filter?: VectorFilter): KeywordMatch[] {
+        const terms = [...new Set(tokenize(query))];
+        if (terms.length === 0 || this.documents.size === 0) {
+            return [];
+        }
+
+        const { k1, b } = this.params;
+        const count = this.documents.size;
+        const averageLength = this.totalLength / count;
+        const scores = new Map<string, number>();
+
+        for (const term of terms) {
+            const posting = this.postings.get(term);
+            if (!posting) {
+                continue;
+            }
+
+            // Lucene's idf variant: never negative, so very common terms still count a little
+            const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5));
+
+            for (const [id, frequency] of posting) {
+                const length = this.documents.get(id)!.length;
+                const termScore = idf * (frequency * (k1 + 1)) /
+                    (frequency + k1 * (1 - b + b * (length / averageLength)));
+                scores.set(id, (scores.get(id) ?? 0) + termScore);
+            }
+        }
+
+        return [...scores]
+            .filter(([id]) => matchesFilter(this.documents.get(id)!, filter))
+            .map(([id, score]) => ({ id, score }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    }
+}
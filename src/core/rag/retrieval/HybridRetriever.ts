@@ -0,0 +1,378 @@
+/**
+ * Hybrid Retriever
+ * Answers queries with vector search, BM25 keyword search or both fused,
+ * and keeps the keyword index in step with the vector store
+ */
+
+import { AgentConfig } from '../../../settings';
+import { Agent, RAGAgentConfig, RAGContext } from '../../../types/Agent';
+import { EmbeddingProvider } from '../../../types/Embedding';
+import {
+    NoteChunk,
+    Reranker,
+    RetrievalOptions,
+    RetrievalResult,
+    SearchStrategy,
+    VectorRecord,
+    VectorStore
+} from '../../../types/RAG';
+import { AgentConfig as StoredAgentConfig, RAGConfig } from '../../../types/Settings';
+import { getLogger } from '../../../utils/logger';
+import { cosineSimilarity, matchesFilter, toChunk } from '../stores/BaseVectorStore';
+import { Bm25Index } from './Bm25Index';
+import { LinkGraph } from './LinkGraph';
+import { compileMetadataFilter } from './MetadataFilter';
+import { DEFAULT_RRF_K, reciprocalRankFusion } from './RankFusion';
+
+const logger = getLogger('HybridRetriever');
+
+const DEFAULT_KEYWORD_WEIGHT = 0.5;
+const DEFAULT_RERANK_CANDIDATES = 20;
+
+/**
+ * Each list contributes this many times topK candidates to fusion
+ */
+const CANDIDATE_MULTIPLIER = 4;
+
+export interface HybridRetrieverOptions {
+    hybridEnabled: boolean;   // When false, 'hybrid' falls back to 'semantic'
+    keywordWeight?: number;   // 0-1; semantic gets the remainder
+    rrfK?: number;
+    rerankCandidates?: number;  // Results retrieved for the reranker to choose topK from
+}
+
+/**
+ * The agent shapes that carry retrieval settings: agent manager configs,
+ * runtime agents and agents stored in plugin settings
+ */
+export type RetrievalAgent = AgentConfig | Agent | StoredAgentConfig;
+
+/**
+ * Retrieval options from an agent's retrieval settings and metadata filters.
+ * Call per query so relative date windows stay current.
+ *
+ * @param defaults Used where the agent leaves topK or the threshold unset
+ * @throws ValidationError when the agent's metadata filters are malformed
+ */
+export function getAgentRetrievalOptions(
+    agent: RetrievalAgent,
+    defaults: Pick<RAGConfig, 'defaultTopK' | 'defaultThreshold'>
+): RetrievalOptions {
+    if ('retrievalSettings' in agent) {
+        return {
+            strategy: agent.retrievalSettings.searchStrategy,
+            topK: agent.retrievalSettings.topK,
+            threshold: agent.retrievalSettings.scoreThreshold,
+            filter: compileMetadataFilter(agent.metadataFilters),
+            linkExpansion: agent.retrievalSettings.linkExpansion
+        };
+    }
+
+    // Runtime agents nest their settings; stored agents keep them in rag* fields
+    const rag: Partial<RAGAgentConfig> = 'createdAt' in agent
+        ? agent.ragConfig ?? {}
+        : { topK: agent.ragTopK, threshold: agent.ragThreshold, metadataFilters: agent.ragMetadataFilters };
+
+    return {
+        strategy: rag.searchStrategy ?? 'hybrid',
+        topK: rag.topK ?? defaults.defaultTopK,
+        threshold: rag.threshold ?? defaults.defaultThreshold,
+        filter: compileMetadataFilter(rag.metadataFilters)
+    };
+}
+
+/**
+ * Agent-facing view of a result. Both scores are kept so reranking can be
+ * debugged.
+ */
+export function toRAGContext(result: RetrievalResult): RAGContext {
+    const { chunk } = result;
+    return {
+        filePath: chunk.filePath,
+        title: chunk.metadata.title,
+        excerpt: chunk.content,
+        score: result.score,
+        retrievalScore: result.retrievalScore ?? result.score,
+        rerankScore: result.rerankScore,
+        metadata: {
+            headingPath: chunk.headingPath,
+            startLine: chunk.startLine,
+            endLine: chunk.endLine,
+            semanticScore: result.semanticScore,
+            keywordScore: result.keywordScore,
+            linkedFrom: result.linkedFrom,
+            hops: result.hops
+        }
+    };
+}
+
+export class HybridRetriever {
+    private keywordIndex = new Bm25Index();
+    private keywordIndexReady?: Promise<void>;
+    private reranker?: Reranker;
+    private linkGraph?: LinkGraph;
+
+    constructor(
+        private store: VectorStore,
+        private embeddings: EmbeddingProvider,
+        private options: HybridRetrieverOptions
+    ) {}
+
+    updateOptions(options: HybridRetrieverOptions): void {
+        this.options = options;
+    }
+
+    /**
+     * Rerank results with this (initialized) reranker, or stop reranking
+     */
+    setReranker(reranker?: Reranker): void {
+        this.reranker = reranker;
+    }
+
+    /**
+     * Enable link expansion for queries that request it
+     */
+    setLinkGraph(linkGraph?: LinkGraph): void {
+        this.linkGraph = linkGraph;
+    }
+
+    /**
+     * Write records to the vector store and the keyword index
+     */
+    async upsert(records: VectorRecord[]): Promise<void> {
+        await this.store.upsert(records);
+        if (this.keywordIndexReady) {
+            await this.keywordIndexReady;
+            records.forEach(record => this.keywordIndex.add(record));
+        }
+    }
+
+    async deleteByFile(filePath: string): Promise<number> {
+        const removed = await this.store.deleteByFile(filePath);
+        if (this.keywordIndexReady) {
+            await this.keywordIndexReady;
+            this.keywordIndex.removeFile(filePath);
+        }
+        return removed;
+    }
+
+    /**
+     * Clear the keyword index after the store was rebuilt outside this class
+     */
+    invalidate(): void {
+        this.keywordIndexReady = undefined;
+        this.keywordIndex.clear();
+    }
+
+    /**
+     * Retrieve (for alternate queries too, fused), rerank against the query
+     * when a reranker is set, then append notes linked to
+     * the hits when link expansion is requested. When reranking, the
+     * threshold applies to the rerank score instead of cosine similarity.
+     */
+    async search(query: string, options: RetrievalOptions): Promise<RetrievalResult[]> {
+        const results = await this.rank(query, options);
+        if (!options.linkExpansion || !this.linkGraph || results.length === 0) {
+            return results;
+        }
+        return [...results, ...await this.expandLinks(query, results, options)];
+    }
+
+    private async rank(query: string, options: RetrievalOptions): Promise<RetrievalResult[]> {
+        if (!this.reranker || options.rerank === false) {
+            return this.retrieveAll(query, options);
+        }
+
+        const candidates = await this.retrieveAll(query, {
+            ...options,
+            topK: Math.max(options.topK, this.options.rerankCandidates ?? DEFAULT_RERANK_CANDIDATES),
+            threshold: undefined
+        });
+        if (candidates.length === 0) {
+            return [];
+        }
+
+        let scores: number[];
+        try {
+            scores = await this.reranker.rerank(query, candidates.map(result => result.chunk), options.signal);
+        } catch (error) {
+            if (options.signal?.aborted) {
+                throw error;
+            }
+            // Retrieval order is still useful; apply the threshold as retrieval would have
+            logger.warn('Reranking failed, using retrieval order:', error);
+            return candidates
+                .filter(result => options.threshold === undefined || result.semanticScore === undefined ||
+                    result.semanticScore >= options.threshold)
+                .slice(0, options.topK);
+        }
+
+        return candidates
+            .map((result, i) => ({ ...result, score: scores[i], retrievalScore: result.score, rerankScore: scores[i] }))
+            .filter(result => options.threshold === undefined || result.score >= options.threshold)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, options.topK);
+    }
+
+    /**
+     * Retrieve for the query and each alternate query, fusing the lists by
+     * rank so chunks that several phrasings agree on come first
+     */
+    private async retrieveAll(query: string, options: RetrievalOptions): Promise<RetrievalResult[]> {
+        const alternates = options.alternateQueries ?? [];
+        if (alternates.length === 0) {
+            return this.retrieve(query, options);
+        }
+
+        const lists = await Promise.all([query, ...alternates].map(text => this.retrieve(text, options)));
+
+        // Keep each chunk's best component scores across the lists
+        const byId = new Map<string, RetrievalResult>();
+        for (const result of lists.flat()) {
+            const seen = byId.get(result.chunk.id);
+            byId.set(result.chunk.id, seen ? {
+                ...seen,
+                semanticScore: maxDefined(seen.semanticScore, result.semanticScore),
+                keywordScore: maxDefined(seen.keywordScore, result.keywordScore)
+            } : result);
+        }
+
+        const fused = reciprocalRankFusion(
+            lists.map(list => ({ ids: list.map(result => result.chunk.id), weight: 1 })),
+            this.options.rrfK ?? DEFAULT_RRF_K
+        );
+
+        return fused.slice(0, options.topK).map(({ id, score }) => ({ ...byId.get(id)!, score }));
+    }
+
+    private async retrieve(query: string, options: RetrievalOptions): Promise<RetrievalResult[]> {
+        const strategy = this.resolveStrategy(options.strategy);
+
+        if (strategy === 'semantic') {
+            return this.semanticSearch(query, options, options.topK);
+        }
+
+        if (strategy === 'keyword') {
+            return this.keywordSearch(query, options, options.topK);
+        }
+
+        const candidates = options.topK * CANDIDATE_MULTIPLIER;
+        const [semantic, keyword] = await Promise.all([
+            this.semanticSearch(query, options, candidates),
+            this.keywordSearch(query, options, candidates)
+        ]);
+
+        const keywordWeight = this.options.keywordWeight ?? DEFAULT_KEYWORD_WEIGHT;
+        const fused = reciprocalRankFusion([
+            { ids: semantic.map(result => result.chunk.id), weight: 1 - keywordWeight },
+            { ids: keyword.map(result => result.chunk.id), weight: keywordWeight }
+        ], this.options.rrfK ?? DEFAULT_RRF_K);
+
+        const semanticById = new Map(semantic.map(result => [result.chunk.id, result]));
+        const keywordById = new Map(keyword.map(result => [result.chunk.id, result]));
+
+        return fused.slice(0, options.topK).map(({ id, score }) => {
+            const fromSemantic = semanticById.get(id);
+            const fromKeyword = keywordById.get(id);
+            return {
+                chunk: (fromSemantic ?? fromKeyword)!.chunk,
+                score,
+                semanticScore: fromSemantic?.semanticScore,
+                keywordScore: fromKeyword?.keywordScore
+            };
+        });
+    }
+
+    /**
+     * The most query-similar chunk of each note linked to the results, within
+     * the query filter. Notes that are not indexed are skipped.
+     */
+    private async expandLinks(query: string, results: RetrievalResult[], options: RetrievalOptions): Promise<RetrievalResult[]> {
+        const expansion = options.linkExpansion!;
+        const seeds = new Map<string, number>();
+        for (const result of results) {
+            seeds.set(result.chunk.filePath, Math.max(seeds.get(result.chunk.filePath) ?? 0, result.score));
+        }
+
+        const linked = this.linkGraph!.expand(seeds, expansion);
+        if (linked.length === 0) {
+            return [];
+        }
+
+        const maxNotes = expansion.maxNotes ?? options.topK;
+        const [vector] = await this.embeddings.embed([query], { signal: options.signal, priority: 'interactive' });
+        const expanded: RetrievalResult[] = [];
+
+        for (const note of linked) {
+            if (expanded.length >= maxNotes) {
+                break;
+            }
+
+            let best: RetrievalResult | undefined;
+            for (const record of await this.store.getRecordsByFile(note.path)) {
+                if (!matchesFilter(record, options.filter)) {
+                    continue;
+                }
+                const similarity = cosineSimilarity(vector, record.vector);
+                if (!best || similarity > best.semanticScore!) {
+                    const chunk = toChunk(record);
+                    best = { chunk, score: note.score, semanticScore: similarity, linkedFrom: note.via, hops: note.hops };
+                }
+            }
+
+            if (best) {
+                expanded.push(best);
+            }
+        }
+
+        return expanded;
+    }
+
+    private resolveStrategy(strategy: SearchStrategy): SearchStrategy {
+        return strategy === 'hybrid' && !this.options.hybridEnabled ? 'semantic' : strategy;
+    }
+
+    private async semanticSearch(query: string, options: RetrievalOptions, topK: number): Promise<RetrievalResult[]> {
+        const [vector] = await this.embeddings.embed([query], { signal: options.signal, priority: 'interactive' });
+        const results = await this.store.query({
+            vector,
+            topK,
+            threshold: options.threshold,
+            filter: options.filter
+        });
+
+        return results.map(result => ({ chunk: result.chunk, score: result.score, semanticScore: result.score }));
+    }
+
+    /**
+     * BM25 scores are unbounded, so the similarity threshold does not apply
+     */
+    private async keywordSearch(query: string, options: RetrievalOptions, topK: number): Promise<RetrievalResult[]> {
+        await this.ensureKeywordIndex();
+
+        const matches = this.keywordIndex.search(query, topK, options.filter);
+        const chunks = await this.store.getByIds(matches.map(match => match.id));
+        const byId = new Map<string, NoteChunk>(chunks.map(chunk => [chunk.id, chunk]));
+
+        return matches
+            .filter(match => byId.has(match.id))
+            .map(match => ({ chunk: byId.get(match.id)!, score: match.score, keywordScore: match.score }));
+    }
+
+    /**
+     * The keyword index is built from the store on first use
+     */
+    private ensureKeywordIndex(): Promise<void> {
+        if (!this.keywordIndexReady) {
+            this.keywordIndexReady = this.keywordIndex.build(this.store);
+            this.keywordIndexReady.catch(() => {
+                this.keywordIndexReady = undefined;
+            });
+        }
+        return this.keywordIndexReady;
+    }
+}
+
+function maxDefined(a?: number, b?: number): number | undefined {
+    return a === undefined ? b : b === undefined ? a : Math.max(a, b);
+}
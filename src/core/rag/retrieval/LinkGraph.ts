@@ -0,0 +1,86 @@
+/**
+ * Link Graph
+ * Walks wikilinks and backlinks between notes using Obsidian's resolved
+ * link cache, so retrieval can follow a top hit into its cluster
+ */
+
+import { MetadataCache } from 'obsidian';
+import { LinkDirection, LinkExpansionOptions } from '../../../types/RAG';
+
+export interface LinkedNote {
+    path: string;
+    score: number;  // Best seed score, decayed once per hop
+    hops: number;
+    via: string;    // Seed it was reached from
+}
+
+export class LinkGraph {
+    constructor(private metadataCache: MetadataCache) {}
+
+    /**
+     * Notes within maxHops links of the seeds, best first. Seeds themselves
+     * are never returned. Only markdown notes are followed.
+     *
+     * @param seeds Seed note path -> score
+     */
+    expand(seeds: Map<string, number>, options: LinkExpansionOptions): LinkedNote[] {
+        const direction = options.direction ?? 'both';
+        const backlinks = direction === 'outgoing' ? undefined : this.buildBacklinks();
+        const reached = new Map<string, LinkedNote>();
+
+        let frontier: LinkedNote[] = [...seeds].map(([path, score]) => ({ path, score, hops: 0, via: path }));
+
+        for (let hop = 1; hop <= options.maxHops && frontier.length > 0; hop++) {
+            const next = new Map<string, LinkedNote>();
+
+            for (const node of frontier) {
+                const score = node.score * options.decay;
+                for (const neighbor of this.getNeighbors(node.path, direction, backlinks)) {
+                    if (seeds.has(neighbor) || reached.has(neighbor)) {
+                        continue;
+                    }
+
+                    const current = next.get(neighbor);
+                    if (!current || current.score < score) {
+                        next.set(neighbor, { path: neighbor, score, hops: hop, via: node.via });
+                    }
+                }
+            }
+
+            next.forEach((note, path) => reached.set(path, note));
+            frontier = [...next.values()];
+        }
+
+        return [...reached.values()].sort((a, b) => b.score - a.score);
+    }
+
+    private getNeighbors(path: string, direction: LinkDirection, backlinks?: Map<string, string[]>): string[] {
+        const neighbors: string[] = [];
+        if (direction !== 'backlinks') {
+            neighbors.push(...Object.keys(this.metadataCache.resolvedLinks[path] ?? {}));
+        }
+        if (backlinks) {
+            neighbors.push(...backlinks.get(path) ?? []);
+        }
+        return neighbors.filter(neighbor => neighbor !== path && neighbor.endsWith('.md'));
+    }
+
+    /**
+     * Invert the resolved link table. Rebuilt per expansion so it is never
+     * stale; this is a single pass over the vault's links.
+     */
+    private buildBacklinks(): Map<string, string[]> {
+        const backlinks = new Map<string, string[]>();
+        for (const [source, targets] of Object.entries(this.metadataCache.resolvedLinks)) {
+            for (const target of Object.keys(targets)) {
+                const sources = backlinks.get(target);
+                if (sources) {
+                    sources.push(source);
+                } else {
+                    backlinks.set(target, [source]);
+                }
+            }
+        }
+        return backlinks;
+    }
+}
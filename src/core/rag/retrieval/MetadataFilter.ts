@@ -0,0 +1,116 @@
+/**
+ * Metadata Filter
+ * Compiles the filter language used in agent settings into the
+ * VectorFilter that stores and the keyword index evaluate
+ */
+
+import {
+    FrontmatterCondition,
+    FrontmatterOperator,
+    FrontmatterValue,
+    MetadataFilterSpec,
+    VectorFilter
+} from '../../../types/RAG';
+import { ValidationError } from '../../../utils/errors';
+import { normalizePath } from '../../../utils/PathUtils';
+import { parseDate } from '../stores/BaseVectorStore';
+
+const FIELD = 'metadataFilters';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OPERATORS: FrontmatterOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'];
+
+/**
+ * Turn a filter spec into a VectorFilter. Relative date windows are
+ * resolved against `now`. Returns undefined when the spec filters nothing.
+ *
+ * @throws ValidationError when the spec is malformed
+ */
+export function compileMetadataFilter(spec: MetadataFilterSpec | undefined, now: number = Date.now()): VectorFilter | undefined {
+    if (!spec) {
+        return undefined;
+    }
+    if (typeof spec !== 'object' || Array.isArray(spec)) {
+        throw new ValidationError('Metadata filters must be an object', FIELD);
+    }
+
+    const filter: VectorFilter = {
+        folders: readList(spec.folders, 'folders')?.map(normalizePath),
+        excludeFolders: readList(spec.excludeFolders, 'excludeFolders')?.map(normalizePath),
+        tags: readList(spec.tags, 'tags'),
+        excludeTags: readList(spec.excludeTags, 'excludeTags'),
+        frontmatter: spec.frontmatter !== undefined ? compileFrontmatter(spec.frontmatter) : undefined,
+        modifiedAfter: readDate(spec.modifiedAfter, 'modifiedAfter'),
+        modifiedBefore: readDate(spec.modifiedBefore, 'modifiedBefore')
+    };
+
+    if (spec.modifiedWithinDays !== undefined) {
+        if (typeof spec.modifiedWithinDays !== 'number' || !(spec.modifiedWithinDays > 0)) {
+            throw new ValidationError('modifiedWithinDays must be a positive number', FIELD);
+        }
+        const windowStart = now - spec.modifiedWithinDays * DAY_MS;
+        filter.modifiedAfter = Math.max(filter.modifiedAfter ?? windowStart, windowStart);
+    }
+
+    // Drop empty criteria so callers can tell "no filter" apart
+    const entries = Object.entries(filter).filter(([, value]) =>
+        value !== undefined && !(Array.isArray(value) && value.length === 0)
+    );
+    return entries.length > 0 ? Object.fromEntries(entries) as VectorFilter : undefined;
+}
+
+function compileFrontmatter(spec: NonNullable<MetadataFilterSpec['frontmatter']>): FrontmatterCondition[] {
+    if (typeof spec !== 'object' || Array.isArray(spec)) {
+        throw new ValidationError('frontmatter filters must map field names to values', FIELD);
+    }
+
+    const conditions: FrontmatterCondition[] = [];
+    for (const [field, test] of Object.entries(spec)) {
+        if (isValue(test) || (Array.isArray(test) && test.every(isValue))) {
+            conditions.push({ field, operator: 'eq', value: test });
+            continue;
+        }
+
+        if (typeof test !== 'object' || test === null || Array.isArray(test)) {
+            throw new ValidationError(`Unsupported test for frontmatter field '${field}'`, FIELD);
+        }
+
+        for (const [operator, value] of Object.entries(test)) {
+            if (!OPERATORS.includes(operator as FrontmatterOperator)) {
+                throw new ValidationError(
+                    `Unknown operator '${operator}' for frontmatter field '${field}' (use ${OPERATORS.join(', ')})`,
+                    FIELD
+                );
+            }
+            if (!isValue(value)) {
+                throw new ValidationError(`'${operator}' on frontmatter field '${field}' needs a string, number or boolean`, FIELD);
+            }
+            conditions.push({ field, operator: operator as FrontmatterOperator, value });
+        }
+    }
+    return conditions;
+}
+
+function readList(value: unknown, name: string): string[] | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+        throw new ValidationError(`${name} must be a list of strings`, FIELD);
+    }
+    return value.map(item => item.trim()).filter(item => item.length > 0);
+}
+
+function readDate(value: unknown, name: string): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const time = parseDate(value);
+    if (time === undefined) {
+        throw new ValidationError(`${name} must be an ISO date such as 2024-03-15`, FIELD);
+    }
+    return time;
+}
+
+function isValue(value: unknown): value is FrontmatterValue {
+    return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
@@ -0,0 +1,147 @@
+/**
+ * Query Planner
+ * Turns a chat message into search queries before retrieval: follow-ups
+ * such as "what did we decide?" are rewritten into standalone queries from
+ * the conversation, optionally with paraphrases and a hypothetical answer
+ * (HyDE) to widen recall
+ */
+
+import { Message, StructuredOutputSpec } from '../../../types/Provider';
+import { QueryPlan, QueryPlanningOptions } from '../../../types/RAG';
+import { getLogger } from '../../../utils/logger';
+import { LLMManager } from '../../llm/LLMManager';
+
+const logger = getLogger('QueryPlanner');
+
+const DEFAULT_HISTORY_MESSAGES = 6;
+const MAX_PARAPHRASES = 5;
+
+/**
+ * History messages are cut to this many characters to keep the prompt small
+ */
+const MAX_HISTORY_CHARS = 1000;
+
+interface PlannerOutput {
+    query: string;
+    paraphrases?: string[];
+    hypotheticalAnswer?: string;
+}
+
+export class QueryPlanner {
+    constructor(private llm: LLMManager) {}
+
+    /**
+     * Plan the queries to retrieve for. Falls back to the message as written
+     * when there is nothing to plan or the planning request fails.
+     *
+     * @param history Earlier messages of the conversation, oldest first, not including message
+     */
+    async plan(message: string, history: Message[], options: QueryPlanningOptions, signal?: AbortSignal): Promise<QueryPlan> {
+        const conversation = options.rewrite ? formatHistory(history, options.historyMessages ?? DEFAULT_HISTORY_MESSAGES) : '';
+        const paraphrases = Math.min(Math.max(Math.floor(options.paraphrases ?? 0), 0), MAX_PARAPHRASES);
+        const hypotheticalAnswer = options.hypotheticalAnswer ?? false;
+
+        if (!conversation && paraphrases === 0 && !hypotheticalAnswer) {
+            return { query: message, alternates: [] };
+        }
+
+        try {
+            const result = await this.llm.completeStructured<PlannerOutput>({
+                systemPrompt: buildSystemPrompt(paraphrases, hypotheticalAnswer),
+                messages: [{
+                    role: 'user',
+                    content: conversation
+                        ? `Conversation so far:\n\n${conversation}\n\nLatest message: ${message}`
+                        : `Message: ${message}`
+                }],
+                structuredOutput: buildSpec(paraphrases, hypotheticalAnswer),
+                temperature: 0,
+                priority: 'interactive',
+                signal
+            }, options.providerId ? { providerId: options.providerId } : undefined);
+
+            const query = result.data.query.trim() || message;
+            const phrasings = dedupe(query, (result.data.paraphrases ?? []).map(text => text.trim())).slice(0, paraphrases);
+            const answer = hypotheticalAnswer ? result.data.hypotheticalAnswer?.trim() : undefined;
+
+            return { query, alternates: answer ? [...phrasings, answer] : phrasings };
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            // The message itself is still a usable query; the failure has been logged
+            logger.warn('Query planning failed, searching for the message as written:', error);
+            return { query: message, alternates: [] };
+        }
+    }
+}
+
+function buildSystemPrompt(paraphrases: number, hypotheticalAnswer: boolean): string {
+    const steps = [
+        'You write search queries for a personal knowledge base of markdown notes.',
+        'Rewrite the latest message into one standalone query: resolve pronouns and references ' +
+        'using the conversation, keep names and key terms, and drop chit-chat. ' +
+        'If the message already stands alone, return it unchanged.'
+    ];
+    if (paraphrases > 0) {
+        steps.push(`Also write ${paraphrases} differently worded queries for the same need, using synonyms the notes might use.`);
+    }
+    if (hypotheticalAnswer) {
+        steps.push('Also write a short passage, as it might appear in the notes, that would answer the query. ' +
+            'Plausible details are fine; it is only used for search.');
+    }
+    return steps.join(' ');
+}
+
+function buildSpec(paraphrases: number, hypotheticalAnswer: boolean): StructuredOutputSpec {
+    const properties: Record<string, unknown> = {
+        query: { type: 'string' }
+    };
+    const required = ['query'];
+
+    if (paraphrases > 0) {
+        properties.paraphrases = { type: 'array', items: { type: 'string' }, maxItems: paraphrases };
+        required.push('paraphrases');
+    }
+    if (hypotheticalAnswer) {
+        properties.hypotheticalAnswer = { type: 'string' };
+        required.push('hypotheticalAnswer');
+    }
+
+    return {
+        name: 'search_queries',
+        description: 'Search queries planned from a chat message.',
+        schema: { type: 'object', properties, required }
+    };
+}
+
+/**
+ * The last `limit` user and assistant turns as a transcript
+ */
+function formatHistory(history: Message[], limit: number): string {
+    if (limit <= 0) {
+        return '';
+    }
+    return history
+        .filter(message => (message.role === 'user' || message.role === 'assistant') && message.content.trim())
+        .slice(-limit)
+        .map(message => {
+            const content = message.content.length > MAX_HISTORY_CHARS
+                ? `${message.content.slice(0, MAX_HISTORY_CHARS)}…`
+                : message.content;
+            return `${message.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+        })
+        .join('\n\n');
+}
+
+function dedupe(query: string, alternates: string[]): string[] {
+    const seen = new Set([query.toLowerCase()]);
+    return alternates.filter(text => {
+        const key = text.toLowerCase();
+        if (!text || seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+}
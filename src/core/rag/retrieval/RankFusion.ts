@@ -0,0 +1,42 @@
+/**
+ * Rank Fusion
+ * Weighted reciprocal rank fusion of result lists whose scores are not
+ * comparable (cosine similarity vs BM25)
+ */
+
+export interface RankedList {
+    ids: string[];   // Best first
+    weight: number;
+}
+
+export interface FusedRank {
+    id: string;
+    score: number;
+}
+
+/**
+ * Constant from the original RRF paper; dampens the advantage of the very
+ * top ranks so agreement between lists matters more
+ */
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Score each id by the sum over lists of weight / (k + rank), best first
+ */
+export function reciprocalRankFusion(lists: RankedList[], k: number = DEFAULT_RRF_K): FusedRank[] {
+    const scores = new Map<string, number>();
+
+    for (const list of lists) {
+        if (list.weight <= 0) {
+            continue;
+        }
+
+        list.ids.forEach((id, index) => {
+            scores.set(id, (scores.get(id) ?? 0) + list.weight / (k + index + 1));
+        });
+    }
+
+    return [...scores]
+        .map(([id, score]) => ({ id, score }))
+        .sort((a, b) => b.score - a.score);
+}
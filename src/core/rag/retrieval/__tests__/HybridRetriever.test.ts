@@ -0,0 +1,92 @@
+import { AgentConfig } from '../../../../settings';
+import { Agent } from '../../../../types/Agent';
+import { AgentConfig as StoredAgentConfig } from '../../../../types/Settings';
+import { ValidationError } from '../../../../utils/errors';
+import { getAgentRetrievalOptions } from '../HybridRetriever';
+
+const defaults = { defaultTopK: 5, defaultThreshold: 0.3 };
+const acme = { folders: ['Projects/Acme'], tags: ['active'] };
+const acmeFilter = { folders: ['Projects/Acme'], tags: ['active'] };
+
+describe('getAgentRetrievalOptions', () => {
+    it('reads agent manager configs', () => {
+        const agent: AgentConfig = {
+            id: 'acme',
+            name: 'Acme',
+            description: '',
+            systemPrompt: '',
+            llmProviderId: 'default',
+            retrievalSettings: { enabled: true, topK: 8, scoreThreshold: 0.5, searchStrategy: 'semantic' },
+            metadataFilters: acme,
+            isBackend: false,
+            canDelete: true
+        };
+
+        expect(getAgentRetrievalOptions(agent, defaults)).toEqual({
+            strategy: 'semantic',
+            topK: 8,
+            threshold: 0.5,
+            filter: acmeFilter,
+            linkExpansion: undefined
+        });
+    });
+
+    it('reads runtime agents', () => {
+        const agent: Agent = {
+            id: 'acme',
+            name: 'Acme',
+            description: '',
+            systemPrompt: '',
+            isBackend: false,
+            enabled: true,
+            ragEnabled: true,
+            ragConfig: { enabled: true, topK: 3, threshold: 0.6, metadataFilters: acme },
+            skillTags: [],
+            mcpTools: [],
+            createdAt: 0,
+            updatedAt: 0
+        };
+
+        expect(getAgentRetrievalOptions(agent, defaults)).toEqual({
+            strategy: 'hybrid',
+            topK: 3,
+            threshold: 0.6,
+            filter: acmeFilter
+        });
+    });
+
+    it('reads agents stored in plugin settings, with defaults for unset fields', () => {
+        const agent: StoredAgentConfig = {
+            id: 'acme',
+            name: 'Acme',
+            description: '',
+            systemPrompt: '',
+            isBackend: false,
+            enabled: true,
+            ragEnabled: true,
+            ragMetadataFilters: acme
+        };
+
+        expect(getAgentRetrievalOptions(agent, defaults)).toEqual({
+            strategy: 'hybrid',
+            topK: 5,
+            threshold: 0.3,
+            filter: acmeFilter
+        });
+    });
+
+    it('rejects malformed filters', () => {
+        const agent: StoredAgentConfig = {
+            id: 'acme',
+            name: 'Acme',
+            description: '',
+            systemPrompt: '',
+            isBackend: false,
+            enabled: true,
+            ragEnabled: true,
+            ragMetadataFilters: { modifiedWithinDays: -1 }
+        };
+
+        expect(() => getAgentRetrievalOptions(agent, defaults)).toThrow(ValidationError);
+    });
+});
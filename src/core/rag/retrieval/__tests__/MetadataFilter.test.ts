@@ -0,0 +1,146 @@
+import { FrontmatterValue } from '../../../../types/RAG';
+import { ValidationError } from '../../../../utils/errors';
+import { FilterableChunk, matchesFilter } from '../../stores/BaseVectorStore';
+import { compileMetadataFilter } from '../MetadataFilter';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2024-03-31T00:00:00Z');
+
+function note(
+    filePath: string,
+    metadata: { tags?: string[]; frontmatter?: Record<string, FrontmatterValue | FrontmatterValue[]>; modifiedAt?: number } = {}
+): FilterableChunk {
+    return { filePath, metadata };
+}
+
+describe('compileMetadataFilter', () => {
+    it('returns undefined when nothing is filtered', () => {
+        expect(compileMetadataFilter(undefined)).toBeUndefined();
+        expect(compileMetadataFilter({})).toBeUndefined();
+        expect(compileMetadataFilter({ folders: [], tags: [' '] })).toBeUndefined();
+    });
+
+    it('compiles folders, tags and frontmatter tests', () => {
+        expect(compileMetadataFilter({
+            folders: ['/Projects/Acme/'],
+            tags: ['active'],
+            excludeTags: ['archived'],
+            frontmatter: { status: 'open', priority: { gte: 2, lt: 5 } }
+        })).toEqual({
+            folders: ['Projects/Acme'],
+            tags: ['active'],
+            excludeTags: ['archived'],
+            frontmatter: [
+                { field: 'status', operator: 'eq', value: 'open' },
+                { field: 'priority', operator: 'gte', value: 2 },
+                { field: 'priority', operator: 'lt', value: 5 }
+            ]
+        });
+    });
+
+    it('resolves modifiedWithinDays against the query time', () => {
+        expect(compileMetadataFilter({ modifiedWithinDays: 7 }, NOW)).toEqual({ modifiedAfter: NOW - 7 * DAY_MS });
+    });
+
+    it('keeps the later of modifiedAfter and the relative window', () => {
+        const later = compileMetadataFilter({ modifiedAfter: '2024-03-30', modifiedWithinDays: 7 }, NOW);
+        const earlier = compileMetadataFilter({ modifiedAfter: '2024-01-01', modifiedWithinDays: 7 }, NOW);
+
+        expect(later?.modifiedAfter).toBe(Date.parse('2024-03-30'));
+        expect(earlier?.modifiedAfter).toBe(NOW - 7 * DAY_MS);
+    });
+
+    it.each([
+        [{ tags: 'active' }, 'tags must be a list of strings'],
+        [{ modifiedAfter: 'last week' }, 'modifiedAfter must be an ISO date such as 2024-03-15'],
+        [{ modifiedWithinDays: 0 }, 'modifiedWithinDays must be a positive number'],
+        [{ frontmatter: { priority: { above: 2 } } }, "Unknown operator 'above' for frontmatter field 'priority' (use eq, ne, gt, gte, lt, lte)"],
+        [{ frontmatter: { priority: { gte: [1, 2] } } }, "'gte' on frontmatter field 'priority' needs a string, number or boolean"]
+    ])('rejects %j', (spec, message) => {
+        const compile = () => compileMetadataFilter(spec as never);
+
+        expect(compile).toThrow(ValidationError);
+        expect(compile).toThrow(message);
+    });
+});
+
+describe('matchesFilter', () => {
+    it('matches everything without a filter', () => {
+        expect(matchesFilter(note('Inbox.md'))).toBe(true);
+    });
+
+    it('limits results to folders and their subfolders', () => {
+        const filter = compileMetadataFilter({ folders: ['Projects/Acme'], excludeFolders: ['Projects/Acme/Archive'] });
+
+        expect(matchesFilter(note('Projects/Acme/Plan.md'), filter)).toBe(true);
+        expect(matchesFilter(note('Projects/Acme/Design/API.md'), filter)).toBe(true);
+        expect(matchesFilter(note('Projects/Acme2/Plan.md'), filter)).toBe(false);
+        expect(matchesFilter(note('Projects/Acme/Archive/Old.md'), filter)).toBe(false);
+    });
+
+    it('includes and excludes tags ignoring case and a leading #', () => {
+        const filter = compileMetadataFilter({ tags: ['#Active', 'urgent'], excludeTags: ['archived'] });
+
+        expect(matchesFilter(note('a.md', { tags: ['active'] }), filter)).toBe(true);
+        expect(matchesFilter(note('a.md', { tags: ['#URGENT', 'later'] }), filter)).toBe(true);
+        expect(matchesFilter(note('a.md', { tags: ['active', 'archived'] }), filter)).toBe(false);
+        expect(matchesFilter(note('a.md', { tags: ['later'] }), filter)).toBe(false);
+        expect(matchesFilter(note('a.md'), filter)).toBe(false);
+    });
+
+    it('excludes tags on untagged notes without requiring any', () => {
+        const filter = compileMetadataFilter({ excludeTags: ['archived'] });
+
+        expect(matchesFilter(note('a.md'), filter)).toBe(true);
+        expect(matchesFilter(note('a.md', { tags: ['Archived'] }), filter)).toBe(false);
+    });
+
+    it('tests frontmatter equality against scalars and lists', () => {
+        const filter = compileMetadataFilter({ frontmatter: { status: ['open', 'blocked'], owner: { ne: 'sam' } } });
+
+        expect(matchesFilter(note('a.md', { frontmatter: { status: 'Open', owner: 'ann' } }), filter)).toBe(true);
+        expect(matchesFilter(note('a.md', { frontmatter: { status: ['done', 'blocked'] } }), filter)).toBe(true);
+        expect(matchesFilter(note('a.md', { frontmatter: { status: 'done' } }), filter)).toBe(false);
+        expect(matchesFilter(note('a.md', { frontmatter: { status: 'open', owner: 'sam' } }), filter)).toBe(false);
+    });
+
+    it('tests frontmatter ranges on numbers and dates', () => {
+        const priority = compileMetadataFilter({ frontmatter: { priority: { gte: 2, lt: 5 } } });
+        const due = compileMetadataFilter({ frontmatter: { due: { lte: '2024-04-01' } } });
+
+        expect(matchesFilter(note('a.md', { frontmatter: { priority: 2 } }), priority)).toBe(true);
+        expect(matchesFilter(note('a.md', { frontmatter: { priority: '4' } }), priority)).toBe(true);
+        expect(matchesFilter(note('a.md', { frontmatter: { priority: 5 } }), priority)).toBe(false);
+        expect(matchesFilter(note('a.md'), priority)).toBe(false);
+
+        expect(matchesFilter(note('a.md', { frontmatter: { due: '2024-03-15' } }), due)).toBe(true);
+        expect(matchesFilter(note('a.md', { frontmatter: { due: '2024-04-01T09:00' } }), due)).toBe(false);
+    });
+
+    it('applies modified windows, inclusive after and exclusive before', () => {
+        const filter = compileMetadataFilter({ modifiedAfter: '2024-03-01', modifiedBefore: '2024-03-15' });
+        const start = Date.parse('2024-03-01');
+        const end = Date.parse('2024-03-15');
+
+        expect(matchesFilter(note('a.md', { modifiedAt: start }), filter)).toBe(true);
+        expect(matchesFilter(note('a.md', { modifiedAt: end - 1 }), filter)).toBe(true);
+        expect(matchesFilter(note('a.md', { modifiedAt: end }), filter)).toBe(false);
+        expect(matchesFilter(note('a.md', { modifiedAt: start - 1 }), filter)).toBe(false);
+        expect(matchesFilter(note('a.md'), filter)).toBe(false);
+    });
+
+    it('keeps notes modified within the last days', () => {
+        const filter = compileMetadataFilter({ modifiedWithinDays: 30 }, NOW);
+
+        expect(matchesFilter(note('a.md', { modifiedAt: NOW - 29 * DAY_MS }), filter)).toBe(true);
+        expect(matchesFilter(note('a.md', { modifiedAt: NOW - 31 * DAY_MS }), filter)).toBe(false);
+    });
+
+    it('requires every criterion to hold', () => {
+        const filter = compileMetadataFilter({ folders: ['Projects/Acme'], tags: ['active'] });
+
+        expect(matchesFilter(note('Projects/Acme/Plan.md', { tags: ['active'] }), filter)).toBe(true);
+        expect(matchesFilter(note('Projects/Acme/Plan.md', { tags: ['paused'] }), filter)).toBe(false);
+        expect(matchesFilter(note('Areas/Plan.md', { tags: ['active'] }), filter)).toBe(false);
+    });
+});
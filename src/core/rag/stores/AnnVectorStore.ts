@@ -0,0 +1,250 @@
+/**
+ * ANN Vector Store
+ * Wraps a vector store with an HNSW index once the collection is large
+ * enough for exact search to be slow. Small collections are searched
+ * exactly by the wrapped store.
+ */
+
+import { App } from 'obsidian';
+import {
+    NoteChunk,
+    VectorQuery,
+    VectorRecord,
+    VectorSearchResult,
+    VectorStore,
+    VectorStoreStats
+} from '../../../types/RAG';
+import { getLogger } from '../../../utils/logger';
+import { DEFAULT_HNSW_PARAMS, HnswIndex, HnswMapping, HnswParams } from './HnswIndex';
+
+const logger = getLogger('AnnVectorStore');
+
+const MAPPING_VERSION = 2;
+const SAVE_DELAY_MS = 5000;
+
+export const DEFAULT_EXACT_SEARCH_LIMIT = 5000;
+
+export interface AnnStoreOptions {
+    indexFileName: string;       // Index file in hnswlib's filesystem; must be unique per vault
+    mappingPath: string;         // Vault-relative path of the label mapping
+    exactSearchLimit?: number;   // Below this many chunks, search exactly
+    params?: HnswParams;
+}
+
+interface MappingFile {
+    version: number;
+    model: string;
+    storeUpdatedAt?: number;  // Store state the index was saved against
+    mapping: HnswMapping;
+}
+
+export class AnnVectorStore implements VectorStore {
+    private index?: HnswIndex;
+    private building?: Promise<HnswIndex>;
+    private chunkCount?: number;
+    private saveTimer?: ReturnType<typeof setTimeout>;
+
+    constructor(
+        private app: App,
+        private inner: VectorStore,
+        private options: AnnStoreOptions
+    ) {}
+
+    get backend() {
+        return this.inner.backend;
+    }
+
+    async initialize(): Promise<void> {
+        await this.inner.initialize();
+
+        try {
+            this.index = await this.loadSavedIndex();
+            if (this.index) {
+                logger.info(`Loaded HNSW index (${this.index.size} chunks)`);
+            }
+        } catch (error) {
+            logger.warn('Could not load saved HNSW index; it will be rebuilt when needed:', error);
+        }
+    }
+
+    async upsert(records: VectorRecord[]): Promise<void> {
+        await this.inner.upsert(records);
+        this.chunkCount = undefined;
+
+        if (this.index) {
+            for (const record of records) {
+                this.index.add(record, record.vector);
+            }
+            this.scheduleSave();
+        }
+    }
+
+    async deleteByFile(filePath: string): Promise<number> {
+        const removed = await this.inner.deleteByFile(filePath);
+        this.chunkCount = undefined;
+
+        if (this.index && this.index.removeFile(filePath) > 0) {
+            this.scheduleSave();
+        }
+        return removed;
+    }
+
+    async query(query: VectorQuery): Promise<VectorSearchResult[]> {
+        const index = await this.getIndex();
+        if (!index) {
+            return this.inner.query(query);
+        }
+
+        const matches = index.search(query.vector, query.topK, query.filter)
+            .filter(match => query.threshold === undefined || match.score >= query.threshold);
+        const chunks = await this.inner.getByIds(matches.map(match => match.id));
+        const byId = new Map(chunks.map(chunk => [chunk.id, chunk]));
+
+        return matches
+            .filter(match => byId.has(match.id))
+            .map(match => ({ chunk: byId.get(match.id)!, score: match.score }));
+    }
+
+    getByIds(ids: string[]): Promise<NoteChunk[]> {
+        return this.inner.getByIds(ids);
+    }
+
+    forEach(visitor: (chunk: NoteChunk, vector: ArrayLike<number>) => void): Promise<void> {
+        return this.inner.forEach(visitor);
+    }
+
+    getRecordsByFile(filePath: string): Promise<VectorRecord[]> {
+        return this.inner.getRecordsByFile(filePath);
+    }
+
+    getFilePaths(): Promise<string[]> {
+        return this.inner.getFilePaths();
+    }
+
+    getStats(): Promise<VectorStoreStats> {
+        return this.inner.getStats();
+    }
+
+    async clear(): Promise<void> {
+        await this.inner.clear();
+        this.chunkCount = 0;
+        this.index = undefined;
+        clearTimeout(this.saveTimer);
+        this.saveTimer = undefined;
+
+        if (await this.app.vault.adapter.exists(this.options.mappingPath)) {
+            await this.app.vault.adapter.remove(this.options.mappingPath);
+        }
+    }
+
+    async close(): Promise<void> {
+        if (this.saveTimer) {
+            await this.saveIndex().catch(error => logger.error('Failed to save HNSW index:', error));
+        }
+        this.index = undefined;
+        await this.inner.close();
+    }
+
+    /**
+     * The index to search with, building it once the collection outgrows
+     * exact search. Undefined means search exactly.
+     */
+    private async getIndex(): Promise<HnswIndex | undefined> {
+        // Rebuild when deletions have left the graph mostly tombstones
+        if (this.index && this.index.deletedCount > this.index.size) {
+            this.index = undefined;
+        }
+
+        if (this.index) {
+            return this.index;
+        }
+
+        if (this.chunkCount === undefined) {
+            this.chunkCount = (await this.inner.getStats()).chunkCount;
+        }
+        if (this.chunkCount < (this.options.exactSearchLimit ?? DEFAULT_EXACT_SEARCH_LIMIT)) {
+            return undefined;
+        }
+
+        try {
+            this.index = await this.buildIndex();
+            this.scheduleSave();
+            return this.index;
+        } catch (error) {
+            // Exact search is slower but always correct
+            logger.error('Failed to build HNSW index, using exact search:', error);
+            return undefined;
+        }
+    }
+
+    private buildIndex(): Promise<HnswIndex> {
+        if (!this.building) {
+            this.building = (async () => {
+                const started = Date.now();
+                const stats = await this.inner.getStats();
+                const index = await HnswIndex.create(
+                    stats.dimensions,
+                    Math.ceil(stats.chunkCount * 1.25),
+                    this.options.params ?? DEFAULT_HNSW_PARAMS
+                );
+
+                await this.inner.forEach((chunk, vector) => index.add(chunk, vector));
+                logger.info(`Built HNSW index over ${index.size} chunks in ${Date.now() - started}ms`);
+                return index;
+            })().finally(() => {
+                this.building = undefined;
+            });
+        }
+        return this.building;
+    }
+
+    /**
+     * Load the saved index if it was saved against the store's current state
+     */
+    private async loadSavedIndex(): Promise<HnswIndex | undefined> {
+        const adapter = this.app.vault.adapter;
+        if (!await adapter.exists(this.options.mappingPath)) {
+            return undefined;
+        }
+
+        const saved = JSON.parse(await adapter.read(this.options.mappingPath)) as MappingFile;
+        const stats = await this.inner.getStats();
+
+        if (
+            saved.version !== MAPPING_VERSION ||
+            saved.model !== stats.model ||
+            saved.storeUpdatedAt !== stats.updatedAt ||
+            saved.mapping.entries.length !== stats.chunkCount
+        ) {
+            logger.info('Saved HNSW index is stale; it will be rebuilt when needed');
+            return undefined;
+        }
+
+        return HnswIndex.load(this.options.indexFileName, saved.mapping, this.options.params ?? DEFAULT_HNSW_PARAMS);
+    }
+
+    private async saveIndex(): Promise<void> {
+        clearTimeout(this.saveTimer);
+        this.saveTimer = undefined;
+
+        if (!this.index) {
+            return;
+        }
+
+        const stats = await this.inner.getStats();
+        const data: MappingFile = {
+            version: MAPPING_VERSION,
+            model: stats.model,
+            storeUpdatedAt: stats.updatedAt,
+            mapping: await this.index.save(this.options.indexFileName)
+        };
+        await this.app.vault.adapter.write(this.options.mappingPath, JSON.stringify(data));
+    }
+
+    private scheduleSave(): void {
+        clearTimeout(this.saveTimer);
+        this.saveTimer = setTimeout(() => {
+            this.saveIndex().catch(error => logger.error('Failed to save HNSW index:', error));
+        }, SAVE_DELAY_MS);
+    }
+}
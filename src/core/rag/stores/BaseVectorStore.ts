@@ -0,0 +1,301 @@
+/**
+ * Base Vector Store
+ * Shared validation, filtering and similarity ranking for vector store backends
+ */
+
+import {
+    ChunkMetadata,
+    FrontmatterCondition,
+    FrontmatterValue,
+    NoteChunk,
+    VectorFilter,
+    VectorQuery,
+    VectorRecord,
+    VectorSearchResult,
+    VectorStore,
+    VectorStoreBackend,
+    VectorStoreOptions,
+    VectorStoreStats
+} from '../../../types/RAG';
+import { RAGError } from '../../../utils/errors';
+import { isPathAllowed, isPathInFolder } from '../../../utils/PathUtils';
+
+/**
+ * Model and dimensions the stored vectors were produced with
+ */
+export interface StoredEmbeddingInfo {
+    model: string;
+    dimensions: number;
+}
+
+/**
+ * A record whose vector may be held in a typed array by the backend
+ */
+export type StoredVectorRecord = NoteChunk & { vector: ArrayLike<number> };
+
+export abstract class BaseVectorStore implements VectorStore {
+    abstract readonly backend: VectorStoreBackend;
+
+    protected initialized = false;
+
+    constructor(protected options: VectorStoreOptions) {}
+
+    abstract initialize(): Promise<void>;
+
+    abstract upsert(records: VectorRecord[]): Promise<void>;
+
+    abstract deleteByFile(filePath: string): Promise<number>;
+
+    abstract query(query: VectorQuery): Promise<VectorSearchResult[]>;
+
+    abstract getByIds(ids: string[]): Promise<NoteChunk[]>;
+
+    abstract forEach(visitor: (chunk: NoteChunk, vector: ArrayLike<number>) => void): Promise<void>;
+
+    abstract getRecordsByFile(filePath: string): Promise<VectorRecord[]>;
+
+    abstract getFilePaths(): Promise<string[]>;
+
+    abstract getStats(): Promise<VectorStoreStats>;
+
+    abstract clear(): Promise<void>;
+
+    abstract close(): Promise<void>;
+
+    protected ensureInitialized(): void {
+        if (!this.initialized) {
+            throw new RAGError(`Vector store (${this.backend}) used before initialize()`);
+        }
+    }
+
+    /**
+     * Stored vectors are only usable when they come from the configured model
+     */
+    protected isCompatible(stored: StoredEmbeddingInfo | undefined): boolean {
+        return !stored || (
+            stored.model === this.options.model &&
+            (!stored.dimensions || !this.options.dimensions || stored.dimensions === this.options.dimensions)
+        );
+    }
+
+    /**
+     * Reject vectors of the wrong length. When the model's dimensions were
+     * unknown at construction, the first record fixes them.
+     */
+    protected validateRecords(records: VectorRecord[]): void {
+        for (const record of records) {
+            if (!this.options.dimensions) {
+                this.options.dimensions = record.vector.length;
+            }
+
+            if (record.vector.length !== this.options.dimensions) {
+                throw new RAGError(
+                    `Vector for ${record.id} has ${record.vector.length} dimensions, ` +
+                    `store expects ${this.options.dimensions}`
+                );
+            }
+        }
+    }
+
+    protected validateQuery(query: VectorQuery): void {
+        if (this.options.dimensions && query.vector.length !== this.options.dimensions) {
+            throw new RAGError(
+                `Query vector has ${query.vector.length} dimensions, store expects ${this.options.dimensions}`
+            );
+        }
+    }
+}
+
+/**
+ * Cosine similarity; 0 when either vector has no magnitude
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+
+    const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+    return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * The chunk metadata a filter can test
+ */
+export type FilterableChunk = {
+    filePath: string;
+    metadata: Pick<ChunkMetadata, 'tags' | 'frontmatter' | 'modifiedAt'>;
+};
+
+/**
+ * Check a chunk against a query filter. Tag matching ignores case and a
+ * leading '#'.
+ */
+export function matchesFilter(chunk: FilterableChunk, filter?: VectorFilter): boolean {
+    if (!filter) {
+        return true;
+    }
+
+    if (filter.filePaths && filter.filePaths.length > 0 && !filter.filePaths.includes(chunk.filePath)) {
+        return false;
+    }
+
+    if (filter.excludeFilePaths?.includes(chunk.filePath)) {
+        return false;
+    }
+
+    if (!isPathAllowed(chunk.filePath, filter.folders)) {
+        return false;
+    }
+
+    if (filter.excludeFolders?.some(folder => isPathInFolder(chunk.filePath, folder))) {
+        return false;
+    }
+
+    const hasTagFilter = (filter.tags && filter.tags.length > 0) || (filter.excludeTags && filter.excludeTags.length > 0);
+    if (hasTagFilter) {
+        const tags = (chunk.metadata.tags ?? []).map(normalizeTag);
+        if (filter.tags && filter.tags.length > 0 && !filter.tags.some(tag => tags.includes(normalizeTag(tag)))) {
+            return false;
+        }
+        if (filter.excludeTags?.some(tag => tags.includes(normalizeTag(tag)))) {
+            return false;
+        }
+    }
+
+    if (filter.modifiedAfter !== undefined || filter.modifiedBefore !== undefined) {
+        const modifiedAt = chunk.metadata.modifiedAt;
+        if (
+            modifiedAt === undefined ||
+            (filter.modifiedAfter !== undefined && modifiedAt < filter.modifiedAfter) ||
+            (filter.modifiedBefore !== undefined && modifiedAt >= filter.modifiedBefore)
+        ) {
+            return false;
+        }
+    }
+
+    return !filter.frontmatter ||
+        filter.frontmatter.every(condition => matchesFrontmatter(chunk.metadata.frontmatter, condition));
+}
+
+function matchesFrontmatter(frontmatter: Record<string, any> | undefined, condition: FrontmatterCondition): boolean {
+    const raw = frontmatter?.[condition.field];
+    const actual: unknown[] = raw === undefined || raw === null ? [] : Array.isArray(raw) ? raw : [raw];
+    const expected = Array.isArray(condition.value) ? condition.value : [condition.value];
+
+    switch (condition.operator) {
+        case 'eq':
+            return actual.some(value => expected.some(wanted => compareValues(value, wanted) === 0));
+        case 'ne':
+            return !actual.some(value => expected.some(wanted => compareValues(value, wanted) === 0));
+        default:
+            return actual.some(value => {
+                const order = compareValues(value, expected[0]);
+                switch (condition.operator) {
+                    case 'gt': return order !== undefined && order > 0;
+                    case 'gte': return order !== undefined && order >= 0;
+                    case 'lt': return order !== undefined && order < 0;
+                    default: return order !== undefined && order <= 0;
+                }
+            });
+    }
+}
+
+/**
+ * Order a frontmatter value against a filter value: numerically when both
+ * are numbers, by date when both parse as dates, otherwise as
+ * case-insensitive text. Undefined when they cannot be compared.
+ */
+function compareValues(actual: unknown, wanted: FrontmatterValue): number | undefined {
+    if (typeof actual === 'boolean' || typeof wanted === 'boolean') {
+        return String(actual).toLowerCase() === String(wanted).toLowerCase() ? 0 : undefined;
+    }
+    if (typeof actual !== 'string' && typeof actual !== 'number') {
+        return undefined;
+    }
+
+    const actualNumber = Number(actual);
+    const wantedNumber = Number(wanted);
+    if (actual !== '' && wanted !== '' && !isNaN(actualNumber) && !isNaN(wantedNumber)) {
+        return Math.sign(actualNumber - wantedNumber);
+    }
+
+    const actualDate = parseDate(actual);
+    const wantedDate = parseDate(wanted);
+    if (actualDate !== undefined && wantedDate !== undefined) {
+        return Math.sign(actualDate - wantedDate);
+    }
+
+    return String(actual).toLowerCase().localeCompare(String(wanted).toLowerCase());
+}
+
+/**
+ * Timestamp of an ISO-like date string ("2024-03-15", "2024-03-15T10:00")
+ */
+export function parseDate(value: unknown): number | undefined {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value)) {
+        return undefined;
+    }
+    const time = Date.parse(value);
+    return isNaN(time) ? undefined : time;
+}
+
+/**
+ * Incrementally keeps the best topK results above the query threshold
+ */
+export class TopKCollector {
+    private results: VectorSearchResult[] = [];
+
+    constructor(private query: VectorQuery) {}
+
+    add(record: StoredVectorRecord): void {
+        if (!matchesFilter(record, this.query.filter)) {
+            return;
+        }
+
+        const score = cosineSimilarity(this.query.vector, record.vector);
+        if (this.query.threshold !== undefined && score < this.query.threshold) {
+            return;
+        }
+
+        const worst = this.results[this.results.length - 1];
+        if (this.results.length >= this.query.topK && worst && score <= worst.score) {
+            return;
+        }
+
+        // Insert in descending score order
+        const index = this.results.findIndex(result => result.score < score);
+        const entry = { chunk: toChunk(record), score };
+        if (index === -1) {
+            this.results.push(entry);
+        } else {
+            this.results.splice(index, 0, entry);
+        }
+
+        if (this.results.length > this.query.topK) {
+            this.results.pop();
+        }
+    }
+
+    getResults(): VectorSearchResult[] {
+        return this.results;
+    }
+}
+
+/**
+ * Strip the vector from a record
+ */
+export function toChunk(record: StoredVectorRecord): NoteChunk {
+    const chunk: NoteChunk & { vector?: ArrayLike<number> } = { ...record };
+    delete chunk.vector;
+    return chunk;
+}
+
+function normalizeTag(tag: string): string {
+    return tag.replace(/^#/, '').toLowerCase();
+}
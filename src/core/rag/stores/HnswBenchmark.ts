@@ -0,0 +1,121 @@
+/**
+ * HNSW Benchmark
+ * Measures recall and latency of the HNSW index against exact search on
+ * synthetic clustered vectors, for tuning index parameters
+ */
+
+import { NoteChunk } from '../../../types/RAG';
+import { cosineSimilarity } from './BaseVectorStore';
+import { DEFAULT_HNSW_PARAMS, HnswIndex, HnswParams } from './HnswIndex';
+
+export interface RecallBenchmarkOptions {
+    chunks: number;
+    dimensions: number;
+    queries: number;
+    topK: number;
+    clusters: number;  // Embeddings cluster by topic; uniform noise would be unrealistically hard
+    seed: number;
+    params: HnswParams;
+}
+
+export const DEFAULT_BENCHMARK_OPTIONS: RecallBenchmarkOptions = {
+    chunks: 10000,
+    dimensions: 384,
+    queries: 100,
+    topK: 10,
+    clusters: 50,
+    seed: 42,
+    params: DEFAULT_HNSW_PARAMS,
+};
+
+export interface RecallBenchmarkResult {
+    options: RecallBenchmarkOptions;
+    recall: number;        // Mean fraction of exact top-k found by the index
+    buildMs: number;
+    annQueryMs: number;    // Mean per query
+    exactQueryMs: number;  // Mean per query
+}
+
+/**
+ * Build an index over synthetic vectors and compare its top-k with
+ * brute-force cosine search
+ */
+export async function runRecallBenchmark(overrides: Partial<RecallBenchmarkOptions> = {}): Promise<RecallBenchmarkResult> {
+    const options = { ...DEFAULT_BENCHMARK_OPTIONS, ...overrides };
+    const random = createRandom(options.seed);
+
+    const centers = Array.from({ length: options.clusters }, () => randomVector(random, options.dimensions, 1));
+    const sample = () => {
+        const center = centers[Math.floor(random() * centers.length)];
+        const noise = randomVector(random, options.dimensions, 0.5);
+        return center.map((value, i) => value + noise[i]);
+    };
+
+    const vectors = Array.from({ length: options.chunks }, sample);
+    const queries = Array.from({ length: options.queries }, sample);
+
+    let started = performance.now();
+    const index = await HnswIndex.create(options.dimensions, options.chunks, options.params);
+    vectors.forEach((vector, i) => index.add(syntheticChunk(i), vector));
+    const buildMs = performance.now() - started;
+
+    let annMs = 0;
+    let exactMs = 0;
+    let recallSum = 0;
+
+    for (const query of queries) {
+        started = performance.now();
+        const approximate = index.search(query, options.topK);
+        annMs += performance.now() - started;
+
+        started = performance.now();
+        const exact = vectors
+            .map((vector, i) => ({ id: String(i), score: cosineSimilarity(query, vector) }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, options.topK);
+        exactMs += performance.now() - started;
+
+        const expected = new Set(exact.map(match => match.id));
+        recallSum += approximate.filter(match => expected.has(match.id)).length / options.topK;
+    }
+
+    return {
+        options,
+        recall: recallSum / options.queries,
+        buildMs,
+        annQueryMs: annMs / options.queries,
+        exactQueryMs: exactMs / options.queries
+    };
+}
+
+function syntheticChunk(i: number): NoteChunk {
+    return {
+        id: String(i),
+        filePath: `benchmark/${i}.md`,
+        chunkIndex: 0,
+        content: '',
+        headingPath: [],
+        startLine: 1,
+        endLine: 1,
+        tokenCount: 0,
+        metadata: { title: String(i) }
+    };
+}
+
+function randomVector(random: () => number, dimensions: number, scale: number): number[] {
+    return Array.from({ length: dimensions }, () => (random() * 2 - 1) * scale);
+}
+
+/**
+ * Seeded PRNG (mulberry32) so runs are comparable
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
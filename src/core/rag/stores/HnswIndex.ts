@@ -0,0 +1,246 @@
+/**
+ * HNSW Index
+ * Approximate nearest-neighbour search over chunk vectors using
+ * hnswlib-wasm. Index files live in hnswlib's IndexedDB-backed filesystem;
+ * the label mapping is serialized separately by the caller.
+ */
+
+import type { HierarchicalNSW, HnswlibModule } from 'hnswlib-wasm';
+import { NoteChunk, VectorFilter } from '../../../types/RAG';
+import { RAGError } from '../../../utils/errors';
+import { getLogger } from '../../../utils/logger';
+import { FilterableChunk, matchesFilter } from './BaseVectorStore';
+
+const logger = getLogger('HnswIndex');
+
+const MIN_CAPACITY = 1024;
+
+export interface HnswParams {
+    m: number;               // Graph out-degree
+    efConstruction: number;  // Build-time candidate list size
+    efSearch: number;        // Query-time candidate list size; higher is slower but more accurate
+}
+
+export const DEFAULT_HNSW_PARAMS: HnswParams = {
+    m: 16,
+    efConstruction: 200,
+    efSearch: 100,
+};
+
+interface LabelEntry {
+    id: string;
+    filePath: string;
+}
+
+/**
+ * What the index knows about each file, enough to apply query filters
+ * without loading chunks. Metadata is per file, so chunks share it.
+ */
+type FileMetadata = FilterableChunk['metadata'];
+
+/**
+ * Serialized label mapping: entries are [label, chunk id, file path]
+ */
+export interface HnswMapping {
+    dimensions: number;
+    capacity: number;
+    nextLabel: number;
+    entries: [number, string, string][];
+    files: [string, FileMetadata][];
+}
+
+export interface HnswMatch {
+    id: string;
+    score: number;  // Cosine similarity
+}
+
+let libraryPromise: Promise<HnswlibModule> | undefined;
+
+/**
+ * Load the WASM module once. The package initializes its exports
+ * asynchronously, so wait for that before calling into it.
+ */
+function loadLibrary(): Promise<HnswlibModule> {
+    if (!libraryPromise) {
+        libraryPromise = (async () => {
+            const module = await import('hnswlib-wasm');
+            await (module as unknown as { __tla?: Promise<void> }).__tla;
+            const library = await module.loadHnswlib();
+            // Pull previously saved index files from IndexedDB
+            await module.syncFileSystem('read');
+            return library;
+        })();
+        libraryPromise.catch(() => {
+            libraryPromise = undefined;
+        });
+    }
+    return libraryPromise;
+}
+
+export class HnswIndex {
+    private labels: Map<number, LabelEntry> = new Map();
+    private idToLabel: Map<string, number> = new Map();
+    private files: Map<string, FileMetadata> = new Map();
+    private nextLabel = 0;
+
+    private constructor(
+        private index: HierarchicalNSW,
+        private dimensions: number,
+        private capacity: number,
+        private params: HnswParams
+    ) {
+        index.setEfSearch(params.efSearch);
+    }
+
+    /**
+     * Create an empty index
+     */
+    static async create(dimensions: number, capacity: number, params: HnswParams = DEFAULT_HNSW_PARAMS): Promise<HnswIndex> {
+        const library = await loadLibrary();
+        const size = Math.max(MIN_CAPACITY, capacity);
+        const index = new library.HierarchicalNSW('cosine', dimensions, '');
+        index.initIndex(size, params.m, params.efConstruction, 100);
+        return new HnswIndex(index, dimensions, size, params);
+    }
+
+    /**
+     * Restore a saved index. Returns undefined when the index file is
+     * missing or does not match the mapping.
+     */
+    static async load(fileName: string, mapping: HnswMapping, params: HnswParams = DEFAULT_HNSW_PARAMS): Promise<HnswIndex | undefined> {
+        const library = await loadLibrary();
+        if (!library.EmscriptenFileSystemManager.checkFileExists(fileName)) {
+            return undefined;
+        }
+
+        const index = new library.HierarchicalNSW('cosine', mapping.dimensions, '');
+        await index.readIndex(fileName, mapping.capacity);
+        if (index.getNumDimensions() !== mapping.dimensions) {
+            return undefined;
+        }
+
+        const restored = new HnswIndex(index, mapping.dimensions, mapping.capacity, params);
+        restored.nextLabel = mapping.nextLabel;
+        for (const [label, id, filePath] of mapping.entries) {
+            restored.labels.set(label, { id, filePath });
+            restored.idToLabel.set(id, label);
+        }
+        restored.files = new Map(mapping.files);
+
+        // Every live label must be known, otherwise results can't be resolved
+        const used = index.getUsedLabels();
+        if (used.length !== restored.labels.size || used.some(label => !restored.labels.has(label))) {
+            logger.warn('Saved index does not match its label mapping');
+            return undefined;
+        }
+
+        return restored;
+    }
+
+    get size(): number {
+        return this.labels.size;
+    }
+
+    /**
+     * Points marked deleted but still occupying the graph
+     */
+    get deletedCount(): number {
+        return this.index.getCurrentCount() - this.labels.size;
+    }
+
+    /**
+     * Add a chunk, replacing any previous vector with the same id
+     */
+    add(chunk: NoteChunk, vector: ArrayLike<number>): void {
+        if (vector.length !== this.dimensions) {
+            throw new RAGError(`Vector for ${chunk.id} has ${vector.length} dimensions, index expects ${this.dimensions}`);
+        }
+
+        this.remove(chunk.id);
+
+        // Deleted points keep their slots, so they count against capacity
+        if (this.index.getCurrentCount() >= this.capacity) {
+            this.capacity *= 2;
+            this.index.resizeIndex(this.capacity);
+        }
+
+        const label = this.nextLabel++;
+        this.index.addPoint(Float32Array.from(vector), label, false);
+        this.labels.set(label, { id: chunk.id, filePath: chunk.filePath });
+        this.idToLabel.set(chunk.id, label);
+        this.files.set(chunk.filePath, {
+            tags: chunk.metadata.tags,
+            frontmatter: chunk.metadata.frontmatter,
+            modifiedAt: chunk.metadata.modifiedAt
+        });
+    }
+
+    remove(id: string): boolean {
+        const label = this.idToLabel.get(id);
+        if (label === undefined) {
+            return false;
+        }
+
+        this.index.markDelete(label);
+        this.labels.delete(label);
+        this.idToLabel.delete(id);
+        return true;
+    }
+
+    removeFile(filePath: string): number {
+        let removed = 0;
+        for (const entry of [...this.labels.values()]) {
+            if (entry.filePath === filePath && this.remove(entry.id)) {
+                removed++;
+            }
+        }
+        this.files.delete(filePath);
+        return removed;
+    }
+
+    /**
+     * Approximate nearest neighbours, best first. The filter is applied
+     * during graph traversal so filtered queries still return up to k results.
+     */
+    search(vector: ArrayLike<number>, k: number, filter?: VectorFilter): HnswMatch[] {
+        const count = Math.min(k, this.labels.size);
+        if (count <= 0) {
+            return [];
+        }
+
+        // ef must be at least k for hnswlib to return k results
+        this.index.setEfSearch(Math.max(this.params.efSearch, count));
+
+        const labelFilter = filter
+            ? (label: number) => {
+                const entry = this.labels.get(label);
+                return entry !== undefined && matchesFilter(
+                    { filePath: entry.filePath, metadata: this.files.get(entry.filePath) ?? {} },
+                    filter
+                );
+            }
+            : undefined;
+
+        const result = this.index.searchKnn(Float32Array.from(vector), count, labelFilter);
+        return result.neighbors
+            .map((label, i) => ({ id: this.labels.get(label)?.id, score: 1 - result.distances[i] }))
+            .filter((match): match is HnswMatch => match.id !== undefined)
+            .sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Write the index to hnswlib's persistent filesystem and return the
+     * label mapping to store alongside it
+     */
+    async save(fileName: string): Promise<HnswMapping> {
+        await this.index.writeIndex(fileName);
+
+        return {
+            dimensions: this.dimensions,
+            capacity: this.capacity,
+            nextLabel: this.nextLabel,
+            entries: [...this.labels].map(([label, entry]) => [label, entry.id, entry.filePath]),
+            files: [...this.files]
+        };
+    }
+}
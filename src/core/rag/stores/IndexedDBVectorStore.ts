@@ -0,0 +1,272 @@
+/**
+ * IndexedDB Vector Store
+ * Browser database available on desktop and mobile. Vectors are kept as
+ * Float32Arrays and ranked with a cursor scan.
+ */
+
+import {
+    NoteChunk,
+    VectorQuery,
+    VectorRecord,
+    VectorSearchResult,
+    VectorStoreOptions,
+    VectorStoreStats
+} from '../../../types/RAG';
+import { ConfigurationError, RAGError } from '../../../utils/errors';
+import { getLogger } from '../../../utils/logger';
+import { BaseVectorStore, toChunk, TopKCollector } from './BaseVectorStore';
+
+const logger = getLogger('IndexedDBVectorStore');
+
+const DB_VERSION = 1;
+const CHUNK_STORE = 'chunks';
+const META_STORE = 'meta';
+const FILE_INDEX = 'filePath';
+
+type StoredRecord = NoteChunk & { vector: Float32Array };
+
+interface StoreMeta {
+    model: string;
+    dimensions: number;
+    updatedAt?: number;
+}
+
+export class IndexedDBVectorStore extends BaseVectorStore {
+    readonly backend = 'indexeddb' as const;
+
+    private db?: IDBDatabase;
+    private updatedAt?: number;
+
+    /**
+     * @param dbName Database name; should be unique per vault
+     */
+    constructor(private dbName: string, options: VectorStoreOptions) {
+        super(options);
+    }
+
+    async initialize(): Promise<void> {
+        if (this.initialized) {
+            return;
+        }
+
+        if (typeof indexedDB === 'undefined') {
+            throw new ConfigurationError('IndexedDB is not available on this platform');
+        }
+
+        this.db = await new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(this.dbName, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+                    db.createObjectStore(CHUNK_STORE, { keyPath: 'id' }).createIndex(FILE_INDEX, 'filePath');
+                }
+                if (!db.objectStoreNames.contains(META_STORE)) {
+                    db.createObjectStore(META_STORE);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(new RAGError(`Could not open IndexedDB '${this.dbName}': ${request.error?.message}`));
+            request.onblocked = () => logger.warn(`Opening '${this.dbName}' is blocked by another connection`);
+        });
+
+        const stored = await this.request<StoreMeta | undefined>(META_STORE, 'readonly', store => store.get('embedding'));
+        if (!this.isCompatible(stored)) {
+            logger.warn(`Discarding vectors from ${stored?.model}; store now uses ${this.options.model}`);
+            await this.request(CHUNK_STORE, 'readwrite', store => store.clear());
+        } else {
+            this.updatedAt = stored?.updatedAt;
+        }
+
+        this.initialized = true;
+        await this.writeMeta();
+    }
+
+    async upsert(records: VectorRecord[]): Promise<void> {
+        this.ensureInitialized();
+        this.validateRecords(records);
+
+        await this.transaction(CHUNK_STORE, 'readwrite', store => {
+            for (const record of records) {
+                store.put({ ...record, vector: new Float32Array(record.vector) });
+            }
+        });
+        await this.touch();
+    }
+
+    async deleteByFile(filePath: string): Promise<number> {
+        this.ensureInitialized();
+
+        let removed = 0;
+        await this.transaction(CHUNK_STORE, 'readwrite', store => {
+            const cursorRequest = store.index(FILE_INDEX).openCursor(IDBKeyRange.only(filePath));
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (cursor) {
+                    cursor.delete();
+                    removed++;
+                    cursor.continue();
+                }
+            };
+        });
+
+        if (removed > 0) {
+            await this.touch();
+        }
+        return removed;
+    }
+
+    async query(query: VectorQuery): Promise<VectorSearchResult[]> {
+        this.ensureInitialized();
+        this.validateQuery(query);
+
+        const collector = new TopKCollector(query);
+        await this.transaction(CHUNK_STORE, 'readonly', store => {
+            const cursorRequest = store.openCursor();
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (cursor) {
+                    collector.add(cursor.value as StoredRecord);
+                    cursor.continue();
+                }
+            };
+        });
+        return collector.getResults();
+    }
+
+    async getByIds(ids: string[]): Promise<NoteChunk[]> {
+        this.ensureInitialized();
+
+        const found = new Map<string, NoteChunk>();
+        await this.transaction(CHUNK_STORE, 'readonly', store => {
+            for (const id of ids) {
+                const request = store.get(id);
+                request.onsuccess = () => {
+                    if (request.result) {
+                        found.set(id, toChunk(request.result as StoredRecord));
+                    }
+                };
+            }
+        });
+        return ids.map(id => found.get(id)).filter((chunk): chunk is NoteChunk => chunk !== undefined);
+    }
+
+    async forEach(visitor: (chunk: NoteChunk, vector: ArrayLike<number>) => void): Promise<void> {
+        this.ensureInitialized();
+
+        await this.transaction(CHUNK_STORE, 'readonly', store => {
+            const cursorRequest = store.openCursor();
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (cursor) {
+                    const record = cursor.value as StoredRecord;
+                    visitor(toChunk(record), record.vector);
+                    cursor.continue();
+                }
+            };
+        });
+    }
+
+    async getRecordsByFile(filePath: string): Promise<VectorRecord[]> {
+        this.ensureInitialized();
+
+        const records = await this.request<StoredRecord[]>(
+            CHUNK_STORE,
+            'readonly',
+            store => store.index(FILE_INDEX).getAll(IDBKeyRange.only(filePath))
+        );
+        return records
+            .map(record => ({ ...record, vector: Array.from(record.vector) }))
+            .sort((a, b) => a.chunkIndex - b.chunkIndex);
+    }
+
+    async getFilePaths(): Promise<string[]> {
+        this.ensureInitialized();
+
+        const paths: string[] = [];
+        await this.transaction(CHUNK_STORE, 'readonly', store => {
+            // Unique-key cursor over the index visits each file once
+            const cursorRequest = store.index(FILE_INDEX).openKeyCursor(null, 'nextunique');
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (cursor) {
+                    paths.push(cursor.key as string);
+                    cursor.continue();
+                }
+            };
+        });
+        return paths;
+    }
+
+    async getStats(): Promise<VectorStoreStats> {
+        this.ensureInitialized();
+
+        const chunkCount = await this.request<number>(CHUNK_STORE, 'readonly', store => store.count());
+        return {
+            backend: this.backend,
+            model: this.options.model,
+            dimensions: this.options.dimensions,
+            chunkCount,
+            fileCount: (await this.getFilePaths()).length,
+            updatedAt: this.updatedAt
+        };
+    }
+
+    async clear(): Promise<void> {
+        this.ensureInitialized();
+        await this.request(CHUNK_STORE, 'readwrite', store => store.clear());
+        await this.touch();
+    }
+
+    async close(): Promise<void> {
+        this.db?.close();
+        this.db = undefined;
+        this.initialized = false;
+    }
+
+    private async touch(): Promise<void> {
+        this.updatedAt = Date.now();
+        await this.writeMeta();
+    }
+
+    private async writeMeta(): Promise<void> {
+        const meta: StoreMeta = {
+            model: this.options.model,
+            dimensions: this.options.dimensions,
+            updatedAt: this.updatedAt
+        };
+        await this.request(META_STORE, 'readwrite', store => store.put(meta, 'embedding'));
+    }
+
+    /**
+     * Run a single request and resolve with its result once the
+     * transaction commits
+     */
+    private async request<T>(
+        storeName: string,
+        mode: IDBTransactionMode,
+        run: (store: IDBObjectStore) => IDBRequest
+    ): Promise<T> {
+        let request!: IDBRequest;
+        await this.transaction(storeName, mode, store => {
+            request = run(store);
+        });
+        return request.result as T;
+    }
+
+    /**
+     * Resolve when the transaction completes, reject if it errors or aborts
+     */
+    private transaction(
+        storeName: string,
+        mode: IDBTransactionMode,
+        run: (store: IDBObjectStore) => void
+    ): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const tx = this.db!.transaction(storeName, mode);
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(new RAGError(`IndexedDB ${mode} on '${storeName}' failed: ${tx.error?.message}`));
+            tx.onabort = () => reject(new RAGError(`IndexedDB ${mode} on '${storeName}' aborted: ${tx.error?.message}`));
+            run(tx.objectStore(storeName));
+        });
+    }
+}
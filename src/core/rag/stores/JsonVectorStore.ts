@@ -0,0 +1,195 @@
+/**
+ * JSON Vector Store
+ * Keeps every record in memory and persists to a JSON file through the
+ * vault adapter. Works on every platform; suited to small vaults.
+ */
+
+import { App } from 'obsidian';
+import {
+    NoteChunk,
+    VectorQuery,
+    VectorRecord,
+    VectorSearchResult,
+    VectorStoreOptions,
+    VectorStoreStats
+} from '../../../types/RAG';
+import { getLogger } from '../../../utils/logger';
+import { BaseVectorStore, toChunk, TopKCollector } from './BaseVectorStore';
+
+const logger = getLogger('JsonVectorStore');
+
+const STORE_VERSION = 1;
+const SAVE_DELAY_MS = 2000;
+
+interface StoreFile {
+    version: number;
+    model: string;
+    dimensions: number;
+    updatedAt?: number;
+    records: VectorRecord[];
+}
+
+export class JsonVectorStore extends BaseVectorStore {
+    readonly backend = 'json' as const;
+
+    private records: Map<string, VectorRecord> = new Map();
+    private updatedAt?: number;
+    private saveTimer?: ReturnType<typeof setTimeout>;
+
+    constructor(
+        private app: App,
+        private filePath: string,
+        options: VectorStoreOptions
+    ) {
+        super(options);
+    }
+
+    async initialize(): Promise<void> {
+        if (this.initialized) {
+            return;
+        }
+
+        const adapter = this.app.vault.adapter;
+        if (await adapter.exists(this.filePath)) {
+            try {
+                const data = JSON.parse(await adapter.read(this.filePath)) as StoreFile;
+
+                if (this.isCompatible(data)) {
+                    for (const record of data.records ?? []) {
+                        this.records.set(record.id, record);
+                    }
+                    this.updatedAt = data.updatedAt;
+                    logger.info(`Loaded ${this.records.size} chunks`);
+                } else {
+                    logger.warn(`Discarding vectors from ${data.model}; store now uses ${this.options.model}`);
+                }
+            } catch (error) {
+                logger.error('Failed to load vector store, starting fresh:', error);
+            }
+        }
+
+        this.initialized = true;
+    }
+
+    async upsert(records: VectorRecord[]): Promise<void> {
+        this.ensureInitialized();
+        this.validateRecords(records);
+
+        for (const record of records) {
+            this.records.set(record.id, record);
+        }
+        this.markChanged();
+    }
+
+    async deleteByFile(filePath: string): Promise<number> {
+        this.ensureInitialized();
+
+        let removed = 0;
+        for (const [id, record] of this.records) {
+            if (record.filePath === filePath) {
+                this.records.delete(id);
+                removed++;
+            }
+        }
+
+        if (removed > 0) {
+            this.markChanged();
+        }
+        return removed;
+    }
+
+    async query(query: VectorQuery): Promise<VectorSearchResult[]> {
+        this.ensureInitialized();
+        this.validateQuery(query);
+
+        const collector = new TopKCollector(query);
+        for (const record of this.records.values()) {
+            collector.add(record);
+        }
+        return collector.getResults();
+    }
+
+    async getByIds(ids: string[]): Promise<NoteChunk[]> {
+        this.ensureInitialized();
+        return ids
+            .map(id => this.records.get(id))
+            .filter((record): record is VectorRecord => record !== undefined)
+            .map(toChunk);
+    }
+
+    async forEach(visitor: (chunk: NoteChunk, vector: ArrayLike<number>) => void): Promise<void> {
+        this.ensureInitialized();
+        for (const record of this.records.values()) {
+            visitor(toChunk(record), record.vector);
+        }
+    }
+
+    async getRecordsByFile(filePath: string): Promise<VectorRecord[]> {
+        this.ensureInitialized();
+        return [...this.records.values()]
+            .filter(record => record.filePath === filePath)
+            .sort((a, b) => a.chunkIndex - b.chunkIndex);
+    }
+
+    async getFilePaths(): Promise<string[]> {
+        this.ensureInitialized();
+        return [...new Set([...this.records.values()].map(record => record.filePath))];
+    }
+
+    async getStats(): Promise<VectorStoreStats> {
+        this.ensureInitialized();
+        return {
+            backend: this.backend,
+            model: this.options.model,
+            dimensions: this.options.dimensions,
+            chunkCount: this.records.size,
+            fileCount: (await this.getFilePaths()).length,
+            updatedAt: this.updatedAt
+        };
+    }
+
+    async clear(): Promise<void> {
+        this.ensureInitialized();
+        this.records.clear();
+        this.markChanged();
+    }
+
+    async close(): Promise<void> {
+        if (!this.initialized) {
+            return;
+        }
+
+        if (this.saveTimer) {
+            await this.flush();
+        }
+        this.records.clear();
+        this.initialized = false;
+    }
+
+    /**
+     * Write pending changes to disk immediately
+     */
+    async flush(): Promise<void> {
+        clearTimeout(this.saveTimer);
+        this.saveTimer = undefined;
+
+        const data: StoreFile = {
+            version: STORE_VERSION,
+            model: this.options.model,
+            dimensions: this.options.dimensions,
+            updatedAt: this.updatedAt,
+            records: [...this.records.values()]
+        };
+        await this.app.vault.adapter.write(this.filePath, JSON.stringify(data));
+    }
+
+    private markChanged(): void {
+        this.updatedAt = Date.now();
+
+        // Debounced so bulk indexing doesn't rewrite the whole file per batch
+        clearTimeout(this.saveTimer);
+        this.saveTimer = setTimeout(() => {
+            this.flush().catch(error => logger.error('Failed to save vector store:', error));
+        }, SAVE_DELAY_MS);
+    }
+}
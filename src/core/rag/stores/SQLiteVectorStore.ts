@@ -0,0 +1,318 @@
+/**
+ * SQLite Vector Store
+ * better-sqlite3 database on disk, desktop only. Vectors are stored as
+ * Float32 blobs and ranked by a scan.
+ */
+
+import type BetterSqlite3 from 'better-sqlite3';
+import {
+    NoteChunk,
+    VectorFilter,
+    VectorQuery,
+    VectorRecord,
+    VectorSearchResult,
+    VectorStoreOptions,
+    VectorStoreStats
+} from '../../../types/RAG';
+import { ConfigurationError } from '../../../utils/errors';
+import { getLogger } from '../../../utils/logger';
+import { BaseVectorStore, StoredVectorRecord, toChunk, TopKCollector } from './BaseVectorStore';
+
+const logger = getLogger('SQLiteVectorStore');
+
+const SCHEMA_VERSION = '3';
+
+interface ChunkRow {
+    id: string;
+    file_path: string;
+    chunk_index: number;
+    content: string;
+    content_hash: string | null;
+    heading_path: string;
+    start_line: number;
+    end_line: number;
+    token_count: number;
+    metadata: string;
+    modified_at: number | null;
+    vector: Buffer;
+}
+
+export class SQLiteVectorStore extends BaseVectorStore {
+    readonly backend = 'sqlite' as const;
+
+    private db?: BetterSqlite3.Database;
+
+    /**
+     * @param dbPath Absolute path of the database file
+     */
+    constructor(private dbPath: string, options: VectorStoreOptions) {
+        super(options);
+    }
+
+    async initialize(): Promise<void> {
+        if (this.initialized) {
+            return;
+        }
+
+        let Database: typeof BetterSqlite3;
+        try {
+            // Native module: loaded lazily and only on desktop
+            Database = (await import('better-sqlite3')).default;
+        } catch (error) {
+            throw new ConfigurationError(
+                'The SQLite vector store is unavailable on this system. ' +
+                `Choose the JSON backend instead. (${error instanceof Error ? error.message : String(error)})`
+            );
+        }
+
+        const db = new Database(this.dbPath);
+        db.pragma('journal_mode = WAL');
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS meta (
+                key TEXT PRIMARY KEY,
+                value TEXT NOT NULL
+            );
+        `);
+        this.db = db;
+
+        // Older layouts are dropped rather than migrated; the vault can be re-indexed
+        const schema = this.getMeta('schema');
+        if (schema !== undefined && schema !== SCHEMA_VERSION) {
+            logger.warn(`Dropping vectors stored with schema ${schema}`);
+            db.exec('DROP TABLE IF EXISTS chunks');
+        }
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS chunks (
+                id TEXT PRIMARY KEY,
+                file_path TEXT NOT NULL,
+                chunk_index INTEGER NOT NULL,
+                content TEXT NOT NULL,
+                content_hash TEXT,
+                heading_path TEXT NOT NULL,
+                start_line INTEGER NOT NULL,
+                end_line INTEGER NOT NULL,
+                token_count INTEGER NOT NULL,
+                metadata TEXT NOT NULL,
+                modified_at INTEGER,
+                vector BLOB NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS chunks_file_path ON chunks (file_path);
+        `);
+
+        const model = this.getMeta('model');
+        const stored = model !== undefined
+            ? { model, dimensions: Number(this.getMeta('dimensions') ?? 0) }
+            : undefined;
+
+        if (!this.isCompatible(stored)) {
+            logger.warn(`Discarding vectors from ${stored?.model}; store now uses ${this.options.model}`);
+            db.exec('DELETE FROM chunks');
+        }
+
+        this.writeEmbeddingInfo();
+        this.initialized = true;
+
+        const { count } = db.prepare('SELECT COUNT(*) AS count FROM chunks').get() as { count: number };
+        logger.info(`Opened ${this.dbPath} (${count} chunks)`);
+    }
+
+    async upsert(records: VectorRecord[]): Promise<void> {
+        this.ensureInitialized();
+        this.validateRecords(records);
+
+        const db = this.db!;
+        const insert = db.prepare(`
+            INSERT OR REPLACE INTO chunks
+                (id, file_path, chunk_index, content, content_hash, heading_path, start_line, end_line, token_count, metadata, modified_at, vector)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+
+        db.transaction((batch: VectorRecord[]) => {
+            for (const record of batch) {
+                insert.run(
+                    record.id,
+                    record.filePath,
+                    record.chunkIndex,
+                    record.content,
+                    record.contentHash ?? null,
+                    JSON.stringify(record.headingPath),
+                    record.startLine,
+                    record.endLine,
+                    record.tokenCount,
+                    JSON.stringify(record.metadata),
+                    record.metadata.modifiedAt ?? null,
+                    Buffer.from(new Float32Array(record.vector).buffer)
+                );
+            }
+        })(records);
+
+        // Dimensions may have been fixed by the first record
+        this.writeEmbeddingInfo();
+        this.touch();
+    }
+
+    async deleteByFile(filePath: string): Promise<number> {
+        this.ensureInitialized();
+
+        const result = this.db!.prepare('DELETE FROM chunks WHERE file_path = ?').run(filePath);
+        if (result.changes > 0) {
+            this.touch();
+        }
+        return result.changes;
+    }
+
+    async query(query: VectorQuery): Promise<VectorSearchResult[]> {
+        this.ensureInitialized();
+        this.validateQuery(query);
+
+        const collector = new TopKCollector(query);
+        const { where, params } = buildWhereClause(query.filter);
+        const rows = this.db!.prepare(`SELECT * FROM chunks${where}`).iterate(...params);
+
+        for (const row of rows as IterableIterator<ChunkRow>) {
+            collector.add(this.rowToRecord(row));
+        }
+        return collector.getResults();
+    }
+
+    async getByIds(ids: string[]): Promise<NoteChunk[]> {
+        this.ensureInitialized();
+
+        const select = this.db!.prepare('SELECT * FROM chunks WHERE id = ?');
+        return ids
+            .map(id => select.get(id) as ChunkRow | undefined)
+            .filter((row): row is ChunkRow => row !== undefined)
+            .map(row => toChunk(this.rowToRecord(row)));
+    }
+
+    async forEach(visitor: (chunk: NoteChunk, vector: ArrayLike<number>) => void): Promise<void> {
+        this.ensureInitialized();
+
+        for (const row of this.db!.prepare('SELECT * FROM chunks').iterate() as IterableIterator<ChunkRow>) {
+            const record = this.rowToRecord(row);
+            visitor(toChunk(record), record.vector);
+        }
+    }
+
+    async getRecordsByFile(filePath: string): Promise<VectorRecord[]> {
+        this.ensureInitialized();
+
+        const rows = this.db!.prepare('SELECT * FROM chunks WHERE file_path = ? ORDER BY chunk_index').all(filePath) as ChunkRow[];
+        return rows.map(row => {
+            const record = this.rowToRecord(row);
+            return { ...record, vector: Array.from(record.vector) };
+        });
+    }
+
+    async getFilePaths(): Promise<string[]> {
+        this.ensureInitialized();
+        return this.db!.prepare('SELECT DISTINCT file_path FROM chunks').pluck().all() as string[];
+    }
+
+    async getStats(): Promise<VectorStoreStats> {
+        this.ensureInitialized();
+
+        const counts = this.db!
+            .prepare('SELECT COUNT(*) AS chunks, COUNT(DISTINCT file_path) AS files FROM chunks')
+            .get() as { chunks: number; files: number };
+        const updatedAt = this.getMeta('updatedAt');
+
+        return {
+            backend: this.backend,
+            model: this.options.model,
+            dimensions: this.options.dimensions,
+            chunkCount: counts.chunks,
+            fileCount: counts.files,
+            updatedAt: updatedAt ? Number(updatedAt) : undefined
+        };
+    }
+
+    async clear(): Promise<void> {
+        this.ensureInitialized();
+        this.db!.exec('DELETE FROM chunks');
+        this.touch();
+    }
+
+    async close(): Promise<void> {
+        this.db?.close();
+        this.db = undefined;
+        this.initialized = false;
+    }
+
+    private rowToRecord(row: ChunkRow): StoredVectorRecord {
+        return {
+            id: row.id,
+            filePath: row.file_path,
+            chunkIndex: row.chunk_index,
+            content: row.content,
+            contentHash: row.content_hash ?? undefined,
+            headingPath: JSON.parse(row.heading_path),
+            startLine: row.start_line,
+            endLine: row.end_line,
+            tokenCount: row.token_count,
+            metadata: JSON.parse(row.metadata),
+            // Copy first: the blob's offset in its backing buffer may not be 4-byte aligned
+            vector: new Float32Array(new Uint8Array(row.vector).buffer)
+        };
+    }
+
+    private getMeta(key: string): string | undefined {
+        const row = this.db!.prepare('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | undefined;
+        return row?.value;
+    }
+
+    private setMeta(key: string, value: string): void {
+        this.db!.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(key, value);
+    }
+
+    private writeEmbeddingInfo(): void {
+        this.setMeta('schema', SCHEMA_VERSION);
+        this.setMeta('model', this.options.model);
+        this.setMeta('dimensions', String(this.options.dimensions));
+    }
+
+    private touch(): void {
+        this.setMeta('updatedAt', String(Date.now()));
+    }
+}
+
+/**
+ * Narrow a query by path and modification date in SQL. Tags and frontmatter
+ * live in the metadata JSON and are checked per row, along with everything
+ * else, by the collector.
+ */
+function buildWhereClause(filter?: VectorFilter): { where: string; params: (string | number)[] } {
+    const clauses: string[] = [];
+    const params: (string | number)[] = [];
+    const inFolder = "(file_path = ? OR file_path LIKE ? ESCAPE '\\')";
+    const folderParams = (folder: string) => [folder, `${folder.replace(/[\\%_]/g, '\\$&')}/%`];
+
+    if (filter?.filePaths && filter.filePaths.length > 0) {
+        clauses.push(`file_path IN (${filter.filePaths.map(() => '?').join(', ')})`);
+        params.push(...filter.filePaths);
+    }
+    // An empty folder is the vault root, which allows everything
+    if (filter?.folders && filter.folders.length > 0 && !filter.folders.includes('')) {
+        clauses.push(`(${filter.folders.map(() => inFolder).join(' OR ')})`);
+        params.push(...filter.folders.flatMap(folderParams));
+    }
+    for (const folder of (filter?.excludeFolders ?? []).filter(folder => folder !== '')) {
+        clauses.push(`NOT ${inFolder}`);
+        params.push(...folderParams(folder));
+    }
+    if (filter?.excludeFilePaths && filter.excludeFilePaths.length > 0) {
+        clauses.push(`file_path NOT IN (${filter.excludeFilePaths.map(() => '?').join(', ')})`);
+        params.push(...filter.excludeFilePaths);
+    }
+    if (filter?.modifiedAfter !== undefined) {
+        clauses.push('modified_at >= ?');
+        params.push(filter.modifiedAfter);
+    }
+    if (filter?.modifiedBefore !== undefined) {
+        clauses.push('modified_at < ?');
+        params.push(filter.modifiedBefore);
+    }
+
+    return { where: clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : '', params };
+}
@@ -0,0 +1,113 @@
+/**
+ * Vector Store Factory
+ * Resolves the configured backend (including 'auto' platform detection)
+ * and opens the store
+ */
+
+import { App, FileSystemAdapter, Platform } from 'obsidian';
+import { VectorStore, VectorStoreBackend, VectorStoreOptions } from '../../../types/RAG';
+import { RAGConfig } from '../../../types/Settings';
+import { ConfigurationError } from '../../../utils/errors';
+import { getLogger } from '../../../utils/logger';
+import { joinPath } from '../../../utils/PathUtils';
+import { AnnVectorStore } from './AnnVectorStore';
+import { IndexedDBVectorStore } from './IndexedDBVectorStore';
+import { JsonVectorStore } from './JsonVectorStore';
+import { SQLiteVectorStore } from './SQLiteVectorStore';
+
+const logger = getLogger('VectorStoreFactory');
+
+const JSON_FILE = 'vectors.json';
+const SQLITE_FILE = 'vectors.sqlite';
+const HNSW_MAPPING_FILE = 'vectors.hnsw.json';
+const INDEXEDDB_PREFIX = 'mnemosyne-vectors';
+
+export interface VectorStoreFactoryContext {
+    app: App;
+    pluginDir: string;    // Vault-relative plugin folder (manifest.dir)
+    collection?: string;  // Stored apart from the vault notes under this name, e.g. 'conversations'
+}
+
+/**
+ * 'auto' picks SQLite on desktop and IndexedDB on mobile
+ */
+export function resolveVectorStoreBackend(backend: RAGConfig['backend']): VectorStoreBackend {
+    if (backend !== 'auto') {
+        return backend;
+    }
+    return Platform.isDesktopApp ? 'sqlite' : 'indexeddb';
+}
+
+/**
+ * Create and initialize the configured vector store, wrapped with an HNSW
+ * index for large collections. With 'auto', a desktop that cannot load
+ * SQLite falls back to the JSON store.
+ */
+export async function openVectorStore(
+    config: RAGConfig,
+    options: VectorStoreOptions,
+    context: VectorStoreFactoryContext
+): Promise<VectorStore> {
+    const backend = resolveVectorStoreBackend(config.backend);
+
+    try {
+        const store = withAnnIndex(createVectorStore(backend, options, context), context);
+        await store.initialize();
+        return store;
+    } catch (error) {
+        if (config.backend !== 'auto' || backend !== 'sqlite') {
+            throw error;
+        }
+
+        logger.warn('SQLite vector store unavailable, falling back to JSON:', error);
+        const fallback = withAnnIndex(createVectorStore('json', options, context), context);
+        await fallback.initialize();
+        return fallback;
+    }
+}
+
+/**
+ * Large collections are searched through an HNSW index; small ones exactly
+ */
+function withAnnIndex(store: VectorStore, context: VectorStoreFactoryContext): VectorStore {
+    return new AnnVectorStore(context.app, store, {
+        indexFileName: `${getCollectionDatabaseName(context)}.hnsw`,
+        mappingPath: joinPath(context.pluginDir, getCollectionFileName(HNSW_MAPPING_FILE, context))
+    });
+}
+
+function createVectorStore(
+    backend: VectorStoreBackend,
+    options: VectorStoreOptions,
+    context: VectorStoreFactoryContext
+): VectorStore {
+    switch (backend) {
+        case 'json':
+            return new JsonVectorStore(context.app, joinPath(context.pluginDir, getCollectionFileName(JSON_FILE, context)), options);
+
+        case 'indexeddb':
+            // IndexedDB is shared by every vault opened in the app
+            return new IndexedDBVectorStore(getCollectionDatabaseName(context), options);
+
+        case 'sqlite': {
+            const adapter = context.app.vault.adapter;
+            if (!(adapter instanceof FileSystemAdapter)) {
+                throw new ConfigurationError('The SQLite vector store is only available on desktop');
+            }
+            return new SQLiteVectorStore(adapter.getFullPath(joinPath(context.pluginDir, getCollectionFileName(SQLITE_FILE, context))), options);
+        }
+    }
+}
+
+/**
+ * Collections other than the vault notes get their own files, so each can
+ * be cleared or rebuilt alone
+ */
+function getCollectionFileName(fileName: string, context: VectorStoreFactoryContext): string {
+    return context.collection ? `${context.collection}-${fileName}` : fileName;
+}
+
+function getCollectionDatabaseName(context: VectorStoreFactoryContext): string {
+    const name = `${INDEXEDDB_PREFIX}-${context.app.vault.getName()}`;
+    return context.collection ? `${name}-${context.collection}` : name;
+}
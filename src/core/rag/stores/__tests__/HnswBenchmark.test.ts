@@ -0,0 +1,21 @@
+import 'fake-indexeddb/auto';
+import { runRecallBenchmark } from '../HnswBenchmark';
+
+// hnswlib-wasm is a browser build: it checks for window and mounts IndexedDB
+Object.assign(globalThis, { window: globalThis });
+
+const SMALL_SET = { chunks: 4000, dimensions: 128, queries: 50, clusters: 40 };
+
+describe('runRecallBenchmark', () => {
+    it('finds nearly all exact neighbours with the default parameters', async () => {
+        const result = await runRecallBenchmark(SMALL_SET);
+
+        expect(result.recall).toBeGreaterThanOrEqual(0.95);
+    }, 60000);
+
+    it('reports lower recall for a sparse graph and narrow search', async () => {
+        const result = await runRecallBenchmark({ ...SMALL_SET, params: { m: 4, efConstruction: 20, efSearch: 10 } });
+
+        expect(result.recall).toBeLessThan(0.95);
+    }, 60000);
+});
@@ -0,0 +1,165 @@
+/**
+ * Schema Validator
+ * Validates tool arguments against the JSON Schema subset used in
+ * ToolDefinition.parameters
+ */
+
+export interface SchemaValidationResult {
+    valid: boolean;
+    errors: string[];
+}
+
+/**
+ * Validate a value against a JSON schema. Supports type, properties,
+ * required, additionalProperties, items, enum, const, numeric and length
+ * bounds, pattern, and anyOf/oneOf. Unknown keywords are ignored.
+ */
+export function validateAgainstSchema(value: unknown, schema: Record<string, any>): SchemaValidationResult {
+    const errors: string[] = [];
+    validateNode(value, schema, '$', errors);
+    return { valid: errors.length === 0, errors };
+}
+
+function validateNode(value: unknown, schema: Record<string, any> | undefined, path: string, errors: string[]): void {
+    if (!schema || typeof schema !== 'object') {
+        return;
+    }
+
+    if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+        const options: Record<string, any>[] = schema.anyOf ?? schema.oneOf;
+        const matches = options.filter(option => {
+            const optionErrors: string[] = [];
+            validateNode(value, option, path, optionErrors);
+            return optionErrors.length === 0;
+        }).length;
+
+        if (matches === 0 || (schema.oneOf && matches > 1)) {
+            errors.push(`${path}: does not match ${schema.oneOf ? 'exactly one' : 'any'} of the allowed schemas`);
+            return;
+        }
+    }
+
+    if (schema.type !== undefined) {
+        const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            errors.push(`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`);
+            return;
+        }
+    }
+
+    if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+        errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+        errors.push(`${path}: must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`);
+    }
+
+    if (typeof value === 'string') {
+        validateString(value, schema, path, errors);
+    } else if (typeof value === 'number') {
+        validateNumber(value, schema, path, errors);
+    } else if (Array.isArray(value)) {
+        validateArray(value, schema, path, errors);
+    } else if (value !== null && typeof value === 'object') {
+        validateObject(value as Record<string, unknown>, schema, path, errors);
+    }
+}
+
+function validateString(value: string, schema: Record<string, any>, path: string, errors: string[]): void {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined) {
+        try {
+            if (!new RegExp(schema.pattern).test(value)) {
+                errors.push(`${path}: does not match pattern ${schema.pattern}`);
+            }
+        } catch {
+            // An invalid pattern in the tool definition is not the caller's fault
+        }
+    }
+}
+
+function validateNumber(value: number, schema: Record<string, any>, path: string, errors: string[]): void {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+        errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+        errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+    }
+}
+
+function validateArray(value: unknown[], schema: Record<string, any>, path: string, errors: string[]): void {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path}: must contain at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path}: must contain at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === 'object') {
+        value.forEach((item, index) => validateNode(item, schema.items, `${path}[${index}]`, errors));
+    }
+}
+
+function validateObject(value: Record<string, unknown>, schema: Record<string, any>, path: string, errors: string[]): void {
+    const properties: Record<string, any> = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+        if (value[key] === undefined) {
+            errors.push(`${path}.${key}: is required`);
+        }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+        if (key in properties) {
+            if (propertyValue !== undefined) {
+                validateNode(propertyValue, properties[key], `${path}.${key}`, errors);
+            }
+        } else if (schema.additionalProperties === false) {
+            errors.push(`${path}.${key}: is not an allowed property`);
+        } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+            validateNode(propertyValue, schema.additionalProperties, `${path}.${key}`, errors);
+        }
+    }
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+        case 'string':
+            return typeof value === 'string';
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'integer':
+            return typeof value === 'number' && Number.isInteger(value);
+        case 'boolean':
+            return typeof value === 'boolean';
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return value !== null && typeof value === 'object' && !Array.isArray(value);
+        case 'null':
+            return value === null;
+        default:
+            return true;
+    }
+}
+
+function describeType(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    return typeof value;
+}
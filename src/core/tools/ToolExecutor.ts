@@ -0,0 +1,270 @@
+/**
+ * Tool Executor
+ * Runs the tool-calling loop: dispatches ToolCalls to registered handlers,
+ * feeds results back as tool messages and re-invokes the provider until it
+ * produces a final answer
+ */
+
+import { ConversationMessage, ToolExecution } from '../../types/Conversation';
+import {
+    CompletionRequest,
+    CompletionResponse,
+    Message,
+    TokenUsage,
+    ToolCall,
+} from '../../types/Provider';
+import { ToolExecutionError } from '../../utils/errors';
+import { getLogger } from '../../utils/logger';
+import { LLMManager, ProviderSelection } from '../llm/LLMManager';
+import { validateAgainstSchema } from './SchemaValidator';
+import { ToolContext, ToolHandler, ToolPermissionSource, ToolRegistry } from './ToolRegistry';
+
+const logger = getLogger('ToolExecutor');
+
+const DEFAULT_MAX_ITERATIONS = 8;
+
+/**
+ * Tool output beyond this length is truncated before being sent back
+ */
+const MAX_RESULT_CHARS = 20000;
+
+export interface ToolLoopOptions {
+    /**
+     * Agent whose tool permissions and provider selection apply
+     */
+    agent?: ToolPermissionSource & ProviderSelection & { id?: string };
+    conversationId?: string;
+
+    /**
+     * Provider round trips allowed before giving up on a final answer
+     */
+    maxIterations?: number;
+
+    /**
+     * Asked before running tools marked requiresConfirmation; declining
+     * reports the refusal to the model
+     */
+    confirm?: (call: ToolCall, handler: ToolHandler) => Promise<boolean>;
+
+    /**
+     * Called after each tool execution, e.g. to update the UI
+     */
+    onToolExecution?: (execution: ToolExecution) => void;
+}
+
+export type ToolLoopStopReason = 'final' | 'max_iterations' | 'cancelled';
+
+export interface ToolLoopResult {
+    /**
+     * Final assistant message with every tool execution recorded on it
+     */
+    message: ConversationMessage;
+
+    /**
+     * Messages added during the loop (assistant tool-call turns and tool
+     * results), in order, excluding the final assistant message
+     */
+    transcript: Message[];
+
+    toolExecutions: ToolExecution[];
+    iterations: number;
+    stopReason: ToolLoopStopReason;
+}
+
+export class ToolExecutor {
+    constructor(
+        private llmManager: LLMManager,
+        private registry: ToolRegistry
+    ) {}
+
+    /**
+     * Complete a request, executing any tool calls the model makes until it
+     * returns a final answer or the iteration cap is reached
+     */
+    async run(request: CompletionRequest, options: ToolLoopOptions = {}): Promise<ToolLoopResult> {
+        const handlers = this.registry.getPermittedTools(options.agent);
+        const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+        const context: ToolContext = {
+            agentId: options.agent?.id,
+            conversationId: options.conversationId,
+            signal: request.signal
+        };
+
+        const transcript: Message[] = [];
+        const executions: ToolExecution[] = [];
+        const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+        const start = Date.now();
+
+        let iterations = 0;
+        let response: CompletionResponse;
+        let providerId: string;
+        let retryCount = 0;
+
+        for (;;) {
+            iterations++;
+
+            const result = await this.llmManager.complete({
+                ...request,
+                messages: [...request.messages, ...transcript],
+                // Only offer what executeCall will run; anything else wastes an iteration
+                tools: handlers.length > 0 ? this.registry.getDefinitions(handlers) : undefined,
+                attribution: request.attribution ?? {
+                    agentId: options.agent?.id,
+                    conversationId: options.conversationId
+                }
+            }, options.agent);
+
+            response = result.response;
+            providerId = result.providerId;
+            retryCount += result.metadata.retryCount ?? 0;
+            this.addUsage(usage, response.usage);
+
+            const toolCalls = response.toolCalls ?? [];
+            if (response.finishReason !== 'tool_calls' && toolCalls.length === 0) {
+                return this.buildResult(response, providerId, transcript, executions, usage, iterations, start, retryCount,
+                    response.finishReason === 'cancelled' ? 'cancelled' : 'final');
+            }
+
+            transcript.push({ role: 'assistant', content: response.content, toolCalls });
+
+            for (const call of toolCalls) {
+                const execution = await this.executeCall(call, handlers, context, options);
+                executions.push(execution);
+                options.onToolExecution?.(execution);
+
+                transcript.push({
+                    role: 'tool',
+                    name: call.name,
+                    toolCallId: call.id,
+                    content: this.formatResult(execution)
+                });
+            }
+
+            if (request.signal?.aborted) {
+                return this.buildResult(response, providerId, transcript, executions, usage, iterations, start, retryCount, 'cancelled');
+            }
+
+            if (iterations >= maxIterations) {
+                logger.warn(`Tool loop stopped after ${iterations} iterations without a final answer`);
+                return this.buildResult(response, providerId, transcript, executions, usage, iterations, start, retryCount, 'max_iterations');
+            }
+        }
+    }
+
+    /**
+     * Validate and run a single tool call. Failures are captured on the
+     * execution record rather than thrown, so the model can react to them.
+     */
+    async executeCall(
+        call: ToolCall,
+        handlers: ToolHandler[],
+        context: ToolContext,
+        options: Pick<ToolLoopOptions, 'confirm'> = {}
+    ): Promise<ToolExecution> {
+        const execution: ToolExecution = {
+            toolCallId: call.id,
+            toolName: call.name,
+            parameters: call.arguments ?? {},
+            result: null,
+            timestamp: Date.now(),
+            success: false
+        };
+
+        try {
+            const handler = handlers.find(h => h.definition.name === call.name);
+            if (!handler) {
+                throw new ToolExecutionError(`Tool '${call.name}' is not available to this agent`, call.name);
+            }
+
+            const validation = validateAgainstSchema(execution.parameters, handler.definition.parameters);
+            if (!validation.valid) {
+                throw new ToolExecutionError(`Invalid arguments: ${validation.errors.join('; ')}`, call.name);
+            }
+
+            if (handler.requiresConfirmation) {
+                execution.confirmationRequired = true;
+                execution.userConfirmed = options.confirm ? await options.confirm(call, handler) : false;
+
+                if (!execution.userConfirmed) {
+                    throw new ToolExecutionError('The user declined to run this tool', call.name);
+                }
+            }
+
+            if (context.signal?.aborted) {
+                throw new ToolExecutionError('Request cancelled before the tool ran', call.name);
+            }
+
+            execution.result = await handler.execute(execution.parameters, context);
+            execution.success = true;
+        } catch (error) {
+            execution.error = error instanceof Error ? error.message : String(error);
+            logger.warn(`Tool '${call.name}' failed: ${execution.error}`);
+        }
+
+        return execution;
+    }
+
+    private formatResult(execution: ToolExecution): string {
+        if (!execution.success) {
+            return JSON.stringify({ error: execution.error });
+        }
+
+        let text: string;
+        if (typeof execution.result === 'string') {
+            text = execution.result;
+        } else if (execution.result === undefined) {
+            text = 'OK';
+        } else {
+            try {
+                text = JSON.stringify(execution.result);
+            } catch {
+                text = String(execution.result);
+            }
+        }
+
+        if (text.length > MAX_RESULT_CHARS) {
+            text = `${text.substring(0, MAX_RESULT_CHARS)}\n[truncated ${text.length - MAX_RESULT_CHARS} characters]`;
+        }
+
+        return text;
+    }
+
+    private addUsage(total: TokenUsage, usage: TokenUsage | undefined): void {
+        if (!usage) {
+            return;
+        }
+
+        total.promptTokens += usage.promptTokens;
+        total.completionTokens += usage.completionTokens;
+        total.totalTokens += usage.totalTokens;
+    }
+
+    private buildResult(
+        response: CompletionResponse,
+        providerId: string,
+        transcript: Message[],
+        executions: ToolExecution[],
+        usage: TokenUsage,
+        iterations: number,
+        start: number,
+        retryCount: number,
+        stopReason: ToolLoopStopReason
+    ): ToolLoopResult {
+        const message: ConversationMessage = {
+            id: `msg_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 8)}`,
+            role: 'assistant',
+            content: response.content,
+            timestamp: Date.now(),
+            toolExecutions: executions.length > 0 ? executions : undefined,
+            usage,
+            metadata: {
+                model: response.model,
+                providerId,
+                responseTimeMs: Date.now() - start,
+                retryCount
+            }
+        };
+
+        return { message, transcript, toolExecutions: executions, iterations, stopReason };
+    }
+}
@@ -0,0 +1,117 @@
+/**
+ * Tool Registry
+ * Registered tool handlers and per-agent tool permissions
+ */
+
+import { ToolDefinition } from '../../types/Provider';
+import { getLogger } from '../../utils/logger';
+
+const logger = getLogger('ToolRegistry');
+
+/**
+ * Passed to every handler invocation
+ */
+export interface ToolContext {
+    agentId?: string;
+    conversationId?: string;
+    signal?: AbortSignal;
+}
+
+export interface ToolHandler {
+    definition: ToolDefinition;
+
+    /**
+     * Run the tool. Arguments have already been validated against
+     * definition.parameters. Throw to report a failure to the model.
+     */
+    execute(args: Record<string, any>, context: ToolContext): Promise<unknown>;
+
+    /**
+     * True if the tool changes vault or external state; excluded for
+     * read-only agents
+     */
+    mutating?: boolean;
+
+    /**
+     * Ask the user before running
+     */
+    requiresConfirmation?: boolean;
+}
+
+/**
+ * Tool permissions as carried by the different agent config shapes
+ */
+export interface ToolPermissionSource {
+    mcpTools?: string[] | {
+        enabled: boolean;
+        allowedTools: string[];
+        readOnly: boolean;
+    };
+    mcpToolPermissions?: string[];
+}
+
+/**
+ * Grants access to every registered tool when listed in an agent's permissions
+ */
+export const ALL_TOOLS = '*';
+
+export class ToolRegistry {
+    private handlers: Map<string, ToolHandler> = new Map();
+
+    register(handler: ToolHandler): void {
+        const name = handler.definition.name;
+        if (this.handlers.has(name)) {
+            logger.warn(`Replacing existing handler for tool '${name}'`);
+        }
+
+        this.handlers.set(name, handler);
+    }
+
+    unregister(name: string): boolean {
+        return this.handlers.delete(name);
+    }
+
+    get(name: string): ToolHandler | undefined {
+        return this.handlers.get(name);
+    }
+
+    getAll(): ToolHandler[] {
+        return Array.from(this.handlers.values());
+    }
+
+    /**
+     * Handlers an agent is permitted to call. Agents without any tool
+     * permissions get no tools.
+     */
+    getPermittedTools(agent?: ToolPermissionSource): ToolHandler[] {
+        if (!agent) {
+            return [];
+        }
+
+        let allowed: string[];
+        let readOnly = false;
+
+        if (Array.isArray(agent.mcpTools)) {
+            allowed = agent.mcpTools;
+        } else if (agent.mcpTools) {
+            if (!agent.mcpTools.enabled) {
+                return [];
+            }
+            allowed = agent.mcpTools.allowedTools;
+            readOnly = agent.mcpTools.readOnly;
+        } else {
+            allowed = agent.mcpToolPermissions ?? [];
+        }
+
+        const allowAll = allowed.includes(ALL_TOOLS);
+
+        return this.getAll().filter(handler =>
+            (allowAll || allowed.includes(handler.definition.name)) &&
+            !(readOnly && handler.mutating)
+        );
+    }
+
+    getDefinitions(handlers: ToolHandler[] = this.getAll()): ToolDefinition[] {
+        return handlers.map(handler => handler.definition);
+    }
+}
@@ -0,0 +1,58 @@
+import { validateAgainstSchema } from '../SchemaValidator';
+
+const noteSchema = {
+    type: 'object',
+    properties: {
+        path: { type: 'string', pattern: '\\.md$' },
+        tags: { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: 3 },
+        priority: { type: 'integer', minimum: 1, maximum: 5 },
+        mode: { enum: ['append', 'replace'] }
+    },
+    required: ['path'],
+    additionalProperties: false
+};
+
+describe('validateAgainstSchema', () => {
+    it('accepts valid arguments', () => {
+        expect(validateAgainstSchema({ path: 'Inbox.md', tags: ['todo'], priority: 2, mode: 'append' }, noteSchema))
+            .toEqual({ valid: true, errors: [] });
+    });
+
+    it('reports every error with its path', () => {
+        const result = validateAgainstSchema(
+            { tags: ['', 'a', 'b', 'c'], priority: 2.5, mode: 'delete', extra: true },
+            noteSchema
+        );
+
+        expect(result.valid).toBe(false);
+        expect(result.errors).toEqual([
+            '$.path: is required',
+            '$.tags: must contain at most 3 items',
+            '$.tags[0]: must be at least 1 characters',
+            '$.priority: expected integer, got number',
+            '$.mode: must be one of "append", "replace"',
+            '$.extra: is not an allowed property'
+        ]);
+    });
+
+    it('checks patterns and numeric bounds', () => {
+        expect(validateAgainstSchema({ path: 'Inbox.txt', priority: 9 }, noteSchema).errors).toEqual([
+            '$.path: does not match pattern \\.md$',
+            '$.priority: must be <= 5'
+        ]);
+    });
+
+    it('requires exactly one oneOf match but any anyOf match', () => {
+        const oneOf = { oneOf: [{ type: 'number' }, { type: 'integer' }] };
+        const anyOf = { anyOf: [{ type: 'number' }, { type: 'integer' }] };
+
+        expect(validateAgainstSchema(1.5, oneOf).valid).toBe(true);
+        expect(validateAgainstSchema(2, oneOf).errors).toEqual(['$: does not match exactly one of the allowed schemas']);
+        expect(validateAgainstSchema(2, anyOf).valid).toBe(true);
+        expect(validateAgainstSchema('2', anyOf).errors).toEqual(['$: does not match any of the allowed schemas']);
+    });
+
+    it('ignores an invalid pattern in the schema', () => {
+        expect(validateAgainstSchema('anything', { type: 'string', pattern: '(' }).valid).toBe(true);
+    });
+});
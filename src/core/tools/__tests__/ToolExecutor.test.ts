@@ -0,0 +1,135 @@
+import { App } from 'obsidian';
+import { CompletionRequest } from '../../../types/Provider';
+import { LLMManager } from '../../llm/LLMManager';
+import { MockProvider } from '../../llm/testing/MockProvider';
+import { ToolExecutor } from '../ToolExecutor';
+import { ToolHandler, ToolRegistry } from '../ToolRegistry';
+
+const request: CompletionRequest = {
+    messages: [{ role: 'user', content: 'Find my weekly review' }]
+};
+
+const searchAgent = { id: 'researcher', mcpToolPermissions: ['search_notes'] };
+
+function createSearchTool(): ToolHandler & { execute: jest.Mock } {
+    return {
+        definition: {
+            name: 'search_notes',
+            description: 'Search the vault',
+            parameters: {
+                type: 'object',
+                properties: { query: { type: 'string', minLength: 1 }, limit: { type: 'integer', minimum: 1 } },
+                required: ['query']
+            }
+        },
+        execute: jest.fn(async (args: Record<string, unknown>) => [`Results for ${args.query}`])
+    };
+}
+
+function setup(...tools: ToolHandler[]): { mock: MockProvider; executor: ToolExecutor } {
+    const mock = new MockProvider('primary');
+    const manager = new LLMManager([], new App(), { defaultProviderId: 'primary' });
+    manager.addProvider(mock);
+
+    const registry = new ToolRegistry();
+    tools.forEach(tool => registry.register(tool));
+
+    return { mock, executor: new ToolExecutor(manager, registry) };
+}
+
+describe('ToolExecutor', () => {
+    it('runs tool calls and feeds the results back until a final answer', async () => {
+        const search = createSearchTool();
+        const { mock, executor } = setup(search);
+        mock.enqueue(
+            { toolCalls: [{ id: 'call_1', name: 'search_notes', arguments: { query: 'weekly review' } }] },
+            { content: 'Your weekly review is in Reviews/2024-W01.' }
+        );
+        const onToolExecution = jest.fn();
+
+        const result = await executor.run(request, { agent: searchAgent, onToolExecution });
+
+        expect(result.stopReason).toBe('final');
+        expect(result.iterations).toBe(2);
+        expect(result.message.content).toBe('Your weekly review is in Reviews/2024-W01.');
+        expect(search.execute).toHaveBeenCalledWith({ query: 'weekly review' }, expect.objectContaining({ agentId: 'researcher' }));
+        expect(onToolExecution).toHaveBeenCalledTimes(1);
+
+        expect(result.toolExecutions).toEqual([expect.objectContaining({
+            toolCallId: 'call_1',
+            toolName: 'search_notes',
+            parameters: { query: 'weekly review' },
+            result: ['Results for weekly review'],
+            success: true
+        })]);
+        expect(result.message.toolExecutions).toEqual(result.toolExecutions);
+
+        expect(mock.calls[0].tools?.map(tool => tool.name)).toEqual(['search_notes']);
+        expect(mock.calls[1].messages.slice(-2)).toEqual([
+            { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'search_notes', arguments: { query: 'weekly review' } }] },
+            { role: 'tool', name: 'search_notes', toolCallId: 'call_1', content: '["Results for weekly review"]' }
+        ]);
+    });
+
+    it('reports invalid arguments to the model without running the tool', async () => {
+        const search = createSearchTool();
+        const { mock, executor } = setup(search);
+        mock.enqueue(
+            { toolCalls: [{ id: 'call_1', name: 'search_notes', arguments: { limit: 0 } }] },
+            { content: 'Sorry, I need a query.' }
+        );
+
+        const result = await executor.run(request, { agent: searchAgent });
+
+        expect(search.execute).not.toHaveBeenCalled();
+        expect(result.toolExecutions[0].success).toBe(false);
+        expect(result.toolExecutions[0].error).toBe('Invalid arguments: $.query: is required; $.limit: must be >= 1');
+        expect(JSON.parse(mock.calls[1].messages[mock.calls[1].messages.length - 1].content)).toEqual({
+            error: result.toolExecutions[0].error
+        });
+    });
+
+    it('refuses tools the agent is not permitted to call', async () => {
+        const search = createSearchTool();
+        const { mock, executor } = setup(search);
+        mock.enqueue(
+            { toolCalls: [{ id: 'call_1', name: 'delete_note', arguments: { path: 'Inbox.md' } }] },
+            { content: 'I cannot delete notes.' }
+        );
+
+        const result = await executor.run(request, { agent: searchAgent });
+
+        expect(result.toolExecutions[0]).toMatchObject({
+            success: false,
+            error: "Tool 'delete_note' is not available to this agent"
+        });
+    });
+
+    it('stops at the iteration cap', async () => {
+        const search = createSearchTool();
+        const { mock, executor } = setup(search);
+        mock.setResponder((_request, index) => ({
+            toolCalls: [{ id: `call_${index}`, name: 'search_notes', arguments: { query: `attempt ${index}` } }]
+        }));
+
+        const result = await executor.run(request, { agent: searchAgent, maxIterations: 3 });
+
+        expect(result.stopReason).toBe('max_iterations');
+        expect(result.iterations).toBe(3);
+        expect(mock.calls).toHaveLength(3);
+        expect(result.toolExecutions).toHaveLength(3);
+        expect(search.execute).toHaveBeenCalledTimes(3);
+    });
+
+    it('sends no tools when the agent has none', async () => {
+        const { mock, executor } = setup(createSearchTool());
+        mock.enqueue({ content: 'Hello' });
+
+        await executor.run({
+            ...request,
+            tools: [{ name: 'search_notes', description: 'Search', parameters: { type: 'object', properties: {} } }]
+        }, { agent: { id: 'writer' } });
+
+        expect(mock.calls[0].tools).toBeUndefined();
+    });
+});
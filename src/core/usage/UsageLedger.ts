@@ -0,0 +1,365 @@
+/**
+ * Usage Ledger
+ * Persisted token usage and cost records with budget enforcement and
+ * markdown reporting
+ */
+
+import { App, Notice } from 'obsidian';
+import { RequestPriority, TokenUsage } from '../../types/Provider';
+import { ModelPrice, UsageConfig } from '../../types/Settings';
+import { BudgetExceededError } from '../../utils/errors';
+import { getLogger } from '../../utils/logger';
+import { createHeading, createTable, formatTimestamp } from '../../utils/MarkdownUtils';
+import { createFilePathFromTitle, getUniqueFilePath } from '../../utils/PathUtils';
+
+const logger = getLogger('UsageLedger');
+
+const LEDGER_VERSION = 1;
+const SAVE_DELAY_MS = 2000;
+const RETENTION_DAYS = 400;
+
+export interface UsageRecord {
+    timestamp: number;
+    providerId: string;
+    model: string;
+    agentId?: string;
+    conversationId?: string;
+    priority?: RequestPriority;  // 'background' for indexing and other work nobody waits on
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    cost: number;    // USD
+    priced: boolean; // False when the model has no price table entry
+}
+
+export type UsageGroupKey = 'providerId' | 'model' | 'agentId' | 'conversationId';
+
+export interface UsageSummary {
+    key: string;
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    cost: number;
+}
+
+export interface BudgetStatus {
+    dailySpend: number;
+    monthlySpend: number;
+    dailyBudget?: number;
+    monthlyBudget?: number;
+    exceeded?: 'daily' | 'monthly';
+}
+
+interface LedgerFile {
+    version: number;
+    records: UsageRecord[];
+}
+
+export class UsageLedger {
+    private records: UsageRecord[] = [];
+    private saveTimer?: ReturnType<typeof setTimeout>;
+    private warnedPeriods: Set<string> = new Set();
+
+    constructor(
+        private app: App,
+        private filePath: string,
+        private config: UsageConfig
+    ) {}
+
+    /**
+     * Load the ledger from disk, pruning records past the retention window
+     */
+    async load(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+
+        if (!await adapter.exists(this.filePath)) {
+            this.records = [];
+            return;
+        }
+
+        try {
+            const data = JSON.parse(await adapter.read(this.filePath)) as LedgerFile;
+            const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+            this.records = (data.records ?? []).filter(r => r.timestamp >= cutoff);
+            logger.info(`Loaded ${this.records.length} usage records`);
+        } catch (error) {
+            logger.error('Failed to load usage ledger, starting fresh:', error);
+            this.records = [];
+        }
+    }
+
+    /**
+     * Write pending changes to disk immediately
+     */
+    async flush(): Promise<void> {
+        clearTimeout(this.saveTimer);
+        this.saveTimer = undefined;
+
+        const data: LedgerFile = { version: LEDGER_VERSION, records: this.records };
+        await this.app.vault.adapter.write(this.filePath, JSON.stringify(data));
+    }
+
+    updateConfig(config: UsageConfig): void {
+        this.config = config;
+    }
+
+    /**
+     * Record usage for a completed request and warn if a budget was crossed
+     */
+    record(entry: {
+        providerId: string;
+        model: string;
+        usage: TokenUsage;
+        agentId?: string;
+        conversationId?: string;
+        priority?: RequestPriority;
+    }): UsageRecord | undefined {
+        if (!this.config.enabled) {
+            return undefined;
+        }
+
+        const price = this.findPrice(entry.model);
+        const record: UsageRecord = {
+            timestamp: Date.now(),
+            providerId: entry.providerId,
+            model: entry.model,
+            agentId: entry.agentId,
+            conversationId: entry.conversationId,
+            priority: entry.priority,
+            promptTokens: entry.usage.promptTokens,
+            completionTokens: entry.usage.completionTokens,
+            totalTokens: entry.usage.totalTokens,
+            cost: price ? this.computeCost(entry.usage, price) : 0,
+            priced: price !== undefined
+        };
+
+        this.records.push(record);
+        this.scheduleSave();
+        this.warnIfOverBudget();
+
+        return record;
+    }
+
+    /**
+     * Current spend against the configured daily and monthly budgets
+     */
+    getBudgetStatus(now: number = Date.now()): BudgetStatus {
+        const dailySpend = this.sumCost(this.startOfDay(now), now);
+        const monthlySpend = this.sumCost(this.startOfMonth(now), now);
+        const { dailyBudget, monthlyBudget } = this.config;
+
+        let exceeded: BudgetStatus['exceeded'];
+        if (dailyBudget !== undefined && dailySpend >= dailyBudget) {
+            exceeded = 'daily';
+        } else if (monthlyBudget !== undefined && monthlySpend >= monthlyBudget) {
+            exceeded = 'monthly';
+        }
+
+        return { dailySpend, monthlySpend, dailyBudget, monthlyBudget, exceeded };
+    }
+
+    /**
+     * Throw if a budget is exhausted and the configured action is 'block'
+     */
+    assertWithinBudget(): void {
+        if (!this.config.enabled || this.config.budgetAction !== 'block') {
+            return;
+        }
+
+        const status = this.getBudgetStatus();
+        if (status.exceeded === 'daily') {
+            throw new BudgetExceededError(
+                `Daily budget of $${status.dailyBudget?.toFixed(2)} reached ($${status.dailySpend.toFixed(2)} spent)`,
+                'daily'
+            );
+        }
+        if (status.exceeded === 'monthly') {
+            throw new BudgetExceededError(
+                `Monthly budget of $${status.monthlyBudget?.toFixed(2)} reached ($${status.monthlySpend.toFixed(2)} spent)`,
+                'monthly'
+            );
+        }
+    }
+
+    getRecords(start: number = 0, end: number = Date.now()): UsageRecord[] {
+        return this.records.filter(r => r.timestamp >= start && r.timestamp <= end);
+    }
+
+    /**
+     * Aggregate records in a time range by provider, model, agent or conversation
+     */
+    summarize(groupBy: UsageGroupKey, start: number = 0, end: number = Date.now()): UsageSummary[] {
+        const groups: Map<string, UsageSummary> = new Map();
+
+        for (const record of this.getRecords(start, end)) {
+            const key = record[groupBy] ?? '(none)';
+            const summary = groups.get(key) ?? {
+                key,
+                requests: 0,
+                promptTokens: 0,
+                completionTokens: 0,
+                totalTokens: 0,
+                cost: 0
+            };
+
+            summary.requests++;
+            summary.promptTokens += record.promptTokens;
+            summary.completionTokens += record.completionTokens;
+            summary.totalTokens += record.totalTokens;
+            summary.cost += record.cost;
+            groups.set(key, summary);
+        }
+
+        return Array.from(groups.values()).sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens);
+    }
+
+    /**
+     * Build a markdown usage report for the current month
+     */
+    generateReport(now: number = Date.now()): string {
+        const start = this.startOfMonth(now);
+        const records = this.getRecords(start, now);
+        const status = this.getBudgetStatus(now);
+        const unpriced = new Set(records.filter(r => !r.priced).map(r => r.model));
+
+        const sections: string[] = [
+            createHeading(`Usage report — ${formatTimestamp(now, 'date')}`, 1),
+            `Period: ${formatTimestamp(start, 'date')} – ${formatTimestamp(now, 'date')}`,
+            createHeading('Budget', 2),
+            createTable(
+                ['Period', 'Spent', 'Budget'],
+                [
+                    ['Today', this.formatCost(status.dailySpend), this.formatBudget(status.dailyBudget)],
+                    ['This month', this.formatCost(status.monthlySpend), this.formatBudget(status.monthlyBudget)]
+                ]
+            )
+        ];
+
+        const groupings: Array<[UsageGroupKey, string]> = [
+            ['providerId', 'By provider'],
+            ['model', 'By model'],
+            ['agentId', 'By agent'],
+            ['conversationId', 'By conversation']
+        ];
+
+        for (const [key, title] of groupings) {
+            const summaries = this.summarize(key, start, now);
+            sections.push(createHeading(title, 2));
+            sections.push(summaries.length > 0 ? this.summaryTable(summaries) : '_No usage recorded._');
+        }
+
+        if (unpriced.size > 0) {
+            sections.push(`> [!warning] No price configured for: ${Array.from(unpriced).join(', ')}. Their cost is counted as $0.`);
+        }
+
+        return sections.join('\n\n') + '\n';
+    }
+
+    /**
+     * Write the report into the vault and return its path
+     */
+    async writeReport(): Promise<string> {
+        const folder = this.config.reportFolder;
+        const title = `Usage report ${new Date().toISOString().slice(0, 10)}`;
+
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+
+        const path = await getUniqueFilePath(this.app.vault, createFilePathFromTitle(title, folder));
+        await this.app.vault.create(path, this.generateReport());
+
+        logger.info(`Wrote usage report to ${path}`);
+        return path;
+    }
+
+    /**
+     * Find the price for a model by longest matching prefix
+     */
+    private findPrice(model: string): ModelPrice | undefined {
+        const name = model.toLowerCase();
+        const match = Object.keys(this.config.priceTable)
+            .filter(prefix => name.startsWith(prefix.toLowerCase()))
+            .sort((a, b) => b.length - a.length)[0];
+
+        return match ? this.config.priceTable[match] : undefined;
+    }
+
+    private computeCost(usage: TokenUsage, price: ModelPrice): number {
+        return (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) / 1_000_000;
+    }
+
+    private sumCost(start: number, end: number): number {
+        return this.getRecords(start, end).reduce((sum, r) => sum + r.cost, 0);
+    }
+
+    private warnIfOverBudget(): void {
+        const status = this.getBudgetStatus();
+        if (!status.exceeded) {
+            return;
+        }
+
+        // Warn once per budget period
+        const now = new Date();
+        const periodKey = status.exceeded === 'daily'
+            ? `daily-${now.toDateString()}`
+            : `monthly-${now.getFullYear()}-${now.getMonth()}`;
+
+        if (this.warnedPeriods.has(periodKey)) {
+            return;
+        }
+        this.warnedPeriods.add(periodKey);
+
+        const message = status.exceeded === 'daily'
+            ? `Daily AI budget reached ($${status.dailySpend.toFixed(2)} of $${status.dailyBudget?.toFixed(2)})`
+            : `Monthly AI budget reached ($${status.monthlySpend.toFixed(2)} of $${status.monthlyBudget?.toFixed(2)})`;
+
+        logger.warn(message);
+        new Notice(this.config.budgetAction === 'block' ? `${message}. Further requests are blocked.` : message);
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) {
+            return;
+        }
+
+        this.saveTimer = setTimeout(() => {
+            this.flush().catch(error => logger.error('Failed to save usage ledger:', error));
+        }, SAVE_DELAY_MS);
+    }
+
+    private summaryTable(summaries: UsageSummary[]): string {
+        return createTable(
+            ['Name', 'Requests', 'Prompt tokens', 'Completion tokens', 'Cost'],
+            summaries.map(s => [
+                s.key,
+                String(s.requests),
+                s.promptTokens.toLocaleString(),
+                s.completionTokens.toLocaleString(),
+                this.formatCost(s.cost)
+            ])
+        );
+    }
+
+    private formatCost(cost: number): string {
+        return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+    }
+
+    private formatBudget(budget: number | undefined): string {
+        return budget !== undefined ? this.formatCost(budget) : '—';
+    }
+
+    private startOfDay(now: number): number {
+        const date = new Date(now);
+        date.setHours(0, 0, 0, 0);
+        return date.getTime();
+    }
+
+    private startOfMonth(now: number): number {
+        const date = new Date(now);
+        date.setHours(0, 0, 0, 0);
+        date.setDate(1);
+        return date.getTime();
+    }
+}
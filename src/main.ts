@@ -1,10 +1,18 @@
 import { Plugin, Notice } from 'obsidian';
 import { PluginSettings, DEFAULT_SETTINGS } from './types/Settings';
+import { IndexingProgressModal } from './ui/IndexingProgressModal';
+import { IndexingStatusBar } from './ui/IndexingStatusBar';
 import { MnemosyneSettingsTab } from './ui/SettingsTab';
 import { getLogger } from './utils/logger';
+import { LLMManager } from './core/llm/LLMManager';
+import { RAGSystem } from './core/rag/RAGSystem';
+import { runRecallBenchmark } from './core/rag/stores/HnswBenchmark';
+import { ToolExecutor } from './core/tools/ToolExecutor';
+import { ToolRegistry } from './core/tools/ToolRegistry';
+import { UsageLedger } from './core/usage/UsageLedger';
+import { formatErrorForUser } from './utils/errors';
 
 // Core managers will be implemented in later phases
-// import { LLMManager } from './core/llm/LLMManager';
 // import { AgentManager } from './core/agents/AgentManager';
 // import { AgentOrchestrator } from './core/orchestrator/AgentOrchestrator';
 // import { MnemosynePersona } from './core/persona/MnemosynePersona';
@@ -14,12 +22,18 @@ const logger = getLogger('AIAgentPlatform');
 export default class AIAgentPlatformPlugin extends Plugin {
     settings!: PluginSettings;
 
-    // Core Systems (to be implemented in later phases)
-    // llmManager: LLMManager;
+    // Core Systems
+    llmManager!: LLMManager;
+    usageLedger!: UsageLedger;
+    toolRegistry: ToolRegistry = new ToolRegistry();
+    toolExecutor!: ToolExecutor;
+    ragSystem?: RAGSystem;
+    private indexingStatusBar?: IndexingStatusBar;
+
+    // To be implemented in later phases
     // agentManager: AgentManager;
     // orchestrator: AgentOrchestrator;
     // persona: MnemosynePersona;
-    // ragSystem: RAGSystem;
     // mcpManager: MCPManager;
     // memoryManager: MemoryManager;
 
@@ -83,26 +97,108 @@ export default class AIAgentPlatformPlugin extends Plugin {
     private async initializeSystems(): Promise<void> {
         logger.info('Initializing core systems (deferred)...');
 
-        // Core systems will be initialized in later phases
-        // Phase 3: LLM Manager, Agent Manager, Persona
-        // Phase 4: RAG System
+        this.llmManager = new LLMManager(this.settings.providers, this.app, {
+            defaultProviderId: this.settings.defaultProviderId,
+            fallbackProviderIds: this.settings.fallbackProviderIds,
+            maxConcurrentRequests: this.settings.advanced.maxConcurrentRequests
+        });
+        await this.llmManager.initialize();
+
+        this.usageLedger = new UsageLedger(
+            this.app,
+            `${this.manifest.dir}/usage-ledger.json`,
+            this.settings.usage
+        );
+        await this.usageLedger.load();
+        this.llmManager.setUsageLedger(this.usageLedger);
+
+        this.toolExecutor = new ToolExecutor(this.llmManager, this.toolRegistry);
+
+        if (this.settings.rag.enabled) {
+            await this.initializeRAG();
+        }
+
+        // Remaining core systems will be initialized in later phases
+        // Phase 3: Agent Manager, Persona
         // Phase 7: MCP Manager
 
         // Example initialization (to be implemented):
         // this.persona = new MnemosynePersona(this.settings.persona);
-        // this.llmManager = new LLMManager(this.settings.providers, this.app);
-        // await this.llmManager.initialize();
         // this.agentManager = new AgentManager(this.settings.agents, this.persona, this.app);
         // await this.agentManager.initialize();
         // this.orchestrator = new AgentOrchestrator(this.agentManager, this.llmManager, this.app);
-        // this.ragSystem = new RAGSystem(this.settings.rag, this.app);
-        // await this.ragSystem.initialize();
         // this.mcpManager = new MCPManager(this.settings.mcp, this.app);
         // await this.mcpManager.initialize();
 
         logger.info('Core systems initialized successfully');
     }
 
+    /**
+     * Start RAG. Failure (e.g. a missing API key) leaves the rest of the
+     * plugin usable.
+     */
+    private async initializeRAG(): Promise<void> {
+        const ragSystem = new RAGSystem(this.app, this.settings.rag, {
+            providers: this.settings.providers,
+            pluginDir: this.manifest.dir!,
+            llm: this.llmManager,
+            saveSettings: () => this.saveSettings()
+        });
+
+        try {
+            await ragSystem.initialize();
+            this.ragSystem = ragSystem;
+        } catch (error) {
+            logger.error('Failed to initialize RAG system:', error);
+            new Notice(`RAG unavailable: ${formatErrorForUser(error as Error)}`);
+            await ragSystem.close();
+            return;
+        }
+
+        const job = ragSystem.indexingJob!;
+        this.indexingStatusBar = new IndexingStatusBar(
+            this.addStatusBarItem(),
+            job,
+            () => new IndexingProgressModal(this.app, job).open()
+        );
+
+        // Report the outcome, since the modal may have been closed long ago
+        let lastState = job.progress.state;
+        this.register(job.onProgress(progress => {
+            if (progress.state !== lastState && (progress.state === 'completed' || progress.state === 'cancelled')) {
+                const failed = progress.failures.length;
+                new Notice(
+                    `Indexing ${progress.state}: ${progress.processedFiles - failed} of ${progress.totalFiles} files indexed` +
+                    (failed > 0 ? `, ${failed} failed. Click the indexing status in the status bar for details.` : '.')
+                );
+            }
+            lastState = progress.state;
+        }));
+    }
+
+    /**
+     * Index the whole vault in the background and show its progress
+     */
+    async startVaultIndexing(): Promise<void> {
+        if (!this.settings.rag.enabled) {
+            new Notice('Enable RAG in settings before indexing.');
+            return;
+        }
+
+        if (!this.ragSystem) {
+            await this.initializeRAG();
+        }
+        const job = this.ragSystem?.indexingJob;
+        if (!job) {
+            return;  // Initialization failed and has been reported
+        }
+
+        if (!job.isActive) {
+            this.ragSystem!.startIndexing().catch(error => new Notice(formatErrorForUser(error as Error)));
+        }
+        new IndexingProgressModal(this.app, job).open();
+    }
+
     /**
      * Register all plugin commands
      */
@@ -120,6 +216,33 @@ export default class AIAgentPlatformPlugin extends Plugin {
             }
         });
 
+        // Compare HNSW recall and latency against exact search
+        this.addCommand({
+            id: 'benchmark-vector-index',
+            name: 'Test: Benchmark vector index recall',
+            callback: async () => {
+                new Notice('Running vector index benchmark...');
+
+                try {
+                    const result = await runRecallBenchmark();
+                    const summary = `HNSW recall@${result.options.topK}: ${(result.recall * 100).toFixed(1)}% ` +
+                        `(${result.annQueryMs.toFixed(2)}ms vs ${result.exactQueryMs.toFixed(2)}ms exact per query, ` +
+                        `${result.options.chunks} vectors built in ${Math.round(result.buildMs)}ms)`;
+                    new Notice(summary);
+                    logger.info(summary);
+                } catch (error) {
+                    logger.error('Vector index benchmark failed:', error);
+                    new Notice(formatErrorForUser(error as Error));
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'index-vault',
+            name: 'Index vault',
+            callback: () => this.startVaultIndexing()
+        });
+
         // Toggle Mnemosyne Persona
         this.addCommand({
             id: 'toggle-persona',
@@ -147,6 +270,26 @@ export default class AIAgentPlatformPlugin extends Plugin {
             }
         });
 
+        // Usage and cost report
+        this.addCommand({
+            id: 'write-usage-report',
+            name: 'Write usage and cost report',
+            callback: async () => {
+                if (!this.usageLedger) {
+                    new Notice('Usage ledger is not ready yet');
+                    return;
+                }
+
+                try {
+                    const path = await this.usageLedger.writeReport();
+                    new Notice(`Usage report written to ${path}`);
+                } catch (error) {
+                    logger.error('Failed to write usage report:', error);
+                    new Notice(formatErrorForUser(error as Error));
+                }
+            }
+        });
+
         // More commands will be added in later phases
         logger.info('Commands registered successfully');
     }
@@ -157,12 +300,11 @@ export default class AIAgentPlatformPlugin extends Plugin {
     private registerEventHandlers(): void {
         logger.info('Registering event handlers...');
 
-        // Listen for file changes for RAG indexing (Phase 2)
-        // this.registerEvent(
-        //   this.app.vault.on('modify', (file) => {
-        //     this.ragSystem.handleFileChange(file);
-        //   })
-        // );
+        // Keep the RAG index in step with the vault
+        this.registerEvent(this.app.vault.on('create', file => this.ragSystem?.handleFileChange(file)));
+        this.registerEvent(this.app.vault.on('modify', file => this.ragSystem?.handleFileChange(file)));
+        this.registerEvent(this.app.vault.on('delete', file => this.ragSystem?.handleFileDelete(file)));
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.ragSystem?.handleFileRename(file, oldPath)));
 
         logger.info('Event handlers registered successfully');
     }
@@ -171,10 +313,15 @@ export default class AIAgentPlatformPlugin extends Plugin {
      * Clean up resources on plugin unload
      */
     private async cleanup(): Promise<void> {
-        // Close database connections
-        // if (this.ragSystem) {
-        //   await this.ragSystem.close();
-        // }
+        // Reject queued LLM requests
+        this.llmManager?.shutdown();
+
+        // Persist recorded usage
+        await this.usageLedger?.flush();
+
+        // Checkpoint indexing, write pending index updates and close the vector store
+        this.indexingStatusBar?.dispose();
+        await this.ragSystem?.close();
 
         // Save any pending data
         await this.saveSettings();
@@ -213,6 +360,12 @@ export default class AIAgentPlatformPlugin extends Plugin {
      */
     async saveSettings() {
         await this.saveData(this.settings);
+        this.llmManager?.updateOptions({
+            defaultProviderId: this.settings.defaultProviderId,
+            fallbackProviderIds: this.settings.fallbackProviderIds
+        });
+        await this.llmManager?.updateProviders(this.settings.providers);
+        this.ragSystem?.updateConfig(this.settings.rag);
         logger.debug('Settings saved');
     }
 
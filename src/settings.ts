@@ -1,4 +1,5 @@
 import { PersonaConfig, PersonaIntensity } from './types';
+import { LinkExpansionOptions, MetadataFilterSpec, QueryPlanningOptions } from './types/RAG';
 
 export interface LLMProviderConfig {
     id: string;
@@ -23,16 +24,16 @@ export interface AgentConfig {
         topK: number;
         scoreThreshold: number;
         searchStrategy: 'semantic' | 'keyword' | 'hybrid';
+        linkExpansion?: LinkExpansionOptions;
+        queryPlanning?: QueryPlanningOptions;
+        includeConversationHistory?: boolean;  // Also recall past conversations
     };
     mcpTools?: {
         enabled: boolean;
         allowedTools: string[];
         readOnly: boolean;
     };
-    metadataFilters?: {
-        folders?: string[];
-        tags?: string[];
-    };
+    metadataFilters?: MetadataFilterSpec;
     isBackend: boolean;
     canDelete: boolean;
 }
@@ -48,7 +49,7 @@ export interface PluginSettings {
 
     // RAG Settings
     vectorStore: {
-        backend: 'json' | 'sqlite' | 'postgres';
+        backend: 'json' | 'sqlite' | 'indexeddb' | 'auto';
         embeddingProvider: 'openai' | 'local';
         indexedFolders: string[];
         excludedFolders: string[];
@@ -4,6 +4,7 @@
  */
 
 import { Message, ToolDefinition } from './Provider';
+import { MetadataFilterSpec, QueryPlanningOptions, SearchStrategy } from './RAG';
 
 export interface Agent {
     id: string;
@@ -39,8 +40,10 @@ export interface RAGAgentConfig {
     enabled: boolean;
     topK: number;
     threshold: number;
-    metadataFilters?: Record<string, any>;
+    searchStrategy?: SearchStrategy;  // Default 'hybrid'
+    metadataFilters?: MetadataFilterSpec;
     includeConversationHistory?: boolean;
+    queryPlanning?: QueryPlanningOptions;
 }
 
 export interface AgentMetrics {
@@ -160,6 +163,8 @@ export interface RAGContext {
     title: string;
     excerpt: string;
     score: number;
+    retrievalScore?: number;  // Before reranking; for debugging
+    rerankScore?: number;     // Reranker relevance; equals score when reranked
     metadata?: Record<string, any>;
 }
 
@@ -5,6 +5,7 @@
 
 import { Message, TokenUsage } from './Provider';
 import { RAGContext } from './Agent';
+import { SearchStrategy } from './RAG';
 
 export interface Conversation {
     id: string;
@@ -55,6 +56,7 @@ export interface SourceCitation {
 }
 
 export interface ToolExecution {
+    toolCallId?: string;  // The ToolCall this execution answered
     toolName: string;
     parameters: Record<string, any>;
     result: any;
@@ -67,6 +69,7 @@ export interface ToolExecution {
 
 export interface MessageMetadata {
     model?: string;
+    providerId?: string;  // Provider that actually served the request (after failover)
     temperature?: number;
     responseTimeMs?: number;
     retryCount?: number;
@@ -192,6 +195,32 @@ export interface ConversationIndexEntry {
     };
 }
 
+export interface ConversationRecallOptions {
+    topK: number;
+    threshold?: number;
+    strategy?: SearchStrategy;          // Default 'hybrid'
+    after?: number;                     // Messages sent at or after this time, ms
+    before?: number;                    // Messages sent before this time, ms
+    tags?: string[];                    // Conversations tagged with any of these
+    includeArchived?: boolean;          // Default false
+    excludeConversationIds?: string[];  // E.g. the conversation being answered
+    signal?: AbortSignal;
+}
+
+/**
+ * A past message matching a recall query, with what is needed to cite it
+ */
+export interface ConversationRecall {
+    conversationId: string;
+    messageId: string;
+    conversationTitle?: string;
+    role: 'user' | 'assistant';
+    agentId?: string;
+    timestamp: number;
+    excerpt: string;  // The matching part of the message
+    score: number;
+}
+
 // Export/Import
 export interface ConversationExport {
     version: string;
@@ -0,0 +1,65 @@
+/**
+ * Embedding Provider Interfaces
+ * Defines the contract for text embedding backends used by RAG
+ */
+
+import { RequestPriority } from './Provider';
+
+export interface EmbeddingProvider {
+    id: string;
+    type: 'openai' | 'local';
+
+    /**
+     * Load models or validate credentials. Must be called before embed().
+     */
+    initialize(): Promise<void>;
+
+    /**
+     * Embed a batch of texts. Returns one vector per input, in order.
+     * Inputs longer than maxInputTokens are truncated.
+     */
+    embed(texts: string[], options?: EmbedOptions): Promise<number[][]>;
+
+    /**
+     * Model identifier; vectors from different models are not comparable
+     */
+    getModelId(): string;
+
+    /**
+     * Vector length. Known after initialize().
+     */
+    getDimensions(): number;
+
+    /**
+     * Longest input, in tokens, the model accepts
+     */
+    getMaxInputTokens(): number;
+
+    /**
+     * Release model resources
+     */
+    dispose(): Promise<void>;
+}
+
+export interface EmbedOptions {
+    signal?: AbortSignal;
+    priority?: RequestPriority;  // Default 'background'
+}
+
+export interface OpenAIEmbeddingConfig {
+    apiKey: string;
+    model?: string;       // Default text-embedding-3-small
+    baseURL?: string;     // For OpenAI-compatible embedding endpoints
+    organization?: string;
+    dimensions?: number;  // Shortened vectors (text-embedding-3 models only)
+    batchSize?: number;
+    timeoutMs?: number;
+}
+
+export interface LocalEmbeddingConfig {
+    model?: string;      // Default Xenova/all-MiniLM-L6-v2
+    modelPath: string;   // Absolute directory holding <model>/onnx/* files
+    wasmPath: string;    // Absolute directory holding the onnxruntime .wasm files
+    quantized?: boolean; // Default true
+    batchSize?: number;
+}
@@ -8,7 +8,7 @@ import { App } from 'obsidian';
 export interface LLMProvider {
     id: string;
     name: string;
-    type: 'openai' | 'anthropic' | 'local';
+    type: ProviderType;
 
     /**
      * Initialize the provider with API credentials
@@ -44,12 +44,29 @@ export interface LLMProvider {
      * Check if the provider is healthy
      */
     healthCheck(): Promise<ProviderHealth>;
+
+    /**
+     * Static capabilities (streaming, tools, context window)
+     */
+    getMetadata(): ProviderMetadata;
+
+    /**
+     * The context window of a model, when the provider knows it for certain
+     * (configured, or reported by the server)
+     */
+    getContextWindow?(model: string): Promise<number | undefined>;
 }
 
+/**
+ * 'mock' is only used by the scripted and replay providers for offline testing
+ */
+export type ProviderType = 'openai' | 'anthropic' | 'local' | 'mock';
+
 export interface ProviderInitConfig {
     apiKey?: string;
     endpoint?: string;
     model?: string;
+    timeoutMs?: number;  // Default timeout for requests to this provider
     app: App;  // For requestUrl() access
 }
 
@@ -60,13 +77,65 @@ export interface CompletionRequest {
     maxTokens?: number;
     systemPrompt?: string;
     tools?: ToolDefinition[];
+
+    // Structured output: ask for JSON conforming to a schema
+    structuredOutput?: StructuredOutputSpec;
+
+    // Cancellation and timeouts
+    signal?: AbortSignal;  // Abort to stop generation
+    timeoutMs?: number;    // Overrides the provider timeout; for streams, the max idle time between chunks
+
+    // Scheduling
+    priority?: RequestPriority;  // Default 'normal'
+
+    // Usage attribution for the cost ledger
+    attribution?: RequestAttribution;
+}
+
+export interface StructuredOutputSpec {
+    name: string;  // Schema identifier, sent to providers with a native JSON schema mode
+    schema: Record<string, any>;
+    description?: string;
 }
 
+export interface RequestAttribution {
+    agentId?: string;
+    conversationId?: string;
+}
+
+/**
+ * Queue priority: interactive chat runs ahead of background indexing/embedding
+ */
+export type RequestPriority = 'interactive' | 'normal' | 'background';
+
 export interface Message {
-    role: 'user' | 'assistant' | 'system';
-    content: string;
+    role: 'user' | 'assistant' | 'system' | 'tool';
+    content: string;  // Plain text; for multimodal messages, the text parts joined
+    parts?: ContentPart[];  // Multimodal content in order; sent instead of content when present
     name?: string;
     toolCalls?: ToolCall[];
+    toolCallId?: string;  // For role 'tool': the ToolCall this message answers
+}
+
+export type ContentPart = TextContentPart | ImageContentPart | DocumentContentPart;
+
+export interface TextContentPart {
+    type: 'text';
+    text: string;
+}
+
+export interface ImageContentPart {
+    type: 'image';
+    mediaType: string;  // image/png, image/jpeg, image/gif or image/webp
+    data: string;       // Base64 encoded
+    source?: string;    // Vault path the image was loaded from
+}
+
+export interface DocumentContentPart {
+    type: 'document';
+    mediaType: 'application/pdf';
+    data: string;       // Base64 encoded
+    source?: string;    // Vault path the document was loaded from
 }
 
 export interface ToolDefinition {
@@ -83,10 +152,11 @@ export interface ToolCall {
 
 export interface CompletionResponse {
     content: string;
-    finishReason: 'stop' | 'length' | 'tool_calls' | 'error';
+    finishReason: 'stop' | 'length' | 'tool_calls' | 'cancelled' | 'error';
     toolCalls?: ToolCall[];
     usage?: TokenUsage;
     model: string;
+    data?: unknown;  // Parsed and validated JSON when structuredOutput was requested
 }
 
 export interface TokenUsage {
@@ -111,9 +181,11 @@ export interface ProviderHealth {
 export interface ProviderMetadata {
     id: string;
     name: string;
-    type: 'openai' | 'anthropic' | 'local';
+    type: ProviderType;
     supportsStreaming: boolean;
     supportsTools: boolean;
+    supportsImages: boolean;     // Accepts image content parts
+    supportsDocuments: boolean;  // Accepts PDF document content parts
     defaultModels: string[];
     maxContextTokens: number;
 }
@@ -123,6 +195,7 @@ export interface ProviderMetadata {
 export interface OpenAIProviderConfig extends ProviderInitConfig {
     organization?: string;
     baseURL?: string;
+    nativeStructuredOutput?: boolean;  // json_schema response_format; detected per model when omitted
 }
 
 export interface AnthropicProviderConfig extends ProviderInitConfig {
@@ -133,8 +206,14 @@ export interface LocalProviderConfig extends ProviderInitConfig {
     endpoint: string;  // Required for local providers
     authToken?: string;
     modelPath?: string;
+    dialect?: LocalProviderDialect;  // Auto-detected when omitted
+    maxContextTokens?: number;       // Model context window; read from Ollama when omitted
+    nativeStructuredOutput?: boolean;  // json_schema response_format on OpenAI-compatible servers; off when omitted
+    supportsImages?: boolean;          // The served model accepts images; off when omitted
 }
 
+export type LocalProviderDialect = 'ollama' | 'openai';
+
 // Error types
 
 export class ProviderError extends Error {
@@ -142,7 +221,8 @@ export class ProviderError extends Error {
         message: string,
         public providerId: string,
         public code: ProviderErrorCode,
-        public retryable: boolean = false
+        public retryable: boolean = false,
+        public retryAfterMs?: number  // From the Retry-After header on RATE_LIMIT errors
     ) {
         super(message);
         this.name = 'ProviderError';
@@ -157,5 +237,7 @@ export enum ProviderErrorCode {
     MODEL_NOT_FOUND = 'MODEL_NOT_FOUND',
     CONTEXT_LENGTH_EXCEEDED = 'CONTEXT_LENGTH_EXCEEDED',
     TIMEOUT = 'TIMEOUT',
+    CANCELLED = 'CANCELLED',
+    UNSUPPORTED_CONTENT = 'UNSUPPORTED_CONTENT',
     UNKNOWN = 'UNKNOWN',
 }
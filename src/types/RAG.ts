@@ -0,0 +1,238 @@
+/**
+ * RAG Interfaces
+ * Chunks, vector records and search results shared by the retrieval pipeline
+ */
+
+export interface NoteChunk {
+    id: string;            // `${filePath}#${chunkIndex}`
+    filePath: string;
+    chunkIndex: number;
+    content: string;       // Raw markdown of the chunk's lines
+    contentHash?: string;  // Hash of the embedded text; unchanged chunks keep their vectors
+    headingPath: string[]; // Heading breadcrumb, outermost first
+    startLine: number;     // 1-based, inclusive, relative to the whole file
+    endLine: number;       // 1-based, inclusive
+    tokenCount: number;
+    metadata: ChunkMetadata;
+}
+
+export interface ChunkMetadata {
+    title: string;
+    tags?: string[];
+    frontmatter?: Record<string, any>;
+    modifiedAt?: number;  // File mtime (ms) when indexed
+}
+
+export type VectorStoreBackend = 'sqlite' | 'indexeddb' | 'json';
+
+/**
+ * A chunk together with its embedding
+ */
+export interface VectorRecord extends NoteChunk {
+    vector: number[];
+}
+
+export interface VectorFilter {
+    filePaths?: string[];         // Only these files
+    folders?: string[];           // Only files inside these folders (recursive)
+    excludeFolders?: string[];
+    tags?: string[];              // Chunks tagged with any of these
+    excludeTags?: string[];       // Chunks tagged with none of these
+    excludeFilePaths?: string[];
+    frontmatter?: FrontmatterCondition[];  // All must hold
+    modifiedAfter?: number;       // Inclusive, ms; chunks without modifiedAt never match a date window
+    modifiedBefore?: number;      // Exclusive, ms
+}
+
+export type FrontmatterOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte';
+
+export type FrontmatterValue = string | number | boolean;
+
+/**
+ * A test on one frontmatter field. 'eq' holds when any element of a list
+ * field equals any given value; 'ne' when none does. Range operators take a
+ * single value and compare numbers, then dates, then text.
+ */
+export interface FrontmatterCondition {
+    field: string;
+    operator: FrontmatterOperator;
+    value: FrontmatterValue | FrontmatterValue[];
+}
+
+/**
+ * Retrieval filter as written in agent settings, e.g.
+ * { folders: ['Projects/Acme'], tags: ['active'], frontmatter: { priority: { gte: 2 } }, modifiedWithinDays: 30 }.
+ * Compiled to a VectorFilter at query time.
+ */
+export interface MetadataFilterSpec {
+    folders?: string[];
+    excludeFolders?: string[];
+    tags?: string[];
+    excludeTags?: string[];
+    frontmatter?: Record<string, FrontmatterValue | FrontmatterValue[] | Partial<Record<FrontmatterOperator, FrontmatterValue>>>;
+    modifiedAfter?: string;       // ISO date
+    modifiedBefore?: string;      // ISO date
+    modifiedWithinDays?: number;  // Relative to the query time
+}
+
+export interface VectorQuery {
+    vector: number[];
+    topK: number;
+    threshold?: number;  // Minimum cosine similarity
+    filter?: VectorFilter;
+}
+
+export interface VectorSearchResult {
+    chunk: NoteChunk;
+    score: number;  // Cosine similarity
+}
+
+export interface VectorStoreStats {
+    backend: VectorStoreBackend;
+    model: string;
+    dimensions: number;
+    chunkCount: number;
+    fileCount: number;
+    updatedAt?: number;
+}
+
+/**
+ * Persistent storage for chunk embeddings. A store holds vectors from a
+ * single embedding model; opening it with a different model or dimension
+ * count discards the old vectors.
+ */
+export interface VectorStore {
+    readonly backend: VectorStoreBackend;
+
+    /**
+     * Open the underlying storage. Must be called before any other method.
+     */
+    initialize(): Promise<void>;
+
+    /**
+     * Insert or replace records by chunk id
+     */
+    upsert(records: VectorRecord[]): Promise<void>;
+
+    /**
+     * Remove every chunk of a file. Returns the number removed.
+     */
+    deleteByFile(filePath: string): Promise<number>;
+
+    /**
+     * Nearest chunks by cosine similarity, best first
+     */
+    query(query: VectorQuery): Promise<VectorSearchResult[]>;
+
+    /**
+     * Chunks by id, in the order given; unknown ids are skipped
+     */
+    getByIds(ids: string[]): Promise<NoteChunk[]>;
+
+    /**
+     * Visit every stored record, e.g. to build an index over the vectors
+     */
+    forEach(visitor: (chunk: NoteChunk, vector: ArrayLike<number>) => void): Promise<void>;
+
+    /**
+     * All records of a file, with vectors, in chunk order
+     */
+    getRecordsByFile(filePath: string): Promise<VectorRecord[]>;
+
+    /**
+     * Paths of all files with at least one stored chunk
+     */
+    getFilePaths(): Promise<string[]>;
+
+    getStats(): Promise<VectorStoreStats>;
+
+    /**
+     * Remove all records
+     */
+    clear(): Promise<void>;
+
+    /**
+     * Persist pending writes and release handles
+     */
+    close(): Promise<void>;
+}
+
+export interface VectorStoreOptions {
+    model: string;       // Embedding model id the vectors come from
+    dimensions: number;
+}
+
+export type SearchStrategy = 'semantic' | 'keyword' | 'hybrid';
+
+export interface RetrievalOptions {
+    strategy: SearchStrategy;
+    topK: number;
+    threshold?: number;  // Minimum rerank score when reranking, otherwise minimum cosine similarity for semantic matches
+    filter?: VectorFilter;
+    rerank?: boolean;    // Default true when a reranker is configured
+    linkExpansion?: LinkExpansionOptions;  // Also return notes linked to the top hits
+    alternateQueries?: string[];           // Also retrieved for; fused with the query's results
+    signal?: AbortSignal;
+}
+
+export type LinkDirection = 'outgoing' | 'backlinks' | 'both';
+
+export interface LinkExpansionOptions {
+    maxHops: number;           // 1 follows direct links only
+    decay: number;             // 0-1 score multiplier per hop
+    maxNotes?: number;         // Linked notes added at most; default topK
+    direction?: LinkDirection; // Default 'both'
+}
+
+export interface QueryPlanningOptions {
+    rewrite: boolean;              // Rewrite follow-up messages into standalone queries using the conversation
+    paraphrases?: number;          // Alternative phrasings to also retrieve for; default 0
+    hypotheticalAnswer?: boolean;  // HyDE: also retrieve for a drafted answer
+    historyMessages?: number;      // Recent messages shown to the planner; default 6
+    providerId?: string;           // Provider used for planning; default the default provider
+}
+
+export interface QueryPlan {
+    query: string;         // Standalone query; used for reranking and link expansion
+    alternates: string[];  // Paraphrases and hypothetical answers
+}
+
+export interface RetrievalResult {
+    chunk: NoteChunk;
+    score: number;            // Rerank score when reranked, otherwise strategy-specific: cosine, BM25 or fused rank score
+    retrievalScore?: number;  // Score before reranking, when reranked
+    rerankScore?: number;     // 0-1 relevance from the reranker
+    semanticScore?: number;   // Cosine similarity, when found by vector search
+    keywordScore?: number;    // BM25 score, when found by keyword search
+    linkedFrom?: string;      // Top hit this note was reached from by links; score is that hit's, decayed per hop
+    hops?: number;
+}
+
+export type RerankerType = 'cross-encoder' | 'llm';
+
+/**
+ * Second-stage scorer that judges each candidate against the query directly
+ */
+export interface Reranker {
+    readonly type: RerankerType;
+
+    /**
+     * Load models. Must be called before rerank().
+     */
+    initialize(): Promise<void>;
+
+    /**
+     * Relevance of each chunk to the query, 0-1, in input order
+     */
+    rerank(query: string, chunks: NoteChunk[], signal?: AbortSignal): Promise<number[]>;
+
+    dispose(): Promise<void>;
+}
+
+export interface CrossEncoderConfig {
+    model?: string;      // Default Xenova/ms-marco-MiniLM-L-6-v2
+    modelPath: string;   // Absolute directory holding <model>/onnx/* files
+    wasmPath: string;    // Absolute directory holding the onnxruntime .wasm files
+    quantized?: boolean; // Default true
+    batchSize?: number;
+}
@@ -4,10 +4,14 @@
  */
 
 import { PersonaConfig } from './Agent';
+import { LocalProviderDialect } from './Provider';
+import { MetadataFilterSpec, RerankerType } from './RAG';
 
 export interface PluginSettings {
     // Provider Settings
     providers: ProviderConfig[];
+    defaultProviderId?: string;
+    fallbackProviderIds?: string[];  // Ordered failover chain for retryable errors
 
     // Agent Settings
     agents: AgentConfig[];
@@ -23,6 +27,12 @@ export interface PluginSettings {
 
     // Conversation Settings
     conversation: ConversationConfig;
+
+    // Usage and cost tracking
+    usage: UsageConfig;
+
+    // Advanced Settings
+    advanced: AdvancedConfig;
 }
 
 export interface ProviderConfig {
@@ -32,6 +42,25 @@ export interface ProviderConfig {
     apiKey?: string;  // Encrypted
     endpoint?: string;  // For local providers
     model?: string;
+    timeoutMs?: number;  // Request timeout (default 120s)
+    maxConcurrentRequests?: number;  // Overrides advanced.maxConcurrentRequests
+    requestsPerMinute?: number;      // Token-bucket rate limit
+
+    // OpenAI
+    organization?: string;
+    baseURL?: string;  // OpenAI-compatible proxy or gateway
+    nativeStructuredOutput?: boolean;  // json_schema response_format, also on OpenAI-compatible local servers
+
+    // Anthropic
+    version?: string;  // anthropic-version header
+
+    // Local
+    authToken?: string;
+    modelPath?: string;
+    dialect?: LocalProviderDialect;  // Auto-detected when omitted
+    maxContextTokens?: number;       // Model context window; read from Ollama when omitted
+    supportsImages?: boolean;        // Vision model; images are rejected before sending when omitted
+
     enabled: boolean;
     lastValidated?: number;
 }
@@ -50,7 +79,7 @@ export interface AgentConfig {
     ragEnabled: boolean;
     ragTopK?: number;
     ragThreshold?: number;
-    ragMetadataFilters?: Record<string, any>;
+    ragMetadataFilters?: MetadataFilterSpec;
 
     // Skill tags for orchestrator
     skillTags?: string[];
@@ -67,6 +96,9 @@ export interface RAGConfig {
     enabled: boolean;
     backend: 'sqlite' | 'indexeddb' | 'json' | 'auto';  // 'auto' for platform detection
     embeddingProvider: 'openai' | 'local';  // local = Transformers.js
+    embeddingModel?: string;        // Provider default when omitted
+    embeddingProviderId?: string;   // OpenAI provider whose key is used; first OpenAI provider when omitted
+    localModelPath?: string;        // Folder of Transformers.js models, relative to the plugin folder
 
     // Indexing settings
     autoIndex: boolean;
@@ -78,6 +110,14 @@ export interface RAGConfig {
     defaultTopK: number;
     defaultThreshold: number;
     hybridSearchEnabled: boolean;
+    keywordWeight?: number;  // 0-1 share of keyword results in hybrid fusion; default 0.5
+
+    // Reranking
+    rerankEnabled?: boolean;
+    reranker?: RerankerType;     // Default 'cross-encoder'
+    rerankModel?: string;        // Cross-encoder in the local model folder; default Xenova/ms-marco-MiniLM-L-6-v2
+    rerankProviderId?: string;   // LLM provider for 'llm'; default provider when omitted
+    rerankCandidates?: number;   // Candidates retrieved for reranking; default 20
 
     // Conversation memory
     indexConversations: boolean;
@@ -122,6 +162,26 @@ export interface ConversationConfig {
     showSourceCitations: boolean;
 }
 
+export interface ModelPrice {
+    inputPerMillion: number;   // USD per million prompt tokens
+    outputPerMillion: number;  // USD per million completion tokens
+}
+
+export interface UsageConfig {
+    enabled: boolean;
+    priceTable: Record<string, ModelPrice>;  // Keyed by model name prefix
+    dailyBudget?: number;    // USD
+    monthlyBudget?: number;  // USD
+    budgetAction: 'warn' | 'block';
+    reportFolder: string;
+}
+
+export interface AdvancedConfig {
+    debug: boolean;
+    logLevel: 'debug' | 'info' | 'warn' | 'error';
+    maxConcurrentRequests: number;  // Per provider
+}
+
 export interface SecurityConfig {
     masterPasswordSet: boolean;
     encryptionVersion: string;
@@ -165,4 +225,22 @@ export const DEFAULT_SETTINGS: PluginSettings = {
         showTokenCounts: false,
         showSourceCitations: true,
     },
+    usage: {
+        enabled: true,
+        priceTable: {
+            'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+            'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+            'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+            'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+            'claude-sonnet-4': { inputPerMillion: 3, outputPerMillion: 15 },
+            'claude-opus-4': { inputPerMillion: 15, outputPerMillion: 75 },
+        },
+        budgetAction: 'warn',
+        reportFolder: 'Mnemosyne/Reports',
+    },
+    advanced: {
+        debug: false,
+        logLevel: 'info',
+        maxConcurrentRequests: 3,
+    },
 };
@@ -0,0 +1,118 @@
+/**
+ * Indexing Progress Modal
+ * Live progress of the full-vault indexing job, with pause and cancel, and
+ * the files that failed once the run ends
+ */
+
+import { App, Modal, Setting } from 'obsidian';
+import { IndexingJob, IndexingProgress } from '../core/rag/IndexingJob';
+
+/**
+ * Rough remaining time, e.g. "about 3 min"
+ */
+export function formatEta(ms?: number): string {
+    if (ms === undefined) {
+        return 'estimating…';
+    }
+
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 1) {
+        return 'less than a minute';
+    }
+    if (minutes < 60) {
+        return `about ${minutes} min`;
+    }
+    return `about ${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+export class IndexingProgressModal extends Modal {
+    private unsubscribe?: () => void;
+
+    constructor(app: App, private job: IndexingJob) {
+        super(app);
+    }
+
+    onOpen(): void {
+        this.titleEl.setText('Vault indexing');
+        this.render(this.job.progress);
+        this.unsubscribe = this.job.onProgress(progress => this.render(progress));
+    }
+
+    onClose(): void {
+        this.unsubscribe?.();
+        this.contentEl.empty();
+    }
+
+    private render(progress: IndexingProgress): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        const progressEl = contentEl.createEl('progress', { cls: 'mnemosyne-indexing-progress' });
+        progressEl.max = Math.max(progress.totalFiles, 1);
+        progressEl.value = progress.processedFiles;
+
+        contentEl.createEl('p', {
+            text: `${progress.processedFiles} of ${progress.totalFiles} files · ` +
+                `${progress.chunks} chunks (${progress.embeddedChunks} newly embedded)`
+        });
+
+        if (progress.state === 'running') {
+            contentEl.createEl('p', { text: `Time remaining: ${formatEta(progress.etaMs)}` });
+            if (progress.currentFile) {
+                contentEl.createEl('p', { text: progress.currentFile, cls: 'setting-item-description' });
+            }
+        } else {
+            contentEl.createEl('p', { text: describeState(progress) });
+        }
+
+        if (!this.job.isActive) {
+            this.renderFailures(progress);
+        }
+
+        const controls = new Setting(contentEl);
+        if (this.job.isActive) {
+            controls
+                .addButton(button => button
+                    .setButtonText(progress.state === 'paused' ? 'Resume' : 'Pause')
+                    .onClick(() => progress.state === 'paused' ? this.job.resume() : this.job.pause()))
+                .addButton(button => button
+                    .setButtonText('Cancel')
+                    .setWarning()
+                    .onClick(() => this.job.cancel()));
+        } else {
+            controls.addButton(button => button
+                .setButtonText('Close')
+                .setCta()
+                .onClick(() => this.close()));
+        }
+    }
+
+    private renderFailures(progress: IndexingProgress): void {
+        if (progress.failures.length === 0) {
+            return;
+        }
+
+        const details = this.contentEl.createEl('details');
+        details.createEl('summary', {
+            text: `${progress.failures.length} file${progress.failures.length === 1 ? '' : 's'} could not be indexed`
+        });
+
+        const list = details.createEl('ul');
+        for (const failure of progress.failures) {
+            list.createEl('li', { text: `${failure.path}: ${failure.error}` });
+        }
+    }
+}
+
+function describeState(progress: IndexingProgress): string {
+    switch (progress.state) {
+        case 'paused':
+            return 'Paused. Indexing resumes where it left off.';
+        case 'cancelled':
+            return 'Cancelled. Files indexed so far remain searchable.';
+        case 'completed':
+            return progress.failures.length === 0 ? 'Indexing complete.' : 'Indexing finished with errors.';
+        default:
+            return 'Not running.';
+    }
+}
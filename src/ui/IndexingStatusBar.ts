@@ -0,0 +1,44 @@
+/**
+ * Indexing Status Bar
+ * Compact indexing progress in the status bar while a run is active, and
+ * the failure count after it ends. Clicking it opens the progress modal.
+ */
+
+import { IndexingJob, IndexingProgress } from '../core/rag/IndexingJob';
+import { formatEta } from './IndexingProgressModal';
+
+export class IndexingStatusBar {
+    private unsubscribe: () => void;
+
+    constructor(
+        private el: HTMLElement,
+        job: IndexingJob,
+        onClick: () => void
+    ) {
+        this.el.addClass('mnemosyne-indexing-status');
+        this.el.addEventListener('click', onClick);
+        this.render(job.progress);
+        this.unsubscribe = job.onProgress(progress => this.render(progress));
+    }
+
+    dispose(): void {
+        this.unsubscribe();
+        this.el.remove();
+    }
+
+    private render(progress: IndexingProgress): void {
+        if (progress.state === 'running') {
+            this.el.setText(`Indexing ${progress.processedFiles}/${progress.totalFiles} · ${formatEta(progress.etaMs)}`);
+            this.el.show();
+        } else if (progress.state === 'paused') {
+            this.el.setText(`Indexing paused ${progress.processedFiles}/${progress.totalFiles}`);
+            this.el.show();
+        } else if (progress.state !== 'idle' && progress.failures.length > 0) {
+            // Stays until the next run so the failures can be reviewed
+            this.el.setText(`Indexing: ${progress.failures.length} failed`);
+            this.el.show();
+        } else {
+            this.el.hide();
+        }
+    }
+}
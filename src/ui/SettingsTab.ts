@@ -4,9 +4,12 @@
  * Constitution Requirement VI: Sentence case, setHeading() API, Obsidian CSS variables
  */
 
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
 import type AIAgentPlatformPlugin from '../main';
-import { PluginSettings } from '../types/Settings';
+import { ModelPrice, PluginSettings } from '../types/Settings';
+import { formatErrorForUser } from '../utils/errors';
+import { formatTimestamp } from '../utils/MarkdownUtils';
+import { validatePriceTable } from '../utils/validation';
 
 export class MnemosyneSettingsTab extends PluginSettingTab {
     plugin: AIAgentPlatformPlugin;
@@ -40,6 +43,12 @@ export class MnemosyneSettingsTab extends PluginSettingTab {
 
         // Conversation Settings
         this.displayConversationSettings(containerEl);
+
+        // Usage Settings
+        this.displayUsageSettings(containerEl);
+
+        // Advanced Settings
+        this.displayAdvancedSettings(containerEl);
     }
 
     private displayProviderSettings(containerEl: HTMLElement): void {
@@ -167,8 +176,33 @@ export class MnemosyneSettingsTab extends PluginSettingTab {
                 .onChange(async (value: any) => {
                     this.plugin.settings.rag.embeddingProvider = value;
                     await this.plugin.saveSettings();
+                    this.display();  // Refresh to show/hide local model options
+                }));
+
+        new Setting(containerEl)
+            .setName('Embedding model')
+            .setDesc('Leave empty for the default (text-embedding-3-small or Xenova/all-MiniLM-L6-v2). Changing the model requires re-indexing.')
+            .addText(text => text
+                .setPlaceholder(this.plugin.settings.rag.embeddingProvider === 'local' ? 'Xenova/all-MiniLM-L6-v2' : 'text-embedding-3-small')
+                .setValue(this.plugin.settings.rag.embeddingModel ?? '')
+                .onChange(async (value) => {
+                    this.plugin.settings.rag.embeddingModel = value.trim() || undefined;
+                    await this.plugin.saveSettings();
                 }));
 
+        if (this.plugin.settings.rag.embeddingProvider === 'local') {
+            new Setting(containerEl)
+                .setName('Local model folder')
+                .setDesc('Folder inside the plugin directory holding downloaded Transformers.js models (e.g. models/Xenova/all-MiniLM-L6-v2/onnx). Nothing is downloaded automatically.')
+                .addText(text => text
+                    .setPlaceholder('models')
+                    .setValue(this.plugin.settings.rag.localModelPath ?? '')
+                    .onChange(async (value) => {
+                        this.plugin.settings.rag.localModelPath = value.trim() || undefined;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
         new Setting(containerEl)
             .setName('Auto-index vault')
             .setDesc('Automatically index your vault notes.')
@@ -181,7 +215,7 @@ export class MnemosyneSettingsTab extends PluginSettingTab {
 
         new Setting(containerEl)
             .setName('Index conversations')
-            .setDesc('Index conversation history for long-term memory.')
+            .setDesc('Index past conversations so agents can recall and cite earlier discussions.')
             .addToggle(toggle => toggle
                 .setValue(this.plugin.settings.rag.indexConversations)
                 .onChange(async (value) => {
@@ -203,15 +237,111 @@ export class MnemosyneSettingsTab extends PluginSettingTab {
                     }
                 }));
 
+        new Setting(containerEl)
+            .setName('Hybrid search')
+            .setDesc('Combine semantic and keyword (BM25) results for agents using the hybrid strategy. When off, they use semantic search only.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.rag.hybridSearchEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.rag.hybridSearchEnabled = value;
+                    await this.plugin.saveSettings();
+                    this.display();  // Refresh to show/hide the weight slider
+                }));
+
+        if (this.plugin.settings.rag.hybridSearchEnabled) {
+            new Setting(containerEl)
+                .setName('Keyword weight')
+                .setDesc('Share of keyword results when fusing hybrid search. Higher favours exact names and dates; lower favours meaning.')
+                .addSlider(slider => slider
+                    .setLimits(0, 1, 0.1)
+                    .setValue(this.plugin.settings.rag.keywordWeight ?? 0.5)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.rag.keywordWeight = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('Rerank results')
+            .setDesc('Re-score retrieved chunks against the query before they reach the agent. More precise, but slower. The agent score threshold then applies to the reranked score (0-1).')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.rag.rerankEnabled ?? false)
+                .onChange(async (value) => {
+                    this.plugin.settings.rag.rerankEnabled = value;
+                    await this.saveRerankSettings();
+                    this.display();  // Refresh to show/hide reranker options
+                }));
+
+        if (this.plugin.settings.rag.rerankEnabled) {
+            new Setting(containerEl)
+                .setName('Reranker')
+                .setDesc('A local cross-encoder runs offline on desktop; an LLM works everywhere but costs a request per search.')
+                .addDropdown(dropdown => dropdown
+                    .addOption('cross-encoder', 'Local cross-encoder (Transformers.js)')
+                    .addOption('llm', 'LLM relevance judge')
+                    .setValue(this.plugin.settings.rag.reranker ?? 'cross-encoder')
+                    .onChange(async (value: any) => {
+                        this.plugin.settings.rag.reranker = value;
+                        await this.saveRerankSettings();
+                        this.display();  // Refresh to show/hide the model field
+                    }));
+
+            if ((this.plugin.settings.rag.reranker ?? 'cross-encoder') === 'cross-encoder') {
+                new Setting(containerEl)
+                    .setName('Reranking model')
+                    .setDesc('Cross-encoder in the local model folder. Nothing is downloaded automatically.')
+                    .addText(text => text
+                        .setPlaceholder('Xenova/ms-marco-MiniLM-L-6-v2')
+                        .setValue(this.plugin.settings.rag.rerankModel ?? '')
+                        .onChange(async (value) => {
+                            this.plugin.settings.rag.rerankModel = value.trim() || undefined;
+                            await this.saveRerankSettings();
+                        }));
+            }
+
+            new Setting(containerEl)
+                .setName('Rerank candidates')
+                .setDesc('Chunks retrieved for the reranker to choose from.')
+                .addText(text => text
+                    .setPlaceholder('20')
+                    .setValue(this.plugin.settings.rag.rerankCandidates ? String(this.plugin.settings.rag.rerankCandidates) : '')
+                    .onChange(async (value) => {
+                        const num = parseInt(value);
+                        this.plugin.settings.rag.rerankCandidates = !isNaN(num) && num > 0 ? num : undefined;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
         new Setting(containerEl)
             .setName('Start indexing')
-            .setDesc('Index all markdown files in your vault.')
+            .setDesc(this.describeIndexStatus())
             .addButton(button => button
                 .setButtonText('Index vault')
-                .onClick(() => {
-                    // Will be implemented in Phase 4
-                    console.log('Start indexing clicked');
-                }));
+                .onClick(() => this.plugin.startVaultIndexing()));
+    }
+
+    /**
+     * Save and load the newly selected reranker, if RAG is running
+     */
+    private async saveRerankSettings(): Promise<void> {
+        await this.plugin.saveSettings();
+        try {
+            await this.plugin.ragSystem?.reloadReranker();
+        } catch (error) {
+            new Notice(formatErrorForUser(error as Error));
+        }
+    }
+
+    private describeIndexStatus(): string {
+        const { lastIndexTime, totalIndexedFiles } = this.plugin.settings.rag;
+        if (this.plugin.ragSystem?.indexingJob?.isActive) {
+            return 'Indexing is in progress. Click to view progress.';
+        }
+        if (!lastIndexTime) {
+            return 'Index all markdown files in your vault. Runs in the background and resumes after a restart.';
+        }
+        return `Index all markdown files in your vault. Last indexed ${formatTimestamp(lastIndexTime, 'relative')} (${totalIndexedFiles ?? 0} files).`;
     }
 
     private displayMCPSettings(containerEl: HTMLElement): void {
@@ -427,4 +557,131 @@ export class MnemosyneSettingsTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
     }
+
+    private displayUsageSettings(containerEl: HTMLElement): void {
+        containerEl.createEl('h2', { text: 'Usage and cost' });
+
+        new Setting(containerEl)
+            .setName('Track usage')
+            .setDesc('Record token usage and estimated cost for every completion.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.usage.enabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.usage.enabled = value;
+                    this.plugin.usageLedger?.updateConfig(this.plugin.settings.usage);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Daily budget (USD)')
+            .setDesc('Leave empty for no daily limit.')
+            .addText(text => text
+                .setPlaceholder('e.g. 1.00')
+                .setValue(this.plugin.settings.usage.dailyBudget?.toString() ?? '')
+                .onChange(async (value) => {
+                    const num = parseFloat(value);
+                    this.plugin.settings.usage.dailyBudget = !isNaN(num) && num > 0 ? num : undefined;
+                    this.plugin.usageLedger?.updateConfig(this.plugin.settings.usage);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Monthly budget (USD)')
+            .setDesc('Leave empty for no monthly limit.')
+            .addText(text => text
+                .setPlaceholder('e.g. 20.00')
+                .setValue(this.plugin.settings.usage.monthlyBudget?.toString() ?? '')
+                .onChange(async (value) => {
+                    const num = parseFloat(value);
+                    this.plugin.settings.usage.monthlyBudget = !isNaN(num) && num > 0 ? num : undefined;
+                    this.plugin.usageLedger?.updateConfig(this.plugin.settings.usage);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('When a budget is reached')
+            .setDesc('Warn once per period, or block further requests until the period resets.')
+            .addDropdown(dropdown => dropdown
+                .addOption('warn', 'Warn')
+                .addOption('block', 'Block requests')
+                .setValue(this.plugin.settings.usage.budgetAction)
+                .onChange(async (value: any) => {
+                    this.plugin.settings.usage.budgetAction = value;
+                    this.plugin.usageLedger?.updateConfig(this.plugin.settings.usage);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Report folder')
+            .setDesc('Vault folder where usage reports are written.')
+            .addText(text => text
+                .setPlaceholder('Mnemosyne/Reports')
+                .setValue(this.plugin.settings.usage.reportFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.usage.reportFolder = value.trim();
+                    this.plugin.usageLedger?.updateConfig(this.plugin.settings.usage);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Price table')
+            .setDesc('JSON map of model name prefix to USD per million tokens, e.g. {"gpt-4o": {"inputPerMillion": 2.5, "outputPerMillion": 10}}. The longest matching prefix wins.')
+            .addTextArea(text => {
+                text
+                    .setValue(JSON.stringify(this.plugin.settings.usage.priceTable, null, 2))
+                    .onChange(async (value) => {
+                        const table = parsePriceTable(value);
+                        if (!table.valid) {
+                            return;  // Keep the last valid table while the user is typing
+                        }
+                        this.plugin.settings.usage.priceTable = table.value;
+                        this.plugin.usageLedger?.updateConfig(this.plugin.settings.usage);
+                        await this.plugin.saveSettings();
+                    });
+                // Report a table that is still invalid once the user is done editing
+                text.inputEl.addEventListener('blur', () => {
+                    const table = parsePriceTable(text.getValue());
+                    if (!table.valid) {
+                        new Notice(`Price table not saved: ${table.errors.join('; ')}`);
+                    }
+                });
+            });
+    }
+
+    private displayAdvancedSettings(containerEl: HTMLElement): void {
+        containerEl.createEl('h2', { text: 'Advanced settings' });
+
+        new Setting(containerEl)
+            .setName('Max concurrent requests')
+            .setDesc('Maximum simultaneous requests per provider. Additional requests are queued, with chat ahead of background work.')
+            .addText(text => text
+                .setPlaceholder('3')
+                .setValue(String(this.plugin.settings.advanced.maxConcurrentRequests))
+                .onChange(async (value) => {
+                    const num = parseInt(value);
+                    if (!isNaN(num) && num > 0) {
+                        this.plugin.settings.advanced.maxConcurrentRequests = num;
+                        this.plugin.llmManager?.updateOptions({ maxConcurrentRequests: num });
+                        await this.plugin.saveSettings();
+                    }
+                }));
+    }
+}
+
+type ParsedPriceTable =
+    | { valid: true; value: Record<string, ModelPrice> }
+    | { valid: false; errors: string[] };
+
+function parsePriceTable(json: string): ParsedPriceTable {
+    let table: unknown;
+    try {
+        table = JSON.parse(json);
+    } catch (error) {
+        return { valid: false, errors: [`Invalid JSON: ${(error as Error).message}`] };
+    }
+
+    const result = validatePriceTable(table);
+    return result.valid
+        ? { valid: true, value: table as Record<string, ModelPrice> }
+        : { valid: false, errors: result.errors };
 }
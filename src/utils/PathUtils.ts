@@ -202,3 +202,46 @@ export function createFilePathFromTitle(title: string, folder: string = '', exte
 
     return normalizePath(fileName);
 }
+
+/**
+ * Check a path against a glob pattern. `*` matches within one path segment,
+ * `**` across segments and `?` a single character. Patterns without a slash
+ * match the file name anywhere in the vault (like .gitignore).
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+    const normalizedPath = normalizePath(path);
+    let normalizedPattern = normalizePath(pattern.trim());
+
+    if (!normalizedPattern) {
+        return false;
+    }
+
+    if (!normalizedPattern.includes('/')) {
+        normalizedPattern = `**/${normalizedPattern}`;
+    }
+
+    let regex = '';
+    for (let i = 0; i < normalizedPattern.length; i++) {
+        const char = normalizedPattern[i];
+
+        if (char === '*' && normalizedPattern[i + 1] === '*') {
+            // "**/" also matches zero folders
+            if (normalizedPattern[i + 2] === '/') {
+                regex += '(?:.*/)?';
+                i += 2;
+            } else {
+                regex += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            regex += '[^/]*';
+        } else if (char === '?') {
+            regex += '[^/]';
+        } else {
+            regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    // A pattern naming a folder also matches everything inside it
+    return new RegExp(`^${regex}(?:/.*)?$`).test(normalizedPath);
+}
@@ -47,6 +47,20 @@ export class ConfigurationError extends Error {
     }
 }
 
+export class BudgetExceededError extends Error {
+    constructor(message: string, public period: 'daily' | 'monthly') {
+        super(message);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+export class StructuredOutputError extends Error {
+    constructor(message: string, public schemaName: string, public errors: string[], public content: string) {
+        super(message);
+        this.name = 'StructuredOutputError';
+    }
+}
+
 /**
  * Format error for user-friendly display
  */
@@ -79,5 +93,13 @@ export function formatErrorForUser(error: Error): string {
         return `Configuration Error: ${error.message}`;
     }
 
+    if (error instanceof StructuredOutputError) {
+        return `Invalid Response (${error.schemaName}): ${error.message}`;
+    }
+
+    if (error instanceof BudgetExceededError) {
+        return `Budget Exceeded (${error.period}): ${error.message}`;
+    }
+
     return `Error: ${error.message}`;
 }
\ No newline at end of file
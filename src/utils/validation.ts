@@ -97,6 +97,11 @@ export function validateAgentConfig(config: AgentConfig): ValidationResult {
         if (config.retrievalSettings.scoreThreshold < 0 || config.retrievalSettings.scoreThreshold > 1) {
             errors.push('Score threshold must be between 0 and 1');
         }
+
+        const paraphrases = config.retrievalSettings.queryPlanning?.paraphrases;
+        if (paraphrases !== undefined && (paraphrases < 0 || paraphrases > 5)) {
+            errors.push('Query paraphrases must be between 0 and 5');
+        }
     }
 
     return {
@@ -180,4 +185,30 @@ export function validateJson(json: string): ValidationResult {
             errors: [`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`]
         };
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Validate a usage price table: an object mapping model prefixes to
+ * { inputPerMillion, outputPerMillion } with non-negative numbers
+ */
+export function validatePriceTable(table: unknown): ValidationResult {
+    if (typeof table !== 'object' || table === null || Array.isArray(table)) {
+        return { valid: false, errors: ['Price table must be a JSON object'] };
+    }
+
+    const errors: string[] = [];
+    for (const [prefix, price] of Object.entries(table)) {
+        if (typeof price !== 'object' || price === null || Array.isArray(price)) {
+            errors.push(`"${prefix}" must be an object with inputPerMillion and outputPerMillion`);
+            continue;
+        }
+        for (const field of ['inputPerMillion', 'outputPerMillion']) {
+            const value = (price as Record<string, unknown>)[field];
+            if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+                errors.push(`"${prefix}".${field} must be a non-negative number`);
+            }
+        }
+    }
+
+    return { valid: errors.length === 0, errors };
+}